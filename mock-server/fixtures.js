@@ -0,0 +1,327 @@
+/**
+ * Fixture data for the mock server. The small reference fixtures (company types,
+ * properties, elimination teams, key info, the profile template) are JSON files in
+ * ./fixtures. The long lists (bounties, auction house, companies and their
+ * employees, rentals, elimination team members, FFScouter stats and the players
+ * behind them) are generated here: every value is worked out from the ID or
+ * position, so each run serves the same data without storing it.
+ *
+ * Timestamps are written relative to FIXTURE_EPOCH, like the JSON fixtures;
+ * routes.js shifts them to the current time.
+ */
+
+const fs = require('fs');
+const path = require('path');
+
+/** 2026-01-01T00:00:00Z, the "now" the fixtures were written for. */
+const FIXTURE_EPOCH = 1767225600;
+
+const MINUTE = 60;
+const HOUR = 3600;
+
+const BOUNTY_COUNT = 150;
+const BOUNTY_TARGET_BASE = 3000000;
+const EMPLOYEE_BASE = 3100000;
+const ELIMINATION_MEMBER_BASE = 3200000;
+const AUCTION_COUNT = 120;
+/** One property has more rentals than fit on a page, so pagination gets used. */
+const RENTALS_BY_PROPERTY = { 10: 8, 11: 8, 12: 8, 13: 130 };
+
+const NAME_PARTS = [
+  'Ash', 'Blaze', 'Cobalt', 'Dusk', 'Echo', 'Frost', 'Grit', 'Hex', 'Ivy', 'Jinx', 'Koda', 'Lark', 'Moth',
+  'Nyx', 'Onyx', 'Pike', 'Quill', 'Rook', 'Sable', 'Talon', 'Umber', 'Vex', 'Wren', 'Xeno', 'Yara', 'Zed',
+];
+
+/** Player states cycle through these, so every page shows each of them. */
+const STATUSES = [
+  { description: 'Okay', details: '', state: 'Okay', color: 'green', until: 0 },
+  {
+    description: 'In hospital for 42 mins',
+    details: 'Mugged by someone',
+    state: 'Hospital',
+    color: 'red',
+    until: FIXTURE_EPOCH + 42 * MINUTE,
+  },
+  {
+    description: 'In jail for 15 mins',
+    details: 'Caught trafficking',
+    state: 'Jail',
+    color: 'red',
+    until: FIXTURE_EPOCH + 15 * MINUTE,
+  },
+  { description: 'Traveling to Mexico', details: '', state: 'Traveling', color: 'blue', until: 0 },
+];
+
+const ACTIVITY = ['Online', 'Idle', 'Offline'];
+const BOUNTY_REASONS = ['Revenge', 'Loss', 'Mugged me', 'For fun'];
+const RENTAL_MODIFICATIONS = ['Superior interior', 'Hot tub', 'Sauna', 'Pool', 'Open bar'];
+
+const DEADEYE = { id: 51, title: 'Deadeye', description: '42% increased critical hit damage', value: 42 };
+
+/** Auction house items; the ones with stats are weapons and armor. */
+const AUCTION_ITEMS = [
+  { id: 4, name: 'Katana', type: 'Melee', sub_type: 'Slashing', stats: { damage: 40, accuracy: 50, armor: null } },
+  { id: 367, name: 'Feathery Hotel Coupon', type: 'Other' },
+  { id: 283, name: 'Donator Pack', type: 'Special' },
+  {
+    id: 20,
+    name: 'Desert Eagle',
+    type: 'Secondary',
+    sub_type: 'Pistol',
+    stats: { damage: 43, accuracy: 53, armor: null },
+  },
+  { id: 206, name: 'Xanax', type: 'Drug' },
+  {
+    id: 334,
+    name: 'Combat Vest',
+    type: 'Defensive',
+    sub_type: null,
+    stats: { damage: null, accuracy: null, armor: 41 },
+  },
+  { id: 1, name: 'Hammer', type: 'Melee' },
+  { id: 26, name: 'AK-47', type: 'Primary', sub_type: 'Rifle', stats: { damage: 49, accuracy: 59, armor: null } },
+];
+
+function readJson(name) {
+  return JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', `${name}.json`), 'utf8'));
+}
+
+/** A made-up name that stays the same for the same number, e.g. BlazeLark1. */
+function playerName(n) {
+  return `${NAME_PARTS[n % NAME_PARTS.length]}${NAME_PARTS[(n * 7 + 11) % NAME_PARTS.length]}${n}`;
+}
+
+function lastAction(n) {
+  const minutes = (n * 37) % 300;
+  return {
+    status: ACTIVITY[n % ACTIVITY.length],
+    timestamp: FIXTURE_EPOCH - minutes * MINUTE,
+    relative: `${minutes} minutes ago`,
+  };
+}
+
+/** Name, level, status and activity of a generated player, from the ID alone. */
+function playerBasics(id) {
+  const n = id % 100000;
+  return {
+    // Numbered across ranges, so a bounty target and an employee never share a name
+    name: playerName(id % 1000000),
+    level: 1 + ((n - 1) * 13) % 100,
+    status: STATUSES[n % STATUSES.length],
+    last_action: lastAction(n),
+  };
+}
+
+/** 1234567 -> "1.23m", like FFScouter's bs_estimate_human. */
+function humanNumber(value) {
+  if (value >= 1e9) return `${(value / 1e9).toFixed(2)}b`;
+  if (value >= 1e6) return `${(value / 1e6).toFixed(2)}m`;
+  return `${Math.round(value / 1e3)}k`;
+}
+
+function range(count, from = 1) {
+  return Array.from({ length: count }, (_, i) => from + i);
+}
+
+function bountyTargetIds() {
+  return range(BOUNTY_COUNT).map((i) => BOUNTY_TARGET_BASE + i);
+}
+
+/** Member IDs of each elimination team, as many as the team's participants. */
+function eliminationMemberIds() {
+  const ids = {};
+  readJson('elimination').elimination.forEach((team, index) => {
+    ids[team.id] = range(team.participants).map((i) => ELIMINATION_MEMBER_BASE + index * 100 + i);
+  });
+  return ids;
+}
+
+function bounties() {
+  return bountyTargetIds().map((targetId, index) => {
+    const { name, level } = playerBasics(targetId);
+    // Every third bounty is anonymous
+    const listerId = index % 3 === 0 ? null : 2000000 + index * 11;
+    return {
+      target_id: targetId,
+      target_name: name,
+      target_level: level,
+      lister_id: listerId,
+      lister_name: listerId === null ? null : playerName(index * 11),
+      reward: 15000000 - index * 88000,
+      reason: listerId === null ? null : BOUNTY_REASONS[index % BOUNTY_REASONS.length],
+      quantity: 1 + (index % 3),
+      is_anonymous: listerId === null,
+      valid_until: FIXTURE_EPOCH + (6 + ((index * 5) % 168)) * HOUR,
+    };
+  });
+}
+
+function auctionhouse() {
+  return range(AUCTION_COUNT, 0).map((index) => {
+    const { stats, ...item } = AUCTION_ITEMS[index % AUCTION_ITEMS.length];
+    const uid = 9000000 + index;
+    const bonuses = index % 2 === 0 ? [DEADEYE] : [];
+    return {
+      id: 500000 - index,
+      seller: { id: 2100000 + index, name: playerName(index + 9) },
+      buyer: { id: 2200000 + index, name: playerName(index + 12) },
+      timestamp: FIXTURE_EPOCH - index * 30 * MINUTE,
+      price: 1000000 + ((index * 37) % 90) * 1000000,
+      bids: 1 + (index % 20),
+      item: stats
+        ? {
+            uid,
+            stats: { ...stats, quality: ((index * 39) % 200) / 2 },
+            bonuses,
+            rarity: bonuses.length > 0 ? 'yellow' : null,
+            ...item,
+          }
+        : { ...item, uid },
+    };
+  });
+}
+
+/** Four companies per company type, with consecutive employee IDs. */
+function companies() {
+  const types = readJson('company-types').companies;
+  const result = {};
+  let employeeId = EMPLOYEE_BASE;
+  Object.entries(types).forEach(([typeId, type], typeIndex) => {
+    range(4).forEach((i) => {
+      const n = typeIndex * 4 + i;
+      const hired = 2 + ((typeIndex + i) % 4) + (i % 2) * 3;
+      const employees = {};
+      range(hired, 0).forEach((j) => {
+        employeeId++;
+        const { name, status, last_action } = playerBasics(employeeId);
+        employees[employeeId] = {
+          name,
+          position: Object.keys(type.positions)[Math.min(j, 3)],
+          days_in_company: 10 + j * 37,
+          last_action,
+          status,
+        };
+      });
+      result[70000 + n] = {
+        ID: 70000 + n,
+        company_type: Number(typeId),
+        rating: 1 + ((n * 3) % 10),
+        name: `${playerName(n)} ${type.name}`,
+        director: 2300000 + n,
+        employees_hired: hired,
+        employees_capacity: hired + (i % 2),
+        daily_income: n * 100000,
+        daily_customers: 160 + n * 40,
+        weekly_income: n * 700000,
+        weekly_customers: (160 + n * 40) * 7,
+        days_old: 3 + n * 97,
+        employees,
+      };
+    });
+  });
+  return result;
+}
+
+function rentals() {
+  const { properties } = readJson('properties');
+  const result = {};
+  Object.entries(RENTALS_BY_PROPERTY).forEach(([propertyId, count]) => {
+    const property = properties[propertyId];
+    result[propertyId] = {
+      property: { id: Number(propertyId), name: property.name },
+      listings: range(count, 0).map((j) => ({
+        happy: property.happy + 500 + (j % 6) * 250,
+        cost: 15000000 + j * 750000,
+        cost_per_day: 500000 + ((j * 425000) % 500000),
+        rental_period: 7 * (1 + (j % 4)),
+        market_price: 1200000000 + Number(propertyId) * 1000000,
+        upkeep: property.upkeep,
+        modifications: RENTAL_MODIFICATIONS.slice(0, 1 + (j % RENTAL_MODIFICATIONS.length)),
+      })),
+    };
+  });
+  return result;
+}
+
+function eliminationTeams() {
+  const result = {};
+  Object.entries(eliminationMemberIds()).forEach(([teamId, ids]) => {
+    result[teamId] = ids.map((id, index) => {
+      const { name, level, status, last_action } = playerBasics(id);
+      return {
+        id,
+        name,
+        level,
+        last_action,
+        // The v2 elimination route leaves empty details and until as null
+        status: { ...status, details: status.details || null, until: status.until || null },
+        attacks: (index * 17) % 120,
+        score: (index * 29) % 150,
+      };
+    });
+  });
+  return result;
+}
+
+/** Stats for bounty targets and elimination members; every 11th player has no estimate. */
+function ffscouter() {
+  const ids = [...bountyTargetIds(), ...Object.values(eliminationMemberIds()).flat()];
+  const result = {};
+  ids.forEach((id) => {
+    const n = id % 100000;
+    if (n % 11 === 7) {
+      result[id] = { fair_fight: null, bs_estimate: null, bs_estimate_human: null, last_updated: null };
+      return;
+    }
+    const estimate = Math.round(50000 * 1.3 ** (n % 60));
+    result[id] = {
+      fair_fight: (100 + ((n * 37) % 500)) / 100,
+      bs_estimate: estimate,
+      bs_estimate_human: humanNumber(estimate),
+      last_updated: FIXTURE_EPOCH - (n % 24) * HOUR,
+    };
+  });
+  return result;
+}
+
+/**
+ * users.json (profile template, default personal stats, work stats) with the
+ * generated players: bounty targets, company employees and elimination members.
+ * Some are new players (Newbie icon); employees have their own personal stats.
+ */
+function users() {
+  const players = {};
+  [...bountyTargetIds(), ...Object.values(eliminationMemberIds()).flat()].forEach((id) => {
+    players[id] = playerBasics(id);
+  });
+  Object.values(companies()).forEach((company) => {
+    Object.keys(company.employees).forEach((id) => {
+      const n = Number(id) % 100000;
+      players[id] = {
+        ...playerBasics(Number(id)),
+        personalstats: { trainsreceived: n * 53, useractivity: n * 61200, attackswon: n * 31 },
+      };
+    });
+  });
+  Object.entries(players).forEach(([id, player]) => {
+    if (Number(id) % 9 === 1) player.basicicons = { icon72: 'Newbie' };
+  });
+  return { ...readJson('users'), players };
+}
+
+const GENERATED = {
+  auctionhouse,
+  bounties,
+  companies,
+  'elimination-teams': eliminationTeams,
+  ffscouter,
+  rentals,
+  users,
+};
+
+/** A fixture by name: generated for the long lists, read from ./fixtures/<name>.json otherwise. */
+function loadFixture(name) {
+  return GENERATED[name] ? GENERATED[name]() : readJson(name);
+}
+
+module.exports = { loadFixture, FIXTURE_EPOCH };
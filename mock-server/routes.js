@@ -0,0 +1,437 @@
+/**
+ * Request handling for the mock Torn API and FFScouter server.
+ * createHandler(options) returns a function from a request URL to { status, body },
+ * with no sockets involved; server.js wires it to node:http.
+ *
+ * Fixtures are loaded (read or generated, see fixtures.js) on every request, so edits
+ * show up on the next reload. Their timestamps are written relative to FIXTURE_EPOCH
+ * and shifted on the way out, so "in hospital for 42 mins" stays 42 minutes away
+ * whenever you run it.
+ */
+
+const { loadFixture, FIXTURE_EPOCH } = require('./fixtures');
+
+const TIMESTAMP_FIELDS = new Set([
+  'valid_until',
+  'timestamp',
+  'until',
+  'last_updated',
+  'eliminated_timestamp',
+  'hospital_timestamp',
+  'jail_timestamp',
+  'rentals_timestamp',
+  'registered_at',
+  'last_used',
+]);
+
+const TORN_ERRORS = {
+  0: 'Unknown error',
+  1: 'Key is empty',
+  2: 'Incorrect Key',
+  3: 'Wrong type',
+  4: 'Wrong fields',
+  5: 'Too many requests',
+  6: 'Incorrect ID',
+  7: 'Incorrect ID-entity relation',
+  8: 'IP block',
+  9: 'API disabled',
+  10: 'Key owner is in federal jail',
+  11: 'Key change error',
+  12: 'Key read error',
+  13: 'The key is temporarily disabled due to owner inactivity',
+  14: 'Daily read limit reached',
+  15: 'Temporary error',
+  16: 'Access level of this key is not high enough',
+  17: 'Backend error occurred, please try again',
+  18: 'API key has been paused by the owner',
+};
+
+/** Deep copy of a fixture value with every non-zero timestamp moved from FIXTURE_EPOCH to now. */
+function shiftTimestamps(value, shift) {
+  if (Array.isArray(value)) return value.map((item) => shiftTimestamps(item, shift));
+  if (value === null || typeof value !== 'object') return value;
+  const result = {};
+  for (const [key, item] of Object.entries(value)) {
+    result[key] =
+      TIMESTAMP_FIELDS.has(key) && typeof item === 'number' && item > 0
+        ? item + shift
+        : shiftTimestamps(item, shift);
+  }
+  return result;
+}
+
+function ok(body) {
+  return { status: 200, body };
+}
+
+/** Torn reports its errors with HTTP 200 and an { error } body. */
+function tornError(code) {
+  return ok({ error: { code, error: TORN_ERRORS[code] || TORN_ERRORS[0] } });
+}
+
+function notFound(pathname) {
+  return { status: 404, body: { error: `No mock for ${pathname}` } };
+}
+
+/**
+ * One page of a list in Torn v2 style, with _metadata.links. Like Torn, the
+ * links do not carry the API key.
+ */
+function paginate(items, url, maxLimit) {
+  const limit = Math.min(Number(url.searchParams.get('limit')) || maxLimit, maxLimit);
+  const offset = Number(url.searchParams.get('offset')) || 0;
+  const link = (linkOffset) => {
+    const next = new URL(url.pathname, url.origin);
+    url.searchParams.forEach((value, key) => {
+      if (key !== 'key' && key !== 'offset' && key !== 'limit') next.searchParams.set(key, value);
+    });
+    next.searchParams.set('limit', String(limit));
+    next.searchParams.set('offset', String(linkOffset));
+    return next.toString();
+  };
+  return {
+    page: items.slice(offset, offset + limit),
+    _metadata: {
+      links: {
+        next: offset + limit < items.length ? link(offset + limit) : null,
+        prev: offset > 0 ? link(Math.max(0, offset - limit)) : null,
+      },
+    },
+  };
+}
+
+function selections(url) {
+  return (url.searchParams.get('selections') || '').split(',').filter(Boolean);
+}
+
+/** Profile fixture for a player: the shared template with the player's own fields on top. */
+function userProfile(users, userId) {
+  const player = users.players[userId] || {};
+  const { personalstats, ...profileFields } = player;
+  return {
+    ...users.profile,
+    ...profileFields,
+    player_id: Number(userId),
+    name: player.name || `Player${userId}`,
+  };
+}
+
+function tornV1(segments, url) {
+  const [section, id] = segments;
+  const wanted = selections(url);
+
+  if (section === 'torn') {
+    const body = {};
+    if (wanted.includes('companies')) Object.assign(body, loadFixture('company-types'));
+    if (wanted.includes('properties')) Object.assign(body, loadFixture('properties'));
+    return Object.keys(body).length > 0 ? ok(body) : tornError(4);
+  }
+
+  if (section === 'company') {
+    const companies = loadFixture('companies');
+    if (wanted.includes('companies')) {
+      // company/{typeId}?selections=companies lists every company of that type
+      const ofType = {};
+      for (const [companyId, company] of Object.entries(companies)) {
+        if (String(company.company_type) !== id) continue;
+        const { employees, ...basic } = company;
+        ofType[companyId] = basic;
+      }
+      return ok({ company: ofType });
+    }
+    const company = companies[id];
+    return company ? ok({ company }) : tornError(6);
+  }
+
+  if (section === 'user') {
+    const users = loadFixture('users');
+    const userId = id || '1';
+    const player = users.players[userId];
+    const body = {};
+    if (wanted.length === 0 || wanted.includes('profile')) Object.assign(body, userProfile(users, userId));
+    if (wanted.includes('basic')) {
+      const { level, gender, player_id, name, status } = userProfile(users, userId);
+      Object.assign(body, { level, gender, player_id, name, status });
+    }
+    if (wanted.includes('personalstats')) {
+      body.personalstats = (player && player.personalstats) || users.personalstats;
+    }
+    if (wanted.includes('workstats')) Object.assign(body, users.workstats);
+    return Object.keys(body).length > 0 ? ok(body) : tornError(4);
+  }
+
+  return null;
+}
+
+/** v2 form of a generated company: director_id, and employees/income/customers grouped. */
+function companyV2(company) {
+  return {
+    id: company.ID,
+    company_type: company.company_type,
+    name: company.name,
+    rating: company.rating,
+    director_id: company.director,
+    employees: { hired: company.employees_hired, capacity: company.employees_capacity },
+    income: { daily: company.daily_income, weekly: company.weekly_income },
+    customers: { daily: company.daily_customers, weekly: company.weekly_customers },
+    days_old: company.days_old,
+  };
+}
+
+/** v2 form of a user profile: the v1 profile fixture renamed, icons as a list. */
+function userProfileV2(users, userId) {
+  const profile = userProfile(users, userId);
+  const married = profile.married && profile.married.spouse_id > 0 ? profile.married : null;
+  return {
+    profile: {
+      id: profile.player_id,
+      name: profile.name,
+      level: profile.level,
+      rank: profile.rank,
+      age: profile.age,
+      signed_up: Math.floor(Date.parse(`${profile.signup.replace(' ', 'T')}Z`) / 1000),
+      honor_id: profile.honor,
+      donator_status: profile.donator ? 'Donator' : null,
+      property: { id: profile.property_id, name: profile.property },
+      image: profile.profile_image || null,
+      gender: profile.gender,
+      revivable: profile.revivable === 1,
+      role: profile.role,
+      status: profile.status,
+      spouse: married && { id: married.spouse_id, name: married.spouse_name, days_married: married.duration },
+      awards: profile.awards,
+      friends: profile.friends,
+      enemies: profile.enemies,
+      forum_posts: profile.forum_posts,
+      karma: profile.karma,
+      last_action: profile.last_action,
+      life: profile.life,
+    },
+    icons: Object.entries(profile.basicicons || {}).map(([icon, title]) => ({ id: Number(icon.slice(4)), title })),
+  };
+}
+
+/** v2 torn/companies, company and user routes, made from the v1 fixtures. */
+function tornV2FromV1(segments, url, maxLimit) {
+  const [section, id, selection] = segments;
+
+  if (section === 'torn' && id === 'companies') {
+    const types = loadFixture('company-types').companies;
+    return ok({
+      companies: Object.entries(types).map(([typeId, type]) => ({
+        id: Number(typeId),
+        ...type,
+        positions: Object.entries(type.positions).map(([name, position]) => ({ name, ...position })),
+        specials: Object.entries(type.specials).map(([name, special]) => ({ name, ...special })),
+      })),
+    });
+  }
+
+  if (section === 'torn' && id === 'properties') {
+    const { properties } = loadFixture('properties');
+    return ok({
+      properties: Object.entries(properties).map(([propertyId, property]) => {
+        const { upgrades_available, staff_available, ...rest } = property;
+        return { id: Number(propertyId), ...rest, modifications: upgrades_available, staff: staff_available };
+      }),
+    });
+  }
+
+  if (section === 'company' && selection === 'companies') {
+    const ofType = Object.values(loadFixture('companies')).filter((company) => String(company.company_type) === id);
+    const { page, _metadata } = paginate(ofType.map(companyV2), url, maxLimit);
+    return ok({ companies: page, _metadata });
+  }
+
+  if (section === 'company' && id && !selection) {
+    const company = loadFixture('companies')[id];
+    if (!company) return tornError(6);
+    return ok({
+      company: companyV2(company),
+      employees: Object.entries(company.employees).map(([employeeId, employee]) => ({
+        id: Number(employeeId),
+        ...employee,
+      })),
+    });
+  }
+
+  if (section === 'user') {
+    const users = loadFixture('users');
+    // user/workstats is the key owner's; user/{id}/personalstats and user/{id} anyone's
+    if (id === 'workstats') return ok({ workstats: users.workstats });
+    const userId = id || '1';
+    const personalStats = () => {
+      const player = users.players[userId];
+      const stats = (player && player.personalstats) || users.personalstats;
+      const wanted = (url.searchParams.get('stat') || '').split(',').filter(Boolean);
+      return Object.entries(stats)
+        .filter(([name]) => wanted.length === 0 || wanted.includes(name))
+        .map(([name, value]) => ({ name, value, timestamp: FIXTURE_EPOCH }));
+    };
+    if (selection === 'personalstats') return ok({ personalstats: personalStats() });
+    if (!selection) {
+      const { profile, icons } = userProfileV2(users, userId);
+      const wanted = selections(url);
+      const body = {};
+      if (wanted.length === 0 || wanted.includes('profile')) body.profile = profile;
+      if (wanted.includes('icons')) body.icons = icons;
+      if (wanted.includes('personalstats')) body.personalstats = personalStats();
+      return ok(body);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * key/info for the given key: keys starting with "public-" or "custom-" get
+ * that access level, any other key full access.
+ */
+function keyInfo(key) {
+  const { selections, levels } = loadFixture('key-info');
+  const levelName = key.startsWith('public-') ? 'public' : key.startsWith('custom-') ? 'custom' : 'full';
+  const { level, type, exclude } = levels[levelName];
+  const granted = {};
+  for (const [section, names] of Object.entries(selections)) {
+    granted[section] = names.filter((name) => !(exclude[section] || []).includes(name));
+  }
+  return ok({
+    info: {
+      selections: granted,
+      access: { level, type, faction: false, company: false },
+      user: { id: 1, faction_id: null, company_id: null },
+    },
+  });
+}
+
+function tornV2(segments, url, maxLimit) {
+  const route = segments.join('/');
+
+  if (route === 'key/info') {
+    return keyInfo(url.searchParams.get('key') || '');
+  }
+
+  if (route === 'torn/bounties') {
+    const { page, _metadata } = paginate(loadFixture('bounties'), url, maxLimit);
+    return ok({ bounties: page, _metadata });
+  }
+
+  if (route === 'torn/elimination') {
+    return ok(loadFixture('elimination'));
+  }
+
+  if (segments[0] === 'torn' && segments[2] === 'eliminationteam') {
+    const members = loadFixture('elimination-teams')[segments[1]];
+    if (!members) return tornError(6);
+    const { page, _metadata } = paginate(members, url, maxLimit);
+    return ok({ eliminationteam: page, _metadata });
+  }
+
+  if (route === 'market/auctionhouse') {
+    const { page, _metadata } = paginate(loadFixture('auctionhouse'), url, maxLimit);
+    return ok({ auctionhouse: page, _metadata });
+  }
+
+  if (segments[0] === 'market' && segments[2] === 'rentals') {
+    const propertyId = segments[1];
+    const property = loadFixture('properties').properties[propertyId];
+    if (!property) return tornError(6);
+    const rentals = loadFixture('rentals')[propertyId] || {
+      property: { id: Number(propertyId), name: property.name },
+      listings: [],
+    };
+    const { page, _metadata } = paginate(rentals.listings, url, maxLimit);
+    return ok({
+      rentals: { ...rentals, listings: page },
+      rentals_timestamp: FIXTURE_EPOCH,
+      _metadata,
+    });
+  }
+
+  return tornV2FromV1(segments, url, maxLimit);
+}
+
+function ffScouter(segments, url) {
+  const key = url.searchParams.get('key') || '';
+  if (key === '' || key.startsWith('error-')) {
+    return { status: 403, body: { error: 'Invalid API key' } };
+  }
+  const route = segments.join('/');
+
+  if (route === 'api/v1/get-stats') {
+    const stats = loadFixture('ffscouter');
+    const targets = (url.searchParams.get('targets') || '').split(',').filter(Boolean);
+    return ok(
+      targets.map((id) => ({
+        player_id: Number(id),
+        ...(stats[id] || { fair_fight: null, bs_estimate: null, bs_estimate_human: null, last_updated: null }),
+      }))
+    );
+  }
+
+  if (route === 'api/v1/check-key') {
+    return ok({
+      key,
+      is_registered: !key.startsWith('unregistered'),
+      registered_at: FIXTURE_EPOCH - 30 * 86400,
+      last_used: FIXTURE_EPOCH - 600,
+    });
+  }
+
+  return null;
+}
+
+/**
+ * @param {object} options
+ * @param {number} options.maxLimit - Largest page the v2 list endpoints return (Torn allows 100)
+ * @param {number} options.rateLimit - Torn calls allowed per key in any 60 seconds before error 5
+ * @param {number|null} options.tornError - Answer every Torn call with this error code
+ * @param {number|null} options.httpStatus - Answer every call with this HTTP status
+ * @param {() => number} [options.now] - Clock in ms, for tests
+ */
+function createHandler(options) {
+  const now = options.now || Date.now;
+  /** Call times per key over the last minute, for the rate limit. */
+  const calls = new Map();
+
+  function overRateLimit(key) {
+    const windowStart = now() - 60_000;
+    const recent = (calls.get(key) || []).filter((time) => time > windowStart);
+    recent.push(now());
+    calls.set(key, recent);
+    return recent.length > options.rateLimit;
+  }
+
+  return function handle(requestUrl) {
+    const url = new URL(requestUrl);
+    const [service, ...segments] = url.pathname.split('/').filter(Boolean);
+    const key = url.searchParams.get('key') || '';
+
+    if (options.httpStatus) {
+      return { status: options.httpStatus, body: { error: 'Simulated HTTP error' } };
+    }
+    const httpKey = /^http-(\d{3})$/.exec(key);
+    if (httpKey) {
+      return { status: Number(httpKey[1]), body: { error: 'Simulated HTTP error' } };
+    }
+
+    let response = null;
+    if (service === 'torn') {
+      const errorKey = /^error-(\d+)$/.exec(key);
+      if (key === '') response = tornError(1);
+      else if (errorKey) response = tornError(Number(errorKey[1]));
+      else if (options.tornError !== null) response = tornError(options.tornError);
+      else if (overRateLimit(key)) response = tornError(5);
+      else if (segments[0] === 'v2') response = tornV2(segments.slice(1), url, options.maxLimit);
+      else response = tornV1(segments, url);
+    } else if (service === 'ffscouter') {
+      response = ffScouter(segments, url);
+    }
+
+    if (!response) return notFound(url.pathname);
+    const shift = Math.floor(now() / 1000) - FIXTURE_EPOCH;
+    return { status: response.status, body: shiftTimestamps(response.body, shift) };
+  };
+}
+
+module.exports = { createHandler, FIXTURE_EPOCH, TORN_ERRORS };
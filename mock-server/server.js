@@ -0,0 +1,53 @@
+/**
+ * Local stand-in for the Torn API and FFScouter, for developing the pages offline.
+ *
+ *   npm run mock-server
+ *
+ * then enable "Use local mock server" in Settings. Torn is served under /torn and
+ * FFScouter under /ffscouter. See README.md in this folder for the options.
+ */
+
+const http = require('http');
+const { createHandler } = require('./routes');
+
+function numberFromEnv(name, fallback) {
+  const value = process.env[name];
+  return value === undefined || value === '' ? fallback : Number(value);
+}
+
+const port = numberFromEnv('PORT', 4010);
+const latencyMs = numberFromEnv('MOCK_LATENCY_MS', 150);
+const handle = createHandler({
+  maxLimit: numberFromEnv('MOCK_MAX_LIMIT', 100),
+  rateLimit: numberFromEnv('MOCK_RATE_LIMIT', 100),
+  tornError: numberFromEnv('MOCK_TORN_ERROR', null),
+  httpStatus: numberFromEnv('MOCK_HTTP_STATUS', null),
+});
+
+const server = http.createServer((req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  let response;
+  try {
+    response = handle(new URL(req.url, `http://${req.headers.host}`).toString());
+  } catch (error) {
+    console.error(error);
+    response = { status: 500, body: { error: String(error) } };
+  }
+
+  setTimeout(() => {
+    res.writeHead(response.status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(response.body));
+    console.log(`${response.status} ${req.url.replace(/key=[^&]*/, 'key=…')}`);
+  }, latencyMs);
+});
+
+server.listen(port, () => {
+  console.log(`Mock Torn API at http://localhost:${port}/torn, FFScouter at http://localhost:${port}/ffscouter`);
+});
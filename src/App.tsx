@@ -12,13 +12,16 @@ import AuctionHouse from './pages/AuctionHouse';
 import Companies from './pages/Companies';
 import CompanyEmployees from './pages/CompanyEmployees';
 import CompanySpecials from './pages/CompanySpecials';
-import { BountiesList } from './components';
+import Debug from './pages/Debug';
+import { BountiesList, KeyVaultUnlock, TornBudgetIndicator } from './components';
 
 function App() {
   return (
     <HashRouter>
       <div className="App">
         <Menu />
+        <TornBudgetIndicator />
+        <KeyVaultUnlock />
         <Routes>
           <Route path="/" element={<BountiesList />} />
           <Route path="/settings" element={<Settings />} />
@@ -29,6 +32,7 @@ function App() {
           <Route path="/companies" element={<Companies />} />
           <Route path="/companies/:companyId/employees" element={<CompanyEmployees />} />
           <Route path="/company-specials" element={<CompanySpecials />} />
+          <Route path="/debug" element={<Debug />} />
         </Routes>
         <ToastContainer
           position="top-right"
@@ -19,6 +19,7 @@ const Menu: React.FC<MenuProps> = ({ items = [] }) => {
     { label: 'Companies', onClick: () => navigate('/companies') },
     { label: 'Company Specials', onClick: () => navigate('/company-specials') },
     { label: 'Settings', onClick: () => navigate('/settings') },
+    { label: 'Request Inspector', onClick: () => navigate('/debug') },
     { label: 'Help', onClick: () => navigate('/help') },
   ];
 
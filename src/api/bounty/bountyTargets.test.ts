@@ -0,0 +1,50 @@
+import { groupBountiesByTarget } from './bountyTargets';
+import { Bounty } from './tornBounties';
+
+function bounty(overrides: Partial<Bounty>): Bounty {
+  return {
+    target_id: 1,
+    target_name: 'Target',
+    target_level: 20,
+    lister_id: 100,
+    lister_name: 'Lister',
+    reward: 100_000,
+    reason: null,
+    quantity: 1,
+    is_anonymous: false,
+    valid_until: 1_700_000_000,
+    ...overrides,
+  };
+}
+
+describe('groupBountiesByTarget', () => {
+  it('should add up stacked listings on the same target', () => {
+    const targets = groupBountiesByTarget([
+      bounty({ target_id: 1, reward: 100_000, quantity: 2, valid_until: 1_700_000_500 }),
+      bounty({ target_id: 2, reward: 150_000 }),
+      bounty({ target_id: 1, reward: 300_000, lister_id: null, lister_name: null, is_anonymous: true }),
+    ]);
+
+    expect(targets).toHaveLength(2);
+    expect(targets[0]).toMatchObject({
+      targetId: 1,
+      totalReward: 500_000,
+      listingCount: 2,
+      quantity: 3,
+      earliestValidUntil: 1_700_000_000,
+      latestValidUntil: 1_700_000_500,
+    });
+    expect(targets[0].listings.map((listing) => listing.reward)).toEqual([300_000, 100_000]);
+    expect(targets[1]).toMatchObject({ targetId: 2, totalReward: 150_000, listingCount: 1 });
+  });
+
+  it('should order targets by total reward, not by their largest listing', () => {
+    const targets = groupBountiesByTarget([
+      bounty({ target_id: 1, reward: 400_000 }),
+      bounty({ target_id: 2, reward: 250_000 }),
+      bounty({ target_id: 2, reward: 250_000 }),
+    ]);
+
+    expect(targets.map((target) => target.targetId)).toEqual([2, 1]);
+  });
+});
@@ -0,0 +1,50 @@
+/**
+ * Bounty listings grouped by target.
+ * Torn lists every bounty placed on a player separately; stacked bounties on
+ * the same target are worth their combined reward.
+ */
+
+import { Bounty } from './tornBounties';
+
+export interface BountyTarget {
+  targetId: number;
+  targetName: string;
+  targetLevel: number;
+  /** Every listing's reward times its quantity, added up. */
+  totalReward: number;
+  listingCount: number;
+  /** Bounties left across all listings. */
+  quantity: number;
+  earliestValidUntil: number;
+  latestValidUntil: number;
+  /** The individual listings, highest reward first. */
+  listings: Bounty[];
+}
+
+/** Groups listings by target_id, highest total reward first. */
+export function groupBountiesByTarget(bounties: Bounty[]): BountyTarget[] {
+  const listingsByTarget = new Map<number, Bounty[]>();
+  bounties.forEach((bounty) => {
+    const listings = listingsByTarget.get(bounty.target_id);
+    if (listings) listings.push(bounty);
+    else listingsByTarget.set(bounty.target_id, [bounty]);
+  });
+
+  return Array.from(listingsByTarget.values())
+    .map((listings): BountyTarget => {
+      const sorted = [...listings].sort((a, b) => b.reward - a.reward);
+      const validUntil = listings.map((bounty) => bounty.valid_until);
+      return {
+        targetId: sorted[0].target_id,
+        targetName: sorted[0].target_name,
+        targetLevel: sorted[0].target_level,
+        totalReward: listings.reduce((sum, bounty) => sum + bounty.reward * bounty.quantity, 0),
+        listingCount: listings.length,
+        quantity: listings.reduce((sum, bounty) => sum + bounty.quantity, 0),
+        earliestValidUntil: Math.min(...validUntil),
+        latestValidUntil: Math.max(...validUntil),
+        listings: sorted,
+      };
+    })
+    .sort((a, b) => b.totalReward - a.totalReward);
+}
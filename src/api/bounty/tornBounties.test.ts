@@ -53,10 +53,12 @@ describe('tornBounties API', () => {
       expect(result.error).toBeNull();
       expect(result.data).toEqual(mockResponse);
       expect(global.fetch).toHaveBeenCalledWith(
-        expect.stringContaining('https://api.torn.com/v2/torn/bounties')
+        expect.stringContaining('https://api.torn.com/v2/torn/bounties'),
+        { signal: expect.any(AbortSignal) }
       );
       expect(global.fetch).toHaveBeenCalledWith(
-        expect.stringContaining('key=test-api-key')
+        expect.stringContaining('key=test-api-key'),
+        { signal: expect.any(AbortSignal) }
       );
     });
 
@@ -67,7 +69,7 @@ describe('tornBounties API', () => {
         offset: 0,
       });
 
-      expect(result.error).toBe('API key is required');
+      expect(result.error?.message).toBe('API key is required');
       expect(result.data).toBeNull();
       expect(global.fetch).not.toHaveBeenCalled();
     });
@@ -91,7 +93,8 @@ describe('tornBounties API', () => {
         offset: 0,
       });
 
-      expect(result.error).toBe('Torn API Error (2): Incorrect key');
+      expect(result.error?.message).toBe('Torn API Error (2): Incorrect key');
+      expect(result.error?.kind).toBe('torn');
       expect(result.data).toBeNull();
     });
 
@@ -107,7 +110,8 @@ describe('tornBounties API', () => {
         offset: 0,
       });
 
-      expect(result.error).toBe('HTTP error! status: 404');
+      expect(result.error?.message).toBe('HTTP error! status: 404');
+      expect(result.error?.kind).toBe('http');
       expect(result.data).toBeNull();
     });
 
@@ -122,7 +126,8 @@ describe('tornBounties API', () => {
         offset: 0,
       });
 
-      expect(result.error).toBe('Failed to fetch bounties: Network error');
+      expect(result.error?.message).toBe('Failed to fetch bounties: Network error');
+      expect(result.error?.kind).toBe('network');
       expect(result.data).toBeNull();
     });
 
@@ -145,10 +150,12 @@ describe('tornBounties API', () => {
       await fetchBounties({ apiKey: 'test-api-key' });
 
       expect(global.fetch).toHaveBeenCalledWith(
-        expect.stringContaining('limit=100')
+        expect.stringContaining('limit=100'),
+        { signal: expect.any(AbortSignal) }
       );
       expect(global.fetch).toHaveBeenCalledWith(
-        expect.stringContaining('offset=0')
+        expect.stringContaining('offset=0'),
+        { signal: expect.any(AbortSignal) }
       );
     });
   });
@@ -255,6 +262,55 @@ describe('tornBounties API', () => {
       expect(onProgress).toHaveBeenCalledWith(1, expect.any(Array));
     });
 
+    describe('when stopped early', () => {
+      const page = (targetId: number, next: string | null): BountiesResponse => ({
+        bounties: [
+          {
+            target_id: targetId,
+            target_name: `User${targetId}`,
+            target_level: 50,
+            lister_id: null,
+            lister_name: null,
+            reward: 1000000,
+            reason: null,
+            quantity: 1,
+            is_anonymous: true,
+            valid_until: 1234567890,
+          },
+        ],
+        _metadata: { links: { next, prev: null } },
+      });
+
+      beforeEach(() => {
+        (global.fetch as jest.Mock)
+          .mockResolvedValueOnce({ ok: true, json: async () => page(1, 'limit=1&offset=1') })
+          .mockResolvedValueOnce({ ok: true, json: async () => page(2, null) });
+      });
+
+      it('should link to the first page left out', async () => {
+        const result = await fetchAllBounties('test-api-key', 1, undefined, () => true);
+
+        expect(result.data?.bounties).toHaveLength(1);
+        expect(result.data?._metadata.links.next).toBe('limit=1&offset=1');
+        expect(global.fetch).toHaveBeenCalledTimes(1);
+      });
+
+      it('should be complete when the stop comes after the last page', async () => {
+        let pages = 0;
+        const result = await fetchAllBounties(
+          'test-api-key',
+          1,
+          () => {
+            pages++;
+          },
+          () => pages >= 2
+        );
+
+        expect(result.data?.bounties).toHaveLength(2);
+        expect(result.data?._metadata.links.next).toBeNull();
+      });
+    });
+
     it('should stop on error', async () => {
       const mockError: BountiesError = {
         error: {
@@ -270,7 +326,8 @@ describe('tornBounties API', () => {
 
       const result = await fetchAllBounties('invalid-key', 100);
 
-      expect(result.error).toBe('Torn API Error (2): Incorrect key');
+      expect(result.error?.message).toBe('Torn API Error (2): Incorrect key');
+      expect(result.error?.kind).toBe('torn');
       expect(result.data).toBeNull();
       expect(global.fetch).toHaveBeenCalledTimes(1);
     });
@@ -301,17 +358,19 @@ describe('tornBounties API', () => {
       expect(result.error).toBeNull();
       expect(result.data).toEqual(mockResponse);
       expect(global.fetch).toHaveBeenCalledWith(
-        expect.stringContaining('limit=100')
+        expect.stringContaining('limit=100'),
+        { signal: expect.any(AbortSignal) }
       );
       expect(global.fetch).toHaveBeenCalledWith(
-        expect.stringContaining('offset=100')
+        expect.stringContaining('offset=100'),
+        { signal: expect.any(AbortSignal) }
       );
     });
 
     it('should return error when API key is missing', async () => {
       const result = await fetchBountiesByLink('', 'limit=100&offset=100');
 
-      expect(result.error).toBe('API key is required');
+      expect(result.error?.message).toBe('API key is required');
       expect(result.data).toBeNull();
       expect(global.fetch).not.toHaveBeenCalled();
     });
@@ -319,7 +378,7 @@ describe('tornBounties API', () => {
     it('should return error when metadata link is missing', async () => {
       const result = await fetchBountiesByLink('test-api-key', '');
 
-      expect(result.error).toBe('Metadata link is required');
+      expect(result.error?.message).toBe('Metadata link is required');
       expect(result.data).toBeNull();
       expect(global.fetch).not.toHaveBeenCalled();
     });
@@ -331,7 +390,7 @@ describe('tornBounties API', () => {
       );
 
       // Should return an error for malformed links
-      expect(result.error).toBe('Invalid metadata link format: missing limit or offset');
+      expect(result.error?.message).toBe('Invalid metadata link format: missing limit or offset');
       expect(result.data).toBeNull();
       expect(global.fetch).not.toHaveBeenCalled();
     });
@@ -3,17 +3,31 @@
  * Provides functions for fetching bounty data from the Torn API v2
  */
 
+import { tornApiUrl } from '../helpers/apiConfig';
 import { httpWrapper } from '../helpers/httpWrapper';
+import { withTornKey } from '../key/keyPool';
+import { getTornBudget } from '../helpers/requestBudget';
+import { loggedFetch } from '../helpers/requestLog';
+import { array, boolean, nullable, number, object, parseResponse, string } from '../helpers/schema';
+import { tornRetry } from '../helpers/tornRetry';
+import {
+  TornError,
+  httpError,
+  networkError,
+  tornErrorFromBody,
+  validationError,
+} from '../helpers/tornError';
 
 // Type definitions for the Torn Bounties API response
 export interface Bounty {
   target_id: number;
   target_name: string;
   target_level: number;
-  lister_id: number;
-  lister_name: string;
+  /** Null for anonymous bounties. */
+  lister_id: number | null;
+  lister_name: string | null;
   reward: number;
-  reason: string;
+  reason: string | null;
   quantity: number;
   is_anonymous: boolean;
   valid_until: number;
@@ -42,68 +56,86 @@ export interface FetchBountiesParams {
   apiKey: string;
   limit?: number;
   offset?: number;
+  /** Cancels the request; the result is then an 'aborted' error. */
+  signal?: AbortSignal;
 }
 
 export interface FetchBountiesResult {
   data: BountiesResponse | null;
-  error: string | null;
+  error: TornError | null;
 }
 
-const BASE_URL = 'https://api.torn.com/v2/torn/bounties';
+const bountiesResponseSchema = object<BountiesResponse>({
+  bounties: array(
+    object<Bounty>({
+      target_id: number(),
+      target_name: string(),
+      target_level: number(),
+      lister_id: nullable(number()),
+      lister_name: nullable(string()),
+      reward: number(),
+      reason: nullable(string()),
+      quantity: number(),
+      is_anonymous: boolean(),
+      valid_until: number(),
+    })
+  ),
+  _metadata: object<BountiesMetadata>({
+    links: object<BountiesMetadata['links']>({
+      next: nullable(string()),
+      prev: nullable(string()),
+    }),
+  }),
+});
 
 /**
  * Fetches a single page of bounties from the Torn API.
- * Wrapped in httpWrapper for retries on transient failures.
+ * Wrapped in httpWrapper for retries on transient failures; the call may use a
+ * pooled key instead of apiKey (see keyPool.ts).
  */
 export async function fetchBounties(
   params: FetchBountiesParams
 ): Promise<FetchBountiesResult> {
-  const { apiKey, limit = 100, offset = 0 } = params;
+  const { apiKey, limit = 100, offset = 0, signal } = params;
 
   if (!apiKey || apiKey.trim() === '') {
-    return { data: null, error: 'API key is required' };
+    return { data: null, error: validationError('API key is required', 'apiKey') };
   }
 
-  return httpWrapper<BountiesResponse>(
-    {
-      retry: {
-        maxRetries: 2,
-        isSuccess: (r) =>
-          r.error === null ||
-          (r.error !== null &&
-            (r.error.startsWith('Torn API Error') ||
-              r.error.startsWith('HTTP error! status: 4'))),
+  return withTornKey(apiKey, 'bounties', (key) =>
+    httpWrapper<BountiesResponse>(
+      {
+        requestKey: `torn-bounties-${limit}-${offset}`,
+        budget: getTornBudget(key),
+        retry: tornRetry(key),
+        signal,
       },
-    },
-    async () => {
-      try {
-        const url = new URL(BASE_URL);
-        url.searchParams.append('key', apiKey);
-        url.searchParams.append('limit', limit.toString());
-        url.searchParams.append('offset', offset.toString());
+      async (runSignal) => {
+        try {
+          const url = new URL(`${tornApiUrl()}/v2/torn/bounties`);
+          url.searchParams.append('key', key);
+          url.searchParams.append('limit', limit.toString());
+          url.searchParams.append('offset', offset.toString());
 
-        const response = await fetch(url.toString());
+          const response = await loggedFetch(url.toString(), { signal: runSignal });
 
-        if (!response.ok) {
-          return { data: null, error: `HTTP error! status: ${response.status}` };
-        }
+          if (!response.ok) {
+            return { data: null, error: httpError(response.status) };
+          }
 
-        const data = await response.json();
+          const data = await response.json();
 
-        if ('error' in data && data.error) {
-          const errorData = data as BountiesError;
-          return {
-            data: null,
-            error: `Torn API Error (${errorData.error.code}): ${errorData.error.error}`,
-          };
-        }
+          const tornError = tornErrorFromBody(data);
+          if (tornError) {
+            return { data: null, error: tornError };
+          }
 
-        return { data: data as BountiesResponse, error: null };
-      } catch (error) {
-        const message = error instanceof Error ? error.message : 'Unknown error';
-        return { data: null, error: `Failed to fetch bounties: ${message}` };
+          return parseResponse(data, bountiesResponseSchema, 'bounties');
+        } catch (error) {
+          return { data: null, error: networkError('bounties', error) };
+        }
       }
-    }
+    )
   );
 }
 
@@ -113,20 +145,25 @@ export async function fetchBounties(
  * @param limit - Number of bounties per page (default: 100)
  * @param onProgress - Optional callback for progress updates
  * @param shouldStopAfterPage - Optional callback; return true to stop fetching further pages
- * @returns Promise containing all bounties or error
+ * @param signal - Optional signal; cancels the page in flight and stops paginating
+ * @returns Promise containing all bounties or error. When shouldStopAfterPage
+ * stopped it before the last page, _metadata.links.next is the link to the
+ * first page left out; otherwise it is null.
  */
 export async function fetchAllBounties(
   apiKey: string,
   limit: number = 100,
   onProgress?: (current: number, total: Bounty[]) => void,
-  shouldStopAfterPage?: (page: Bounty[]) => boolean
+  shouldStopAfterPage?: (page: Bounty[]) => boolean,
+  signal?: AbortSignal
 ): Promise<FetchBountiesResult> {
   const allBounties: Bounty[] = [];
   let offset = 0;
   let hasMore = true;
+  let next: string | null = null;
 
   while (hasMore) {
-    const result = await fetchBounties({ apiKey, limit, offset });
+    const result = await fetchBounties({ apiKey, limit, offset, signal });
 
     if (result.error) {
       return { data: null, error: result.error };
@@ -143,6 +180,7 @@ export async function fetchAllBounties(
       hasMore = result.data._metadata.links.next !== null && result.data.bounties.length > 0;
       if (hasMore && shouldStopAfterPage && shouldStopAfterPage(result.data.bounties)) {
         hasMore = false;
+        next = result.data._metadata.links.next;
       }
       offset += limit;
     } else {
@@ -153,7 +191,7 @@ export async function fetchAllBounties(
   return {
     data: {
       bounties: allBounties,
-      _metadata: { links: { next: null, prev: null } },
+      _metadata: { links: { next, prev: null } },
     },
     error: null,
   };
@@ -163,18 +201,20 @@ export async function fetchAllBounties(
  * Fetches bounties using a metadata link (next or prev).
  * @param apiKey - Torn API key
  * @param metadataLink - The next or prev link from metadata (e.g., "limit=100&offset=100")
+ * @param signal - Optional signal to cancel the request
  * @returns Promise containing the bounties data or error
  */
 export async function fetchBountiesByLink(
   apiKey: string,
-  metadataLink: string
+  metadataLink: string,
+  signal?: AbortSignal
 ): Promise<FetchBountiesResult> {
   if (!apiKey || apiKey.trim() === '') {
-    return { data: null, error: 'API key is required' };
+    return { data: null, error: validationError('API key is required', 'apiKey') };
   }
 
   if (!metadataLink || metadataLink.trim() === '') {
-    return { data: null, error: 'Metadata link is required' };
+    return { data: null, error: validationError('Metadata link is required', 'metadataLink') };
   }
 
   try {
@@ -185,19 +225,28 @@ export async function fetchBountiesByLink(
     const offsetStr = params.get('offset');
 
     if (!limitStr || !offsetStr) {
-      return { data: null, error: 'Invalid metadata link format: missing limit or offset' };
+      return {
+        data: null,
+        error: validationError('Invalid metadata link format: missing limit or offset', 'metadataLink'),
+      };
     }
 
     const limit = parseInt(limitStr, 10);
     const offset = parseInt(offsetStr, 10);
 
     if (isNaN(limit) || isNaN(offset)) {
-      return { data: null, error: 'Invalid metadata link format: limit or offset not a number' };
+      return {
+        data: null,
+        error: validationError('Invalid metadata link format: limit or offset not a number', 'metadataLink'),
+      };
     }
 
-    return fetchBounties({ apiKey, limit, offset });
+    return fetchBounties({ apiKey, limit, offset, signal });
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Unknown error';
-    return { data: null, error: `Failed to parse metadata link: ${message}` };
+    return {
+      data: null,
+      error: validationError(`Failed to parse metadata link: ${message}`, 'metadataLink'),
+    };
   }
 }
@@ -1,6 +1,15 @@
+import { tornApiUrl } from '../helpers/apiConfig';
+import { withV1Fallback } from '../helpers/apiGeneration';
 import { Cache } from '../helpers/cache';
-import { httpWrapper, DataOrError } from '../helpers/httpWrapper';
+import { registerCacheNamespace } from '../helpers/cacheRegistry';
+import { httpWrapper, DataOrError, RequestOptions } from '../helpers/httpWrapper';
 import { RateLimiter } from '../helpers/rateLimiter';
+import { getTornBudget } from '../helpers/requestBudget';
+import { array, nullable, number, object, record, string } from '../helpers/schema';
+import { fetchTornJson, mapData } from '../helpers/tornFetch';
+import { tornRetry } from '../helpers/tornRetry';
+import { withTornKey } from '../key/keyPool';
+import { networkError } from '../helpers/tornError';
 
 export interface CompanyBasic {
   ID: number;
@@ -47,80 +56,296 @@ interface CompanyDetailApiResponse {
   company: CompanyDetail;
 }
 
+const companyBasicShape = {
+  ID: number(),
+  company_type: number(),
+  rating: number(),
+  name: string(),
+  director: number(),
+  employees_hired: number(),
+  employees_capacity: number(),
+  daily_income: number(),
+  daily_customers: number(),
+  weekly_income: number(),
+  weekly_customers: number(),
+  days_old: number(),
+};
+
+const companiesResponseSchema = object<CompaniesApiResponse>({
+  company: record(object<CompanyBasic>(companyBasicShape)),
+});
+
+const companyEmployeeSchema = object<CompanyEmployee>({
+  name: string(),
+  position: string(),
+  days_in_company: number(),
+  last_action: object<CompanyEmployee['last_action']>({
+    status: string(),
+    timestamp: number(),
+    relative: string(),
+  }),
+  status: object<CompanyEmployee['status']>({
+    description: string(),
+    details: string(),
+    state: string(),
+    color: string(),
+    until: number(),
+  }),
+});
+
+const companyDetailResponseSchema = object<CompanyDetailApiResponse>({
+  company: object<CompanyDetail>({ ...companyBasicShape, employees: record(companyEmployeeSchema) }),
+});
+
+/** A company in Torn v2 responses: director_id, and employees/income/customers grouped. */
+export interface CompanyV2 {
+  id: number;
+  company_type: number;
+  name: string;
+  rating: number;
+  director_id: number;
+  employees: { hired: number; capacity: number };
+  income: { daily: number; weekly: number };
+  customers: { daily: number; weekly: number };
+  days_old: number;
+}
+
+/** A company employee in Torn v2: a list entry with its id, and nullable status details. */
+export interface CompanyEmployeeV2 extends Omit<CompanyEmployee, 'status'> {
+  id: number;
+  status: Omit<CompanyEmployee['status'], 'details' | 'until'> & {
+    details: string | null;
+    until: number | null;
+  };
+}
+
+/** Torn v2 company/{typeId}/companies, one page. */
+export interface CompaniesV2Response {
+  companies: CompanyV2[];
+  _metadata: {
+    links: {
+      next: string | null;
+      prev: string | null;
+    };
+  };
+}
+
+/** Torn v2 company/{id} with the profile and employees selections. */
+export interface CompanyDetailV2Response {
+  company: CompanyV2;
+  employees: CompanyEmployeeV2[];
+}
+
+const dailyWeeklySchema = object<{ daily: number; weekly: number }>({ daily: number(), weekly: number() });
+
+const companyV2Schema = object<CompanyV2>({
+  id: number(),
+  company_type: number(),
+  name: string(),
+  rating: number(),
+  director_id: number(),
+  employees: object<CompanyV2['employees']>({ hired: number(), capacity: number() }),
+  income: dailyWeeklySchema,
+  customers: dailyWeeklySchema,
+  days_old: number(),
+});
+
+const companiesV2ResponseSchema = object<CompaniesV2Response>({
+  companies: array(companyV2Schema),
+  _metadata: object<CompaniesV2Response['_metadata']>({
+    links: object<CompaniesV2Response['_metadata']['links']>({
+      next: nullable(string()),
+      prev: nullable(string()),
+    }),
+  }),
+});
+
+const companyDetailV2ResponseSchema = object<CompanyDetailV2Response>({
+  company: companyV2Schema,
+  employees: array(
+    object<CompanyEmployeeV2>({
+      id: number(),
+      name: string(),
+      position: string(),
+      days_in_company: number(),
+      last_action: object<CompanyEmployee['last_action']>({
+        status: string(),
+        timestamp: number(),
+        relative: string(),
+      }),
+      status: object<CompanyEmployeeV2['status']>({
+        description: string(),
+        details: nullable(string()),
+        state: string(),
+        color: string(),
+        until: nullable(number()),
+      }),
+    })
+  ),
+});
+
+function companyFromV2(company: CompanyV2): CompanyBasic {
+  return {
+    ID: company.id,
+    company_type: company.company_type,
+    rating: company.rating,
+    name: company.name,
+    director: company.director_id,
+    employees_hired: company.employees.hired,
+    employees_capacity: company.employees.capacity,
+    daily_income: company.income.daily,
+    daily_customers: company.customers.daily,
+    weekly_income: company.income.weekly,
+    weekly_customers: company.customers.weekly,
+    days_old: company.days_old,
+  };
+}
+
+function companyDetailFromV2(response: CompanyDetailV2Response): CompanyDetail {
+  const employees: Record<string, CompanyEmployee> = {};
+  response.employees.forEach(({ id, status, ...employee }) => {
+    employees[String(id)] = {
+      ...employee,
+      status: { ...status, details: status.details ?? '', until: status.until ?? 0 },
+    };
+  });
+  return { ...companyFromV2(response.company), employees };
+}
+
 const companyDetailLimiter = new RateLimiter({ cooldownMs: 250 });
 
+const companiesCache = registerCacheNamespace({
+  namespace: 'companies',
+  label: 'Companies by type',
+  maxAgeMs: 3_600_000, // 1 hour
+});
+
+const companyDetailCache = registerCacheNamespace({
+  namespace: 'company-detail',
+  label: 'Company details',
+  maxAgeMs: 3_600_000, // 1 hour
+});
+
+/**
+ * All companies of a type. On v2 the list is paged; every page after the first
+ * takes its own call from the key's budget.
+ */
+async function fetchCompaniesV2(apiKey: string, typeId: string, signal?: AbortSignal): Promise<DataOrError<CompanyBasic[]>> {
+  const companies: CompanyBasic[] = [];
+  let nextUrl: string | null = `${tornApiUrl()}/v2/company/${typeId}/companies?limit=100&key=${apiKey}`;
+  let firstPage = true;
+  while (nextUrl) {
+    if (!firstPage) {
+      try {
+        await getTornBudget(apiKey).acquire(signal);
+      } catch (error) {
+        return { data: null, error: networkError('companies', error) };
+      }
+    }
+    const result: DataOrError<CompaniesV2Response> = await fetchTornJson(
+      nextUrl,
+      companiesV2ResponseSchema,
+      'companies',
+      signal
+    );
+    if (!result.data) return { data: null, error: result.error };
+    firstPage = false;
+    companies.push(...result.data.companies.map(companyFromV2));
+    nextUrl = result.data.companies.length > 0 ? result.data._metadata.links.next : null;
+    if (nextUrl) {
+      // Ensure the API key is present in the next URL if it's not already there
+      const url = new URL(nextUrl);
+      if (!url.searchParams.has('key')) {
+        url.searchParams.append('key', apiKey);
+        nextUrl = url.toString();
+      }
+    }
+  }
+  return { data: companies, error: null };
+}
+
+/** Companies of a type; v2 company/{typeId}/companies, falling back to v1. */
 export async function fetchCompaniesByType(
   apiKey: string,
-  typeId: string
+  typeId: string,
+  options: RequestOptions<CompanyBasic[]> = {}
 ): Promise<DataOrError<CompanyBasic[]>> {
   const cache = new Cache<CompanyBasic[]>({
     storageKey: `torn-companies-type-${typeId}`,
-    maxStalenessMs: 3_600_000, // 1 hour
+    maxStalenessMs: companiesCache.maxAgeMs,
+    namespace: companiesCache.namespace,
   });
-  return httpWrapper<CompanyBasic[]>(
-    {
+  return withTornKey(apiKey, 'companies', (key) => {
+    const wrapperOptions = {
+      ...options,
       cache,
-      retry: { maxRetries: 2, isSuccess: (r) => r.error === null },
-    },
-    async () => {
-      try {
-        const response = await fetch(
-          `https://api.torn.com/company/${typeId}?selections=companies&key=${apiKey}`
-        );
-        if (!response.ok) {
-          return { data: null, error: `HTTP error: ${response.status}` };
-        }
-        const data = await response.json();
-        if ('error' in data && data.error) {
-          return { data: null, error: `Torn API Error (${data.error.code}): ${data.error.error}` };
-        }
-        const typed = data as CompaniesApiResponse;
-        const companies = Object.values(typed.company);
-        return { data: companies, error: null };
-      } catch (error) {
-        return {
-          data: null,
-          error: `Failed to fetch companies: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        };
-      }
-    }
-  );
+      budget: getTornBudget(key),
+      retry: tornRetry<CompanyBasic[]>(key),
+    };
+    return withV1Fallback(
+      'companies',
+      () => httpWrapper(wrapperOptions, (signal) => fetchCompaniesV2(key, typeId, signal)),
+      () =>
+        httpWrapper(wrapperOptions, async (signal) =>
+          mapData(
+            await fetchTornJson(
+              `${tornApiUrl()}/company/${typeId}?selections=companies&key=${key}`,
+              companiesResponseSchema,
+              'companies',
+              signal
+            ),
+            (response) => Object.values(response.company)
+          )
+        )
+    );
+  });
 }
 
+/** A company with its employees; v2 company/{id} (profile, employees), falling back to v1. */
 export async function fetchCompanyDetail(
   apiKey: string,
-  companyId: number
+  companyId: number,
+  options: RequestOptions<CompanyDetail> = {}
 ): Promise<DataOrError<CompanyDetail>> {
   const cache = new Cache<CompanyDetail>({
     storageKey: `torn-company-detail-${companyId}`,
-    maxStalenessMs: 3_600_000, // 1 hour
+    maxStalenessMs: companyDetailCache.maxAgeMs,
+    namespace: companyDetailCache.namespace,
   });
-  return httpWrapper<CompanyDetail>(
-    {
+  return withTornKey(apiKey, 'company-employees', (key) => {
+    const wrapperOptions = {
+      ...options,
       cache,
       rateLimiter: companyDetailLimiter,
-      retry: { maxRetries: 2, isSuccess: (r) => r.error === null },
-    },
-    async () => {
-      try {
-        const response = await fetch(
-          `https://api.torn.com/company/${companyId}?selections=&key=${apiKey}`
-        );
-        if (!response.ok) {
-          return { data: null, error: `HTTP error: ${response.status}` };
-        }
-        const data = await response.json();
-        if ('error' in data && data.error) {
-          return { data: null, error: `Torn API Error (${data.error.code}): ${data.error.error}` };
-        }
-        const typed = data as CompanyDetailApiResponse;
-        return { data: typed.company, error: null };
-      } catch (error) {
-        return {
-          data: null,
-          error: `Failed to fetch company detail: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        };
-      }
-    }
-  );
+      budget: getTornBudget(key),
+      retry: tornRetry<CompanyDetail>(key),
+    };
+    return withV1Fallback(
+      'company-detail',
+      () =>
+        httpWrapper(wrapperOptions, async (signal) =>
+          mapData(
+            await fetchTornJson(
+              `${tornApiUrl()}/v2/company/${companyId}?selections=profile,employees&key=${key}`,
+              companyDetailV2ResponseSchema,
+              'company detail',
+              signal
+            ),
+            companyDetailFromV2
+          )
+        ),
+      () =>
+        httpWrapper(wrapperOptions, async (signal) =>
+          mapData(
+            await fetchTornJson(
+              `${tornApiUrl()}/company/${companyId}?selections=&key=${key}`,
+              companyDetailResponseSchema,
+              'company detail',
+              signal
+            ),
+            (response) => response.company
+          )
+        )
+    );
+  });
 }
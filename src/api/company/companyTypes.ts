@@ -1,5 +1,12 @@
+import { tornApiUrl } from '../helpers/apiConfig';
 import { Cache } from '../helpers/cache';
-import { httpWrapper, DataOrError } from '../helpers/httpWrapper';
+import { registerCacheNamespace } from '../helpers/cacheRegistry';
+import { withV1Fallback } from '../helpers/apiGeneration';
+import { httpWrapper, DataOrError, RequestOptions } from '../helpers/httpWrapper';
+import { getTornBudget } from '../helpers/requestBudget';
+import { array, number, object, record, string } from '../helpers/schema';
+import { fetchTornJson, mapData } from '../helpers/tornFetch';
+import { tornRetry } from '../helpers/tornRetry';
 
 export interface CompanyPosition {
   man_required: number;
@@ -30,36 +37,129 @@ export interface CompanyTypesResponse {
   companies: Record<string, CompanyTypeInfo>;
 }
 
+const companyTypesResponseSchema = object<CompanyTypesResponse>({
+  companies: record(
+    object<CompanyTypeInfo>({
+      name: string(),
+      cost: number(),
+      default_employees: number(),
+      positions: record(
+        object<CompanyPosition>({
+          man_required: number(),
+          int_required: number(),
+          end_required: number(),
+          man_gain: number(),
+          int_gain: number(),
+          end_gain: number(),
+          special_ability: string(),
+          description: string(),
+        })
+      ),
+      specials: record(
+        object<CompanySpecial>({
+          effect: string(),
+          cost: number(),
+          rating_required: number(),
+        })
+      ),
+    })
+  ),
+});
+
+const companyTypesCacheNamespace = registerCacheNamespace({
+  namespace: 'company-types',
+  label: 'Company types',
+  maxAgeMs: 86_400_000, // 24 hours
+});
+
 const companyTypesCache = new Cache<CompanyTypesResponse>({
   storageKey: 'torn-company-types',
-  maxStalenessMs: 86_400_000, // 24 hours
+  maxStalenessMs: companyTypesCacheNamespace.maxAgeMs,
+  namespace: companyTypesCacheNamespace.namespace,
 });
 
-export async function fetchCompanyTypes(apiKey: string): Promise<DataOrError<CompanyTypesResponse>> {
-  return httpWrapper<CompanyTypesResponse>(
-    {
-      cache: companyTypesCache,
-      retry: { maxRetries: 2, isSuccess: (r) => r.error === null },
-    },
-    async () => {
-      try {
-        const response = await fetch(
-          `https://api.torn.com/torn/?selections=companies&key=${apiKey}`
-        );
-        if (!response.ok) {
-          return { data: null, error: `HTTP error: ${response.status}` };
-        }
-        const data = await response.json();
-        if ('error' in data && data.error) {
-          return { data: null, error: `Torn API Error (${data.error.code}): ${data.error.error}` };
-        }
-        return { data: data as CompanyTypesResponse, error: null };
-      } catch (error) {
-        return {
-          data: null,
-          error: `Failed to fetch company types: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        };
-      }
-    }
+/** Torn v2 torn/companies: company types as lists, with positions and specials by name. */
+export interface CompanyTypesV2Response {
+  companies: Array<{
+    id: number;
+    name: string;
+    cost: number;
+    default_employees: number;
+    positions: Array<CompanyPosition & { name: string }>;
+    specials: Array<CompanySpecial & { name: string }>;
+  }>;
+}
+
+type CompanyTypeV2 = CompanyTypesV2Response['companies'][number];
+
+const companyTypesV2ResponseSchema = object<CompanyTypesV2Response>({
+  companies: array(
+    object<CompanyTypeV2>({
+      id: number(),
+      name: string(),
+      cost: number(),
+      default_employees: number(),
+      positions: array(
+        object<CompanyTypeV2['positions'][number]>({
+          name: string(),
+          man_required: number(),
+          int_required: number(),
+          end_required: number(),
+          man_gain: number(),
+          int_gain: number(),
+          end_gain: number(),
+          special_ability: string(),
+          description: string(),
+        })
+      ),
+      specials: array(
+        object<CompanyTypeV2['specials'][number]>({
+          name: string(),
+          effect: string(),
+          cost: number(),
+          rating_required: number(),
+        })
+      ),
+    })
+  ),
+});
+
+function fromV2(response: CompanyTypesV2Response): CompanyTypesResponse {
+  const companies: Record<string, CompanyTypeInfo> = {};
+  response.companies.forEach(({ id, positions, specials, ...type }) => {
+    companies[String(id)] = {
+      ...type,
+      positions: Object.fromEntries(positions.map(({ name, ...position }) => [name, position])),
+      specials: Object.fromEntries(specials.map(({ name, ...special }) => [name, special])),
+    };
+  });
+  return { companies };
+}
+
+/** Company types with their positions and specials; v2 torn/companies, falling back to v1. */
+export async function fetchCompanyTypes(
+  apiKey: string,
+  options: RequestOptions<CompanyTypesResponse> = {}
+): Promise<DataOrError<CompanyTypesResponse>> {
+  const wrapperOptions = {
+    ...options,
+    cache: companyTypesCache,
+    budget: getTornBudget(apiKey),
+    retry: tornRetry<CompanyTypesResponse>(apiKey),
+  };
+  const key = encodeURIComponent(apiKey);
+  return withV1Fallback(
+    'company-types',
+    () =>
+      httpWrapper(wrapperOptions, async (signal) =>
+        mapData(
+          await fetchTornJson(`${tornApiUrl()}/v2/torn/companies?key=${key}`, companyTypesV2ResponseSchema, 'company types', signal),
+          fromV2
+        )
+      ),
+    () =>
+      httpWrapper(wrapperOptions, (signal) =>
+        fetchTornJson(`${tornApiUrl()}/torn/?selections=companies&key=${key}`, companyTypesResponseSchema, 'company types', signal)
+      )
   );
 }
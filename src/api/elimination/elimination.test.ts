@@ -50,10 +50,12 @@ describe('elimination API', () => {
       expect(result.error).toBeNull();
       expect(result.data).toEqual(mockResponse);
       expect(global.fetch).toHaveBeenCalledWith(
-        expect.stringContaining('https://api.torn.com/v2/torn/elimination')
+        expect.stringContaining('https://api.torn.com/v2/torn/elimination'),
+        { signal: undefined }
       );
       expect(global.fetch).toHaveBeenCalledWith(
-        expect.stringContaining('key=test-api-key')
+        expect.stringContaining('key=test-api-key'),
+        { signal: undefined }
       );
     });
 
@@ -62,7 +64,7 @@ describe('elimination API', () => {
         apiKey: '',
       });
 
-      expect(result.error).toBe('API key is required');
+      expect(result.error?.message).toBe('API key is required');
       expect(result.data).toBeNull();
       expect(global.fetch).not.toHaveBeenCalled();
     });
@@ -84,7 +86,8 @@ describe('elimination API', () => {
         apiKey: 'invalid-key',
       });
 
-      expect(result.error).toBe('Torn API Error (2): Incorrect key');
+      expect(result.error?.message).toBe('Torn API Error (2): Incorrect key');
+      expect(result.error?.kind).toBe('torn');
       expect(result.data).toBeNull();
     });
 
@@ -98,7 +101,8 @@ describe('elimination API', () => {
         apiKey: 'test-api-key',
       });
 
-      expect(result.error).toBe('HTTP error! status: 404');
+      expect(result.error?.message).toBe('HTTP error! status: 404');
+      expect(result.error?.kind).toBe('http');
       expect(result.data).toBeNull();
     });
 
@@ -109,7 +113,8 @@ describe('elimination API', () => {
         apiKey: 'test-api-key',
       });
 
-      expect(result.error).toBe('Failed to fetch elimination data: Network error');
+      expect(result.error?.message).toBe('Failed to fetch elimination data: Network error');
+      expect(result.error?.kind).toBe('network');
       expect(result.data).toBeNull();
     });
   });
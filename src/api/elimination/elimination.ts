@@ -1,3 +1,15 @@
+import { tornApiUrl } from '../helpers/apiConfig';
+import { getTornBudget } from '../helpers/requestBudget';
+import { loggedFetch } from '../helpers/requestLog';
+import { array, boolean, nullable, number, object, optional, parseResponse, string } from '../helpers/schema';
+import {
+  TornError,
+  httpError,
+  networkError,
+  tornErrorFromBody,
+  validationError,
+} from '../helpers/tornError';
+
 export interface EliminationLeader {
   id: number;
   name: string;
@@ -14,7 +26,8 @@ export interface EliminationTeam {
   wins: number;
   losses: number;
   eliminated: boolean;
-  eliminated_timestamp: number;
+  /** Null while the team is still in. */
+  eliminated_timestamp: number | null;
   leaders: EliminationLeader[];
 }
 
@@ -30,11 +43,13 @@ export interface EliminationTeamMemberLastAction {
 
 export interface EliminationTeamMemberStatus {
   description: string;
-  details: string;
+  // API v2 uses null (not 0/"") when a field does not apply to the current state
+  details: string | null;
   state: string;
   color: string;
-  until: number;
-  plane_image_type: string;
+  until: number | null;
+  /** Only present while travelling. */
+  plane_image_type?: string;
 }
 
 export interface EliminationTeamMember {
@@ -53,22 +68,26 @@ export interface EliminationTeamMembersResponse {
 
 export interface FetchEliminationParams {
   apiKey: string;
+  /** Cancels the request; the result is then an 'aborted' error. */
+  signal?: AbortSignal;
 }
 
 export interface FetchEliminationResult {
   data: EliminationResponse | null;
-  error: string | null;
+  error: TornError | null;
 }
 
 export interface FetchEliminationTeamMembersParams {
   apiKey: string;
   teamId: number;
   offset?: number;
+  /** Cancels the request; the result is then an 'aborted' error. */
+  signal?: AbortSignal;
 }
 
 export interface FetchEliminationTeamMembersResult {
   data: EliminationTeamMembersResponse | null;
-  error: string | null;
+  error: TornError | null;
 }
 
 export interface TornApiError {
@@ -78,7 +97,54 @@ export interface TornApiError {
   };
 }
 
-const BASE_URL = 'https://api.torn.com/v2/torn/elimination';
+const eliminationResponseSchema = object<EliminationResponse>({
+  elimination: array(
+    object<EliminationTeam>({
+      id: number(),
+      name: string(),
+      participants: number(),
+      position: number(),
+      score: number(),
+      lives: number(),
+      wins: number(),
+      losses: number(),
+      eliminated: boolean(),
+      eliminated_timestamp: nullable(number()),
+      leaders: array(
+        object<EliminationLeader>({
+          id: number(),
+          name: string(),
+          active: boolean(),
+        })
+      ),
+    })
+  ),
+});
+
+const eliminationTeamMembersResponseSchema = object<EliminationTeamMembersResponse>({
+  eliminationteam: array(
+    object<EliminationTeamMember>({
+      id: number(),
+      name: string(),
+      level: number(),
+      last_action: object<EliminationTeamMemberLastAction>({
+        status: string(),
+        timestamp: number(),
+        relative: string(),
+      }),
+      status: object<EliminationTeamMemberStatus>({
+        description: string(),
+        details: nullable(string()),
+        state: string(),
+        color: string(),
+        until: nullable(number()),
+        plane_image_type: optional(string()),
+      }),
+      attacks: number(),
+      score: number(),
+    })
+  ),
+});
 
 /**
  * Fetches elimination data from the Torn API v2
@@ -88,53 +154,45 @@ const BASE_URL = 'https://api.torn.com/v2/torn/elimination';
 export async function fetchElimination(
   params: FetchEliminationParams
 ): Promise<FetchEliminationResult> {
-  const { apiKey } = params;
+  const { apiKey, signal } = params;
 
   if (!apiKey || apiKey.trim() === '') {
     return {
       data: null,
-      error: 'API key is required',
+      error: validationError('API key is required', 'apiKey'),
     };
   }
 
   try {
-    const url = new URL(BASE_URL);
+    const url = new URL(`${tornApiUrl()}/v2/torn/elimination`);
     url.searchParams.append('key', apiKey);
 
-    const response = await fetch(url.toString());
+    await getTornBudget(apiKey).acquire(signal);
+    const response = await loggedFetch(url.toString(), { signal });
 
     if (!response.ok) {
       return {
         data: null,
-        error: `HTTP error! status: ${response.status}`,
+        error: httpError(response.status),
       };
     }
 
     const data = await response.json();
 
     // Check if the response is an error
-    if ('error' in data && data.error) {
-      const errorData = data as TornApiError;
+    const tornError = tornErrorFromBody(data);
+    if (tornError) {
       return {
         data: null,
-        error: `Torn API Error (${errorData.error.code}): ${errorData.error.error}`,
+        error: tornError,
       };
     }
 
-    return {
-      data: data as EliminationResponse,
-      error: null,
-    };
+    return parseResponse(data, eliminationResponseSchema, 'elimination');
   } catch (error) {
-    if (error instanceof Error) {
-      return {
-        data: null,
-        error: `Failed to fetch elimination data: ${error.message}`,
-      };
-    }
     return {
       data: null,
-      error: 'Failed to fetch elimination data: Unknown error',
+      error: networkError('elimination data', error),
     };
   }
 }
@@ -147,55 +205,47 @@ export async function fetchElimination(
 export async function fetchEliminationTeamMembers(
   params: FetchEliminationTeamMembersParams
 ): Promise<FetchEliminationTeamMembersResult> {
-  const { apiKey, teamId, offset = 0 } = params;
+  const { apiKey, teamId, offset = 0, signal } = params;
 
   if (!apiKey || apiKey.trim() === '') {
     return {
       data: null,
-      error: 'API key is required',
+      error: validationError('API key is required', 'apiKey'),
     };
   }
 
   try {
-    const url = new URL(`https://api.torn.com/v2/torn/${teamId}/eliminationteam`);
+    const url = new URL(`${tornApiUrl()}/v2/torn/${teamId}/eliminationteam`);
     url.searchParams.append('limit', '100');
     url.searchParams.append('offset', offset.toString());
     url.searchParams.append('key', apiKey);
 
-    const response = await fetch(url.toString());
+    await getTornBudget(apiKey).acquire(signal);
+    const response = await loggedFetch(url.toString(), { signal });
 
     if (!response.ok) {
       return {
         data: null,
-        error: `HTTP error! status: ${response.status}`,
+        error: httpError(response.status),
       };
     }
 
     const data = await response.json();
 
     // Check if the response is an error
-    if ('error' in data && data.error) {
-      const errorData = data as TornApiError;
+    const tornError = tornErrorFromBody(data);
+    if (tornError) {
       return {
         data: null,
-        error: `Torn API Error (${errorData.error.code}): ${errorData.error.error}`,
+        error: tornError,
       };
     }
 
-    return {
-      data: data as EliminationTeamMembersResponse,
-      error: null,
-    };
+    return parseResponse(data, eliminationTeamMembersResponseSchema, 'elimination team members');
   } catch (error) {
-    if (error instanceof Error) {
-      return {
-        data: null,
-        error: `Failed to fetch elimination team members: ${error.message}`,
-      };
-    }
     return {
       data: null,
-      error: 'Failed to fetch elimination team members: Unknown error',
+      error: networkError('elimination team members', error),
     };
   }
 }
@@ -4,6 +4,7 @@ import {
   clearExpiredCache,
   clearAllCache,
   FFScouterStats,
+  MAX_TARGETS_PER_REQUEST,
 } from './ffScouter';
 
 // Mock fetch globally
@@ -69,13 +70,16 @@ describe('ffScouter API', () => {
       expect(result.error).toBeNull();
       expect(result.data).toEqual(mockResponse);
       expect(global.fetch).toHaveBeenCalledWith(
-        expect.stringContaining('https://ffscouter.com/api/v1/get-stats')
+        expect.stringContaining('https://ffscouter.com/api/v1/get-stats'),
+        { signal: undefined }
       );
       expect(global.fetch).toHaveBeenCalledWith(
-        expect.stringContaining('key=test-api-key')
+        expect.stringContaining('key=test-api-key'),
+        { signal: undefined }
       );
       expect(global.fetch).toHaveBeenCalledWith(
-        expect.stringContaining('targets=267456763')
+        expect.stringContaining('targets=267456763'),
+        { signal: undefined }
       );
     });
 
@@ -110,7 +114,8 @@ describe('ffScouter API', () => {
       expect(result.error).toBeNull();
       expect(result.data).toEqual(multiResponse);
       expect(global.fetch).toHaveBeenCalledWith(
-        expect.stringContaining('targets=123%2C456')
+        expect.stringContaining('targets=123%2C456'),
+        { signal: undefined }
       );
     });
 
@@ -120,7 +125,7 @@ describe('ffScouter API', () => {
         targetIds: [123],
       });
 
-      expect(result.error).toBe('API key is required');
+      expect(result.error?.message).toBe('API key is required');
       expect(result.data).toBeNull();
       expect(global.fetch).not.toHaveBeenCalled();
     });
@@ -131,7 +136,7 @@ describe('ffScouter API', () => {
         targetIds: [],
       });
 
-      expect(result.error).toBe('At least one target ID is required');
+      expect(result.error?.message).toBe('At least one target ID is required');
       expect(result.data).toBeNull();
       expect(global.fetch).not.toHaveBeenCalled();
     });
@@ -147,7 +152,8 @@ describe('ffScouter API', () => {
         targetIds: [123],
       });
 
-      expect(result.error).toBe('HTTP error! status: 404');
+      expect(result.error?.message).toBe('HTTP error! status: 404');
+      expect(result.error?.kind).toBe('http');
       expect(result.data).toBeNull();
     });
 
@@ -161,7 +167,8 @@ describe('ffScouter API', () => {
         targetIds: [123],
       });
 
-      expect(result.error).toBe('Failed to fetch stats: Network error');
+      expect(result.error?.message).toBe('Failed to fetch stats: Network error');
+      expect(result.error?.kind).toBe('network');
       expect(result.data).toBeNull();
     });
 
@@ -176,7 +183,7 @@ describe('ffScouter API', () => {
         targetIds: [123],
       });
 
-      expect(result.error).toBe('Invalid response format: expected an array');
+      expect(result.error?.message).toBe('Unexpected stats response: response should be an array');
       expect(result.data).toBeNull();
     });
   });
@@ -203,7 +210,8 @@ describe('ffScouter API', () => {
       expect(result.error).toBeNull();
       expect(result.data).toEqual(mockResponse);
       expect(global.fetch).toHaveBeenCalledWith(
-        expect.stringContaining('targets=123')
+        expect.stringContaining('targets=123'),
+        { signal: undefined }
       );
     });
   });
@@ -244,10 +252,10 @@ describe('ffScouter API', () => {
       expect(result.data).toEqual(mockResponse);
     });
 
-    it('should use the same cache key regardless of target ID order', async () => {
+    it('should use the cache regardless of target ID order', async () => {
       (global.fetch as jest.Mock).mockResolvedValue({
         ok: true,
-        json: async () => mockResponse,
+        json: async () => [...mockResponse, { ...mockResponse[0], player_id: 456 }],
       });
 
       // Fetch with IDs in one order
@@ -283,7 +291,7 @@ describe('ffScouter API', () => {
       expect(global.fetch).toHaveBeenCalledTimes(1);
 
       // Manually set cache timestamp to 15 days ago
-      const cacheKey = 'ffscouter_cache_123';
+      const cacheKey = 'ffscouter_player_123';
       const cachedData = JSON.parse(localStorageMock.getItem(cacheKey) || '{}');
       cachedData.timestamp = Date.now() - 15 * 24 * 60 * 60 * 1000;
       localStorageMock.setItem(cacheKey, JSON.stringify(cachedData));
@@ -304,7 +312,7 @@ describe('ffScouter API', () => {
       });
 
       // Set corrupted cache data
-      localStorageMock.setItem('ffscouter_cache_123', 'invalid json');
+      localStorageMock.setItem('ffscouter_player_123', 'invalid json');
 
       // Should fetch from API without throwing
       const result = await fetchStats({
@@ -316,66 +324,102 @@ describe('ffScouter API', () => {
       expect(result.data).toEqual(mockResponse);
       expect(global.fetch).toHaveBeenCalledTimes(1);
     });
+
+    it('should only request players that are not cached', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: true, json: async () => mockResponse })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => [{ ...mockResponse[0], player_id: 456 }],
+        });
+
+      await fetchStats({ apiKey: 'test-api-key', targetIds: [123] });
+      const result = await fetchStats({ apiKey: 'test-api-key', targetIds: [456, 123] });
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(global.fetch).toHaveBeenLastCalledWith(
+        expect.stringMatching(/targets=456$/),
+        { signal: undefined }
+      );
+      expect(result.data?.map((stats) => stats.player_id)).toEqual([456, 123]);
+    });
+
+    it('should split large requests into chunks', async () => {
+      (global.fetch as jest.Mock).mockImplementation(async (url: string) => ({
+        ok: true,
+        json: async () =>
+          (new URL(url).searchParams.get('targets') ?? '')
+            .split(',')
+            .map((id) => ({ ...mockResponse[0], player_id: Number(id) })),
+      }));
+      const targetIds = Array.from({ length: MAX_TARGETS_PER_REQUEST + 50 }, (_, i) => i + 1);
+
+      const result = await fetchStats({ apiKey: 'test-api-key', targetIds });
+
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(result.error).toBeNull();
+      expect(result.data).toHaveLength(targetIds.length);
+    });
   });
 
   describe('clearExpiredCache', () => {
-    it('should remove expired cache entries', () => {
+    it('should remove expired cache entries', async () => {
       const now = Date.now();
       const expired = now - 15 * 24 * 60 * 60 * 1000;
       const valid = now - 7 * 24 * 60 * 60 * 1000;
 
       localStorageMock.setItem(
-        'ffscouter_cache_123',
-        JSON.stringify({ data: [], timestamp: expired })
+        'ffscouter_player_123',
+        JSON.stringify({ value: {}, timestamp: expired, namespace: 'ffscouter' })
       );
       localStorageMock.setItem(
-        'ffscouter_cache_456',
-        JSON.stringify({ data: [], timestamp: valid })
+        'ffscouter_player_456',
+        JSON.stringify({ value: {}, timestamp: valid, namespace: 'ffscouter' })
       );
       localStorageMock.setItem('other_key', 'other value');
 
-      clearExpiredCache();
+      await clearExpiredCache();
 
-      expect(localStorageMock.getItem('ffscouter_cache_123')).toBeNull();
-      expect(localStorageMock.getItem('ffscouter_cache_456')).not.toBeNull();
+      expect(localStorageMock.getItem('ffscouter_player_123')).toBeNull();
+      expect(localStorageMock.getItem('ffscouter_player_456')).not.toBeNull();
       expect(localStorageMock.getItem('other_key')).not.toBeNull();
     });
 
-    it('should remove corrupted cache entries', () => {
-      localStorageMock.setItem('ffscouter_cache_123', 'invalid json');
+    it('should remove corrupted cache entries', async () => {
+      localStorageMock.setItem('ffscouter_player_123', 'invalid json');
       localStorageMock.setItem(
-        'ffscouter_cache_456',
-        JSON.stringify({ data: [], timestamp: Date.now() })
+        'ffscouter_player_456',
+        JSON.stringify({ value: {}, timestamp: Date.now(), namespace: 'ffscouter' })
       );
 
-      clearExpiredCache();
+      await clearExpiredCache();
 
-      expect(localStorageMock.getItem('ffscouter_cache_123')).toBeNull();
-      expect(localStorageMock.getItem('ffscouter_cache_456')).not.toBeNull();
+      expect(localStorageMock.getItem('ffscouter_player_123')).toBeNull();
+      expect(localStorageMock.getItem('ffscouter_player_456')).not.toBeNull();
     });
   });
 
   describe('clearAllCache', () => {
-    it('should remove all FFScouter cache entries', () => {
+    it('should remove all FFScouter cache entries', async () => {
       localStorageMock.setItem(
-        'ffscouter_cache_123',
-        JSON.stringify({ data: [], timestamp: Date.now() })
+        'ffscouter_player_123',
+        JSON.stringify({ value: {}, timestamp: Date.now(), namespace: 'ffscouter' })
       );
       localStorageMock.setItem(
-        'ffscouter_cache_456',
-        JSON.stringify({ data: [], timestamp: Date.now() })
+        'ffscouter_player_456',
+        JSON.stringify({ value: {}, timestamp: Date.now(), namespace: 'ffscouter' })
       );
       localStorageMock.setItem('other_key', 'other value');
 
-      clearAllCache();
+      await clearAllCache();
 
-      expect(localStorageMock.getItem('ffscouter_cache_123')).toBeNull();
-      expect(localStorageMock.getItem('ffscouter_cache_456')).toBeNull();
+      expect(localStorageMock.getItem('ffscouter_player_123')).toBeNull();
+      expect(localStorageMock.getItem('ffscouter_player_456')).toBeNull();
       expect(localStorageMock.getItem('other_key')).not.toBeNull();
     });
 
-    it('should not throw on empty localStorage', () => {
-      expect(() => clearAllCache()).not.toThrow();
+    it('should not throw on empty localStorage', async () => {
+      await expect(clearAllCache()).resolves.toBeUndefined();
     });
   });
 });
@@ -1,228 +1,214 @@
 /**
  * FFScouter API Service
  * Provides functions for fetching battle stats from FFScouter API
- * Includes localStorage caching with 14-day TTL
+ * Includes persistent per-player caching with 14-day TTL
  */
 
+import { ffScouterApiUrl } from '../helpers/apiConfig';
+import { loggedFetch } from '../helpers/requestLog';
+import { Cache } from '../helpers/cache';
+import { RateLimiter } from '../helpers/rateLimiter';
+import { purgeCacheNamespace, purgeExpiredCache, registerCacheNamespace } from '../helpers/cacheRegistry';
+import {
+  TornError,
+  httpError,
+  networkError,
+  validationError,
+} from '../helpers/tornError';
+import { array, nullable, number, object, parseResponse, string } from '../helpers/schema';
+
 // Type definitions for the FFScouter API response
 export interface FFScouterStats {
   player_id: number;
-  fair_fight: number;
-  bs_estimate: number;
-  bs_estimate_human: string;
-  last_updated: number;
+  /** The stats below are null for players FFScouter has no estimate for. */
+  fair_fight: number | null;
+  bs_estimate: number | null;
+  bs_estimate_human: string | null;
+  last_updated: number | null;
 }
 
 export interface FetchStatsParams {
   apiKey: string;
   targetIds: number[];
+  /** Cancels the request; the result is then an 'aborted' error. */
+  signal?: AbortSignal;
 }
 
 export interface FetchStatsResult {
   data: FFScouterStats[] | null;
-  error: string | null;
-}
-
-interface CachedData {
-  data: FFScouterStats[];
-  timestamp: number;
+  error: TornError | null;
 }
 
-const BASE_URL = 'https://ffscouter.com/api/v1/get-stats';
-const CACHE_PREFIX = 'ffscouter_cache_';
+const CACHE_PREFIX = 'ffscouter_player_';
+const CACHE_NAMESPACE = 'ffscouter';
 const CACHE_TTL_MS = 14 * 24 * 60 * 60 * 1000; // 14 days in milliseconds
+/** Most targets FFScouter accepts in one get-stats request. */
+export const MAX_TARGETS_PER_REQUEST = 200;
+
+registerCacheNamespace({ namespace: CACHE_NAMESPACE, label: 'FFScouter stats', maxAgeMs: CACHE_TTL_MS });
+
+/** FFScouter has its own rate limit, separate from the Torn key budget. */
+const ffScouterRateLimiter = new RateLimiter({ cooldownMs: 500 });
+
+const statsResponseSchema = array(
+  object<FFScouterStats>({
+    player_id: number(),
+    fair_fight: nullable(number()),
+    bs_estimate: nullable(number()),
+    bs_estimate_human: nullable(string()),
+    last_updated: nullable(number()),
+  })
+);
 
 /**
- * Generates a cache key for the given target IDs
- * @param targetIds - Array of target player IDs
- * @returns Cache key string
+ * Cache entry for one player's stats
+ * @param playerId - Target player ID
  */
-function getCacheKey(targetIds: number[]): string {
-  // Sort IDs to ensure consistent cache keys regardless of order
-  const sortedIds = [...targetIds].sort((a, b) => a - b);
-  return `${CACHE_PREFIX}${sortedIds.join('_')}`;
+function getPlayerCache(playerId: number): Cache<FFScouterStats> {
+  return new Cache<FFScouterStats>({
+    storageKey: `${CACHE_PREFIX}${playerId}`,
+    maxStalenessMs: CACHE_TTL_MS,
+    namespace: CACHE_NAMESPACE,
+  });
 }
 
 /**
- * Retrieves cached data from localStorage if available and not expired
- * @param targetIds - Array of target player IDs
- * @returns Cached data or null if not found/expired
+ * Requests stats for one chunk of at most MAX_TARGETS_PER_REQUEST IDs through
+ * the FFScouter rate limiter
  */
-function getCachedData(targetIds: number[]): FFScouterStats[] | null {
-  try {
-    const cacheKey = getCacheKey(targetIds);
-    const cached = localStorage.getItem(cacheKey);
-    
-    if (!cached) {
-      return null;
-    }
+async function fetchStatsChunk(
+  apiKey: string,
+  targetIds: number[],
+  signal?: AbortSignal
+): Promise<FetchStatsResult> {
+  const request = async (): Promise<FetchStatsResult> => {
+    try {
+      const url = new URL(`${ffScouterApiUrl()}/api/v1/get-stats`);
+      url.searchParams.append('key', apiKey);
+      url.searchParams.append('targets', targetIds.join(','));
+
+      const response = await loggedFetch(url.toString(), { signal });
+
+      if (!response.ok) {
+        return {
+          data: null,
+          error: httpError(response.status),
+        };
+      }
 
-    const cachedData: CachedData = JSON.parse(cached);
-    const now = Date.now();
-    
-    // Check if cache has expired
-    if (now - cachedData.timestamp > CACHE_TTL_MS) {
-      localStorage.removeItem(cacheKey);
-      return null;
+      return parseResponse(await response.json(), statsResponseSchema, 'stats');
+    } catch (error) {
+      return {
+        data: null,
+        error: networkError('stats', error),
+      };
     }
+  };
 
-    return cachedData.data;
-  } catch (error) {
-    // If there's any error reading/parsing cache, return null
-    console.error('Error reading cache:', error);
-    return null;
-  }
-}
-
-/**
- * Stores data in localStorage cache
- * @param targetIds - Array of target player IDs
- * @param data - Data to cache
- */
-function setCachedData(targetIds: number[], data: FFScouterStats[]): void {
   try {
-    const cacheKey = getCacheKey(targetIds);
-    const cachedData: CachedData = {
-      data,
-      timestamp: Date.now(),
-    };
-    localStorage.setItem(cacheKey, JSON.stringify(cachedData));
+    return await ffScouterRateLimiter.run(request, { signal });
   } catch (error) {
-    // If storage fails (e.g., quota exceeded), just log and continue
-    console.error('Error writing to cache:', error);
+    // Only an abort while still queued ends up here
+    return {
+      data: null,
+      error: networkError('stats', error),
+    };
   }
 }
 
 /**
- * Clears expired cache entries from localStorage
+ * Clears expired FFScouter cache entries
  */
-export function clearExpiredCache(): void {
+export async function clearExpiredCache(): Promise<void> {
   try {
-    const now = Date.now();
-    const keysToRemove: string[] = [];
-
-    // Find all cache keys
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith(CACHE_PREFIX)) {
-        const cached = localStorage.getItem(key);
-        if (cached) {
-          try {
-            const cachedData: CachedData = JSON.parse(cached);
-            if (now - cachedData.timestamp > CACHE_TTL_MS) {
-              keysToRemove.push(key);
-            }
-          } catch {
-            // If we can't parse it, remove it
-            keysToRemove.push(key);
-          }
-        }
-      }
-    }
-
-    // Remove expired entries
-    keysToRemove.forEach((key) => localStorage.removeItem(key));
+    await purgeExpiredCache(CACHE_NAMESPACE);
   } catch (error) {
     console.error('Error clearing expired cache:', error);
   }
 }
 
 /**
- * Clears all FFScouter cache entries from localStorage
+ * Clears all FFScouter cache entries
  */
-export function clearAllCache(): void {
+export async function clearAllCache(): Promise<void> {
   try {
-    const keysToRemove: string[] = [];
-
-    for (let i = 0; i < localStorage.length; i++) {
-      const key = localStorage.key(i);
-      if (key && key.startsWith(CACHE_PREFIX)) {
-        keysToRemove.push(key);
-      }
-    }
-
-    keysToRemove.forEach((key) => localStorage.removeItem(key));
+    await purgeCacheNamespace(CACHE_NAMESPACE);
   } catch (error) {
     console.error('Error clearing all cache:', error);
   }
 }
 
 /**
- * Fetches stats from FFScouter API with caching
+ * Fetches stats from FFScouter API with caching.
+ * Stats are cached per player, so only IDs without a fresh cache entry are
+ * requested, split into chunks of MAX_TARGETS_PER_REQUEST. Chunks that succeed
+ * are cached even when another chunk fails; the call then returns the error,
+ * and calling again only requests what is still missing.
  * @param params - Parameters including API key and target IDs
- * @returns Promise containing the stats data or error
+ * @returns Promise containing the stats data (in the order of targetIds) or error
  */
 export async function fetchStats(
   params: FetchStatsParams
 ): Promise<FetchStatsResult> {
-  const { apiKey, targetIds } = params;
+  const { apiKey, targetIds, signal } = params;
 
   if (!apiKey || apiKey.trim() === '') {
     return {
       data: null,
-      error: 'API key is required',
+      error: validationError('API key is required', 'apiKey'),
     };
   }
 
   if (!targetIds || targetIds.length === 0) {
     return {
       data: null,
-      error: 'At least one target ID is required',
-    };
-  }
-
-  // Check cache first
-  const cachedData = getCachedData(targetIds);
-  if (cachedData) {
-    return {
-      data: cachedData,
-      error: null,
+      error: validationError('At least one target ID is required', 'targetIds'),
     };
   }
 
-  try {
-    const url = new URL(BASE_URL);
-    url.searchParams.append('key', apiKey);
-    url.searchParams.append('targets', targetIds.join(','));
-
-    const response = await fetch(url.toString());
+  const uniqueIds = Array.from(new Set(targetIds));
 
-    if (!response.ok) {
-      return {
-        data: null,
-        error: `HTTP error! status: ${response.status}`,
-      };
+  // Check cache first
+  const stats = new Map<number, FFScouterStats>();
+  const missingIds: number[] = [];
+  for (const id of uniqueIds) {
+    const cached = await getPlayerCache(id).get();
+    if (cached) {
+      stats.set(id, cached);
+    } else {
+      missingIds.push(id);
     }
+  }
 
-    const data: FFScouterStats[] = await response.json();
+  const chunks: number[][] = [];
+  for (let i = 0; i < missingIds.length; i += MAX_TARGETS_PER_REQUEST) {
+    chunks.push(missingIds.slice(i, i + MAX_TARGETS_PER_REQUEST));
+  }
+  const results = await Promise.all(chunks.map((chunk) => fetchStatsChunk(apiKey, chunk, signal)));
 
-    // Validate response is an array
-    if (!Array.isArray(data)) {
-      return {
-        data: null,
-        error: 'Invalid response format: expected an array',
-      };
+  let error: TornError | null = null;
+  for (const result of results) {
+    if (!result.data) {
+      error = error ?? result.error;
+      continue;
     }
-
     // Cache the successful response
-    setCachedData(targetIds, data);
-
-    return {
-      data,
-      error: null,
-    };
-  } catch (error) {
-    if (error instanceof Error) {
-      return {
-        data: null,
-        error: `Failed to fetch stats: ${error.message}`,
-      };
+    for (const playerStats of result.data) {
+      stats.set(playerStats.player_id, playerStats);
+      await getPlayerCache(playerStats.player_id).set(playerStats);
     }
-    return {
-      data: null,
-      error: 'Failed to fetch stats: Unknown error',
-    };
   }
+  if (error) {
+    return { data: null, error };
+  }
+
+  return {
+    data: uniqueIds.flatMap((id) => {
+      const playerStats = stats.get(id);
+      return playerStats ? [playerStats] : [];
+    }),
+    error: null,
+  };
 }
 
 /**
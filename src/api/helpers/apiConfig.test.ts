@@ -0,0 +1,82 @@
+import { createHandler } from '../../../mock-server/routes';
+import { fetchAllBounties } from '../bounty/tornBounties';
+import { fetchCompaniesByType, fetchCompanyDetail } from '../company/companies';
+import { fetchCompanyTypes } from '../company/companyTypes';
+import { fetchStats } from '../ffscouter/ffScouter';
+import { fetchProperties, fetchRentals } from '../properties/properties';
+import { fetchUserProfileV1 } from '../user/tornUserProfileV1';
+import { fetchUserPersonalStats } from '../user/userPersonalStats';
+import { fetchWorkStats } from '../user/workStats';
+import { getV1FallbackFetchers } from './apiGeneration';
+import { TORN_API_URL, ffScouterApiUrl, getMockServerUrl, setMockServerUrl, tornApiUrl } from './apiConfig';
+
+describe('apiConfig', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should use the live APIs until a mock server is set', () => {
+    expect(getMockServerUrl()).toBeNull();
+    expect(tornApiUrl()).toBe(TORN_API_URL);
+
+    setMockServerUrl('http://localhost:4010/');
+    expect(tornApiUrl()).toBe('http://localhost:4010/torn');
+    expect(ffScouterApiUrl()).toBe('http://localhost:4010/ffscouter');
+
+    setMockServerUrl(null);
+    expect(tornApiUrl()).toBe(TORN_API_URL);
+  });
+});
+
+describe('mock server fixtures', () => {
+  const handle = createHandler({ maxLimit: 100, rateLimit: 1_000, tornError: null, httpStatus: null });
+
+  beforeEach(() => {
+    localStorage.clear();
+    setMockServerUrl('http://localhost:4010');
+    global.fetch = jest.fn(async (url: string) => {
+      const { status, body } = handle(url);
+      return { ok: status < 400, status, json: async () => body };
+    }) as jest.Mock;
+  });
+
+  it('should serve paginated lists the fetchers accept', async () => {
+    const bounties = await fetchAllBounties('mock-key', 100);
+    const rentals = await fetchRentals('mock-key', 13);
+
+    expect(bounties.error).toBeNull();
+    expect(bounties.data?.bounties.length).toBeGreaterThan(100);
+    expect(rentals.error).toBeNull();
+    expect(rentals.data?.length).toBeGreaterThan(100);
+  });
+
+  it('should serve profiles and stats that pass validation', async () => {
+    const profile = await fetchUserProfileV1({ apiKey: 'mock-key', userId: 3000002 });
+    const stats = await fetchStats({ apiKey: 'mock-key', targetIds: [3000001, 3000002] });
+
+    expect(profile.error).toBeNull();
+    expect(profile.data?.player_id).toBe(3000002);
+    expect(stats.error).toBeNull();
+    expect(stats.data).toHaveLength(2);
+  });
+
+  it('should serve the v2 user and company routes without falling back to v1', async () => {
+    const results = [
+      await fetchCompanyTypes('mock-key'),
+      await fetchProperties('mock-key'),
+      await fetchCompaniesByType('mock-key', '1'),
+      await fetchCompanyDetail('mock-key', 70001),
+      await fetchWorkStats('mock-key'),
+      await fetchUserPersonalStats('mock-key', 3000002),
+    ];
+
+    results.forEach((result) => expect(result.error).toBeNull());
+    expect(getV1FallbackFetchers()).toEqual([]);
+  });
+
+  it('should answer error-<code> keys with that Torn error', async () => {
+    const result = await fetchUserProfileV1({ apiKey: 'error-2', userId: 1 });
+
+    expect(result.error).toEqual(expect.objectContaining({ kind: 'torn', code: 2 }));
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Base URLs the fetchers call. Normally the live Torn and FFScouter APIs; when a
+ * mock server URL is set (Settings → "Use local mock server", see
+ * mock-server/README.md) every request goes to that server instead, which serves
+ * Torn under /torn and FFScouter under /ffscouter.
+ *
+ * The setting is kept in localStorage so it survives reloads.
+ */
+
+export const TORN_API_URL = 'https://api.torn.com';
+export const FFSCOUTER_API_URL = 'https://ffscouter.com';
+export const DEFAULT_MOCK_SERVER_URL = 'http://localhost:4010';
+
+const STORAGE_KEY = 'api-mock-server-url';
+
+const listeners = new Set<() => void>();
+
+/** The mock server URL in use, or null when calling the live APIs. */
+export function getMockServerUrl(): string | null {
+  try {
+    return localStorage.getItem(STORAGE_KEY) || null;
+  } catch {
+    return null;
+  }
+}
+
+/** Points all API calls at a mock server, or back at the live APIs with null. */
+export function setMockServerUrl(url: string | null): void {
+  try {
+    if (url) {
+      localStorage.setItem(STORAGE_KEY, url.replace(/\/+$/, ''));
+    } else {
+      localStorage.removeItem(STORAGE_KEY);
+    }
+  } catch (error) {
+    console.error('Error saving mock server URL:', error);
+  }
+  listeners.forEach((listener) => listener());
+}
+
+/** Listen for mock server changes. Returns an unsubscribe function. */
+export function subscribeApiConfig(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Base URL for Torn API calls, without a trailing slash (e.g. `${tornApiUrl()}/v2/torn/bounties`). */
+export function tornApiUrl(): string {
+  const mock = getMockServerUrl();
+  return mock ? `${mock}/torn` : TORN_API_URL;
+}
+
+/** Base URL for FFScouter API calls, without a trailing slash. */
+export function ffScouterApiUrl(): string {
+  const mock = getMockServerUrl();
+  return mock ? `${mock}/ffscouter` : FFSCOUTER_API_URL;
+}
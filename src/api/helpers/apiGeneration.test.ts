@@ -0,0 +1,71 @@
+import { setMockServerUrl } from './apiConfig';
+import { getV1FallbackFetchers, isV2Unavailable, resetV1Fallbacks, withV1Fallback } from './apiGeneration';
+import { httpError, invalidResponseError, networkError, tornApiError, validationError } from './tornError';
+
+describe('isV2Unavailable', () => {
+  it('should treat missing routes, wrong selections and unreadable responses as v2 unavailable', () => {
+    expect(isV2Unavailable(httpError(404))).toBe(true);
+    expect(isV2Unavailable(tornApiError(4, 'Wrong fields'))).toBe(true);
+    expect(isV2Unavailable(tornApiError(23, 'Deprecated'))).toBe(true);
+    expect(isV2Unavailable(invalidResponseError('Unexpected user profile response: profile should be an object'))).toBe(true);
+  });
+
+  it('should leave key, rate limit, server and input errors alone', () => {
+    expect(isV2Unavailable(null)).toBe(false);
+    expect(isV2Unavailable(tornApiError(2, 'Incorrect key'))).toBe(false);
+    expect(isV2Unavailable(tornApiError(5, 'Too many requests'))).toBe(false);
+    expect(isV2Unavailable(httpError(500))).toBe(false);
+    expect(isV2Unavailable(networkError('profile', new Error('offline')))).toBe(false);
+    expect(isV2Unavailable(validationError('API key is required', 'apiKey'))).toBe(false);
+    expect(isV2Unavailable(validationError('Unexpected input'))).toBe(false);
+  });
+});
+
+describe('withV1Fallback', () => {
+  beforeEach(() => {
+    resetV1Fallbacks();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should return the v2 result without calling v1', async () => {
+    const v1 = jest.fn();
+    const result = await withV1Fallback('test', async () => ({ data: 'v2', error: null }), v1);
+
+    expect(result).toEqual({ data: 'v2', error: null });
+    expect(v1).not.toHaveBeenCalled();
+  });
+
+  it('should keep using v1 for the fetcher once v2 is unavailable', async () => {
+    const v2 = jest.fn(async () => ({ data: null, error: httpError(404) }));
+    const v1 = jest.fn(async () => ({ data: 'v1', error: null }));
+
+    expect((await withV1Fallback('test', v2, v1)).data).toBe('v1');
+    expect((await withV1Fallback('test', v2, v1)).data).toBe('v1');
+    expect(v2).toHaveBeenCalledTimes(1);
+    expect(v1).toHaveBeenCalledTimes(2);
+    expect(getV1FallbackFetchers()).toEqual(['test']);
+  });
+
+  it('should pass other v2 errors through', async () => {
+    const v1 = jest.fn();
+    const result = await withV1Fallback('test', async () => ({ data: null, error: tornApiError(2, 'Incorrect key') }), v1);
+
+    expect(result.error?.kind).toBe('torn');
+    expect(v1).not.toHaveBeenCalled();
+    expect(getV1FallbackFetchers()).toEqual([]);
+  });
+
+  it('should try v2 again after switching servers', async () => {
+    await withV1Fallback('test', async () => ({ data: null, error: httpError(404) }), async () => ({ data: 'v1', error: null }));
+    expect(getV1FallbackFetchers()).toEqual(['test']);
+
+    setMockServerUrl('http://localhost:4010');
+    setMockServerUrl(null);
+
+    expect(getV1FallbackFetchers()).toEqual([]);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Torn API v2 first, v1 as the fallback.
+ *
+ * Fetchers call withV1Fallback with a v2 and a v1 loader that return the same
+ * shape. When the v2 endpoint turns out not to be there for that fetcher (404,
+ * "wrong type/fields", a deprecated or removed selection, or a response we
+ * can't read), the fetcher switches to v1 for the rest of the session. Key,
+ * rate limit and network errors are returned as they are: v1 would fail the
+ * same way.
+ */
+
+import { subscribeApiConfig } from './apiConfig';
+import { DataOrError } from './httpWrapper';
+import { TornError } from './tornError';
+
+export type ApiGeneration = 'v1' | 'v2';
+
+/** Torn error codes: 3 wrong type, 4 wrong fields, 22 selection no longer available, 23 deprecated. */
+const V2_UNAVAILABLE_CODES = [3, 4, 22, 23];
+
+/** Fetchers that have fallen back to v1 this session. */
+const v1Fetchers = new Set<string>();
+const listeners = new Set<() => void>();
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/** True when the error means v2 can't serve this request, so v1 is worth trying. */
+export function isV2Unavailable(error: TornError | null): boolean {
+  if (error === null) return false;
+  switch (error.kind) {
+    case 'http':
+      return error.status === 404;
+    case 'torn':
+      return V2_UNAVAILABLE_CODES.includes(error.code);
+    case 'validation':
+      // Bad input fails the same way on v1; only a response we can't read counts
+      return error.invalidResponse === true;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Loads through v2 unless this fetcher already fell back to v1 this session.
+ * @param fetcher - Name of the calling fetcher, e.g. 'company-types'
+ */
+export async function withV1Fallback<T>(
+  fetcher: string,
+  v2: () => Promise<DataOrError<T>>,
+  v1: () => Promise<DataOrError<T>>
+): Promise<DataOrError<T>> {
+  if (!v1Fetchers.has(fetcher)) {
+    const result = await v2();
+    if (!isV2Unavailable(result.error)) return result;
+    console.warn(`Torn API v2 unavailable for ${fetcher}, using v1: ${result.error?.message}`);
+    v1Fetchers.add(fetcher);
+    notify();
+  }
+  return v1();
+}
+
+/** Fetchers using v1 this session, for the debug page. */
+export function getV1FallbackFetchers(): string[] {
+  return Array.from(v1Fetchers);
+}
+
+/** Lets every fetcher try v2 again. */
+export function resetV1Fallbacks(): void {
+  v1Fetchers.clear();
+  notify();
+}
+
+/** Listen for fetchers falling back to v1. Returns an unsubscribe function. */
+export function subscribeV1Fallbacks(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Another server (live or mock) may support v2 where the previous one didn't
+subscribeApiConfig(resetV1Fallbacks);
@@ -0,0 +1,41 @@
+/**
+ * In-memory record of API keys the server has rejected (wrong key, paused,
+ * disabled, ...). Retry policies flag a key so callers and the UI can stop
+ * using it until the user changes it. Nothing is persisted: flags only live
+ * for the current page session.
+ */
+
+export interface ApiKeyFlag {
+  /** Torn error code that caused the flag. */
+  code: number;
+  message: string;
+  flaggedAt: number;
+}
+
+const flags = new Map<string, ApiKeyFlag>();
+const listeners = new Set<() => void>();
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+export function flagApiKey(apiKey: string, code: number, message: string): void {
+  flags.set(apiKey, { code, message, flaggedAt: Date.now() });
+  notify();
+}
+
+export function getApiKeyFlag(apiKey: string): ApiKeyFlag | null {
+  return flags.get(apiKey) ?? null;
+}
+
+export function clearApiKeyFlag(apiKey: string): void {
+  if (flags.delete(apiKey)) notify();
+}
+
+/** Listen for flag changes. Returns an unsubscribe function. */
+export function subscribeApiKeyFlags(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
@@ -1,42 +1,71 @@
 /**
- * localStorage-backed cache for API responses (or any JSON-serializable value).
+ * Persistent cache for API responses (or any JSON-serializable value).
  * Successful responses are stored with a timestamp; entries older than
  * maxStalenessMs are treated as stale. Use around retry + rate limiter so
  * cached responses are returned without going through the queue.
+ *
+ * Entries go to the shared CacheStore (IndexedDB, or localStorage where
+ * IndexedDB is missing), which evicts least recently used entries when full.
  */
 
+import { getCacheStore } from './cacheStore';
+import { TornError } from './tornError';
+
 export interface CacheOptions {
-  /** localStorage key for this cache. */
+  /** Storage key for this cache entry. */
   storageKey: string;
   /** Max age in ms. Entries older than this are considered stale and not returned. */
   maxStalenessMs: number;
+  /**
+   * Group this entry belongs to, e.g. 'user-profile'. Used to list and clear
+   * related entries together. Defaults to the storage key.
+   */
+  namespace?: string;
 }
 
-interface CacheEntry<T> {
+/** A cached value with its age, as returned by Cache.getEntry(). */
+export interface CachedEntry<T> {
   value: T;
   timestamp: number;
+  /** True when the entry is older than maxStalenessMs. */
+  stale: boolean;
 }
 
 export class Cache<T> {
-  private readonly storageKey: string;
+  readonly storageKey: string;
   private readonly maxStalenessMs: number;
+  private readonly namespace: string;
 
   constructor(options: CacheOptions) {
     this.storageKey = options.storageKey;
     this.maxStalenessMs = options.maxStalenessMs;
+    this.namespace = options.namespace ?? options.storageKey;
   }
 
   /**
    * Returns the cached value if present and not stale, otherwise null.
    */
-  get(): T | null {
+  async get(): Promise<T | null> {
+    const entry = await this.getEntry();
+    return entry && !entry.stale ? entry.value : null;
+  }
+
+  /**
+   * Returns the cached value even when stale, flagged as such, or null when
+   * nothing is stored. Used for stale-while-revalidate.
+   */
+  async getEntry(): Promise<CachedEntry<T> | null> {
     try {
-      const raw = localStorage.getItem(this.storageKey);
-      if (!raw) return null;
-      const entry: CacheEntry<T> = JSON.parse(raw);
+      const store = await getCacheStore();
+      const entry = await store.get(this.storageKey);
+      // Only non-null data is ever stored; null means an unreadable entry
+      if (!entry || entry.value == null) return null;
       const now = Date.now();
-      if (now - entry.timestamp > this.maxStalenessMs) return null;
-      return entry.value;
+      return {
+        value: entry.value as T,
+        timestamp: entry.timestamp,
+        stale: now - entry.timestamp > this.maxStalenessMs,
+      };
     } catch {
       return null;
     }
@@ -45,30 +74,40 @@ export class Cache<T> {
   /**
    * Stores a value with the current timestamp. Call after a successful API response.
    */
-  set(value: T): void {
+  async set(value: T): Promise<void> {
     try {
-      const entry: CacheEntry<T> = { value, timestamp: Date.now() };
-      localStorage.setItem(this.storageKey, JSON.stringify(entry));
+      const store = await getCacheStore();
+      await store.put(this.storageKey, this.namespace, value);
     } catch (error) {
       console.error(`Error writing cache "${this.storageKey}":`, error);
     }
   }
 
+  /** Removes the entry, e.g. when it is known to be outdated. */
+  async delete(): Promise<void> {
+    try {
+      const store = await getCacheStore();
+      await store.remove([this.storageKey]);
+    } catch (error) {
+      console.error(`Error deleting cache "${this.storageKey}":`, error);
+    }
+  }
+
   /**
    * Returns cached value if fresh; otherwise runs the loader. On successful
    * load, stores the result. Use for result types like
-   * { data: T | null, error: string | null }: only stores when data is non-null.
+   * { data: T | null, error: TornError | null }: only stores when data is non-null.
    */
   async getOrLoad(
-    load: () => Promise<{ data: T | null; error: string | null }>
-  ): Promise<{ data: T | null; error: string | null }> {
-    const cached = this.get();
+    load: () => Promise<{ data: T | null; error: TornError | null }>
+  ): Promise<{ data: T | null; error: TornError | null }> {
+    const cached = await this.get();
     if (cached !== null) {
       return { data: cached, error: null };
     }
     const result = await load();
     if (result.data !== null) {
-      this.set(result.data);
+      await this.set(result.data);
     }
     return result;
   }
@@ -0,0 +1,56 @@
+import { getCacheStats, purgeAllCache, purgeExpiredCache, registerCacheNamespace } from './cacheRegistry';
+import { getCacheStore } from './cacheStore';
+
+describe('cacheRegistry', () => {
+  const DAY = 86_400_000;
+
+  beforeEach(() => {
+    localStorage.clear();
+    registerCacheNamespace({ namespace: 'test-profiles', label: 'Test profiles', maxAgeMs: DAY });
+  });
+
+  it('should report entries, size and age range per namespace', async () => {
+    const store = await getCacheStore();
+    const now = Date.now();
+    await store.put('profile-1', 'test-profiles', { name: 'Alice' }, now - 2 * DAY);
+    await store.put('profile-2', 'test-profiles', { name: 'Bob' }, now - 1_000);
+    await store.put('old-format', 'unregistered', 'value', now);
+
+    const stats = await getCacheStats();
+
+    expect(stats.find((item) => item.namespace === 'test-profiles')).toEqual(
+      expect.objectContaining({
+        label: 'Test profiles',
+        entries: 2,
+        expired: 1,
+        oldest: now - 2 * DAY,
+        newest: now - 1_000,
+      })
+    );
+    expect(stats.find((item) => item.namespace === 'unregistered')).toEqual(
+      expect.objectContaining({ label: 'unregistered', maxAgeMs: null, entries: 1, expired: 0 })
+    );
+  });
+
+  it('should list registered namespaces without entries', async () => {
+    const stats = await getCacheStats();
+
+    expect(stats.find((item) => item.namespace === 'test-profiles')).toEqual(
+      expect.objectContaining({ entries: 0, bytes: 0, oldest: null, newest: null })
+    );
+  });
+
+  it('should purge only expired entries of registered namespaces', async () => {
+    const store = await getCacheStore();
+    const now = Date.now();
+    await store.put('profile-1', 'test-profiles', 'old', now - 2 * DAY);
+    await store.put('profile-2', 'test-profiles', 'new', now);
+    await store.put('other', 'unregistered', 'old', now - 2 * DAY);
+
+    expect(await purgeExpiredCache()).toBe(1);
+    expect(await store.get('profile-2')).not.toBeNull();
+    expect(await store.get('other')).not.toBeNull();
+
+    expect(await purgeAllCache()).toBe(2);
+  });
+});
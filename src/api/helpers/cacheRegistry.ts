@@ -0,0 +1,116 @@
+/**
+ * Registry of the cache namespaces the fetchers write to, so the Settings page
+ * can list them and purge them without knowing about each fetcher. Each module
+ * registers its namespace once at load time, with a label and how long its
+ * entries stay usable.
+ *
+ * Namespaces found in the store but never registered (e.g. written by an older
+ * version of the app) are still listed and can be purged; they just have no
+ * label or max age.
+ */
+
+import { getCacheStore } from './cacheStore';
+
+export interface CacheNamespaceInfo {
+  /** Namespace passed to Cache, e.g. 'user-profile'. */
+  namespace: string;
+  /** Human readable name for the Settings page. */
+  label: string;
+  /** Entries older than this are no longer used by any caller and count as expired. */
+  maxAgeMs: number;
+}
+
+export interface CacheNamespaceStats {
+  namespace: string;
+  label: string;
+  /** null for namespaces that are in the store but not registered. */
+  maxAgeMs: number | null;
+  entries: number;
+  /** Approximate size in bytes, as tracked by the cache store. */
+  bytes: number;
+  /** Entries older than maxAgeMs; always 0 without a maxAgeMs. */
+  expired: number;
+  /** Fetch time of the oldest and newest entry, null when empty. */
+  oldest: number | null;
+  newest: number | null;
+}
+
+const registry = new Map<string, CacheNamespaceInfo>();
+
+/**
+ * Registers a cache namespace and returns it, so the module can use it for its
+ * Cache options. Registering the same namespace again replaces it.
+ */
+export function registerCacheNamespace(info: CacheNamespaceInfo): CacheNamespaceInfo {
+  registry.set(info.namespace, info);
+  return info;
+}
+
+/** Registered namespaces, in registration order. */
+export function getCacheNamespaces(): CacheNamespaceInfo[] {
+  return Array.from(registry.values());
+}
+
+/** Entry count, size and age range per namespace: registered ones first, then unknown ones found in the store. */
+export async function getCacheStats(): Promise<CacheNamespaceStats[]> {
+  const store = await getCacheStore();
+  const entries = await store.entries();
+  const now = Date.now();
+
+  const stats = new Map<string, CacheNamespaceStats>();
+  const statsFor = (namespace: string): CacheNamespaceStats => {
+    let item = stats.get(namespace);
+    if (!item) {
+      const info = registry.get(namespace);
+      item = {
+        namespace,
+        label: info?.label ?? namespace,
+        maxAgeMs: info?.maxAgeMs ?? null,
+        entries: 0,
+        bytes: 0,
+        expired: 0,
+        oldest: null,
+        newest: null,
+      };
+      stats.set(namespace, item);
+    }
+    return item;
+  };
+
+  registry.forEach((info) => statsFor(info.namespace));
+  for (const entry of entries) {
+    const item = statsFor(entry.namespace);
+    item.entries++;
+    item.bytes += entry.size;
+    if (item.maxAgeMs !== null && now - entry.timestamp > item.maxAgeMs) item.expired++;
+    item.oldest = item.oldest === null ? entry.timestamp : Math.min(item.oldest, entry.timestamp);
+    item.newest = item.newest === null ? entry.timestamp : Math.max(item.newest, entry.timestamp);
+  }
+  return Array.from(stats.values());
+}
+
+/**
+ * Removes entries older than their namespace's maxAgeMs, in one namespace or
+ * in all registered ones. Returns the number of entries removed.
+ */
+export async function purgeExpiredCache(namespace?: string): Promise<number> {
+  const store = await getCacheStore();
+  const targets = namespace === undefined ? getCacheNamespaces() : [registry.get(namespace)];
+  let removed = 0;
+  for (const info of targets) {
+    if (info) removed += await store.clearNamespace(info.namespace, info.maxAgeMs);
+  }
+  return removed;
+}
+
+/** Removes every entry of a namespace. Returns the number of entries removed. */
+export async function purgeCacheNamespace(namespace: string): Promise<number> {
+  const store = await getCacheStore();
+  return store.clearNamespace(namespace);
+}
+
+/** Removes every cached response. Returns the number of entries removed. */
+export async function purgeAllCache(): Promise<number> {
+  const store = await getCacheStore();
+  return store.clear();
+}
@@ -0,0 +1,95 @@
+import { CacheStore, LocalStorageCacheBackend, migrateLegacyCacheEntries } from './cacheStore';
+
+describe('CacheStore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should store entries with namespace and size', async () => {
+    const store = new CacheStore(new LocalStorageCacheBackend(), { maxBytes: 1_000_000 });
+
+    await store.put('profile-1', 'user-profile', { name: 'Alice' });
+
+    const record = await store.get('profile-1');
+    expect(record?.value).toEqual({ name: 'Alice' });
+    expect(record?.namespace).toBe('user-profile');
+    expect(record?.size).toBeGreaterThan(0);
+  });
+
+  it('should evict least recently used entries across namespaces when full', async () => {
+    const store = new CacheStore(new LocalStorageCacheBackend(), { maxBytes: 1_000 });
+    const nowSpy = jest.spyOn(Date, 'now');
+    const payload = 'x'.repeat(100);
+
+    nowSpy.mockReturnValue(1_000);
+    await store.put('a', 'ns-one', payload);
+    nowSpy.mockReturnValue(2_000);
+    await store.put('b', 'ns-two', payload);
+    nowSpy.mockReturnValue(3_000);
+    await store.get('a'); // a is now more recently used than b
+    await Promise.resolve();
+    nowSpy.mockReturnValue(4_000);
+    await store.put('c', 'ns-one', payload);
+    nowSpy.mockRestore();
+
+    expect(await store.get('b')).toBeNull();
+    expect(await store.get('a')).not.toBeNull();
+    expect(await store.get('c')).not.toBeNull();
+  });
+
+  it('should not count an overwritten entry twice', async () => {
+    // Four entries of about 280 bytes fill the store to just over the level eviction trims down to
+    const store = new CacheStore(new LocalStorageCacheBackend(), { maxBytes: 1_200 });
+    const payload = 'x'.repeat(50);
+    for (const key of ['a', 'b', 'c', 'd']) {
+      await store.put(key, 'ns-one', payload);
+    }
+
+    await store.put('d', 'ns-one', payload);
+
+    expect(await store.get('a')).not.toBeNull();
+  });
+
+  it('should clear a namespace, optionally only old entries', async () => {
+    const store = new CacheStore(new LocalStorageCacheBackend(), { maxBytes: 1_000_000 });
+    await store.put('old', 'ffscouter', [], Date.now() - 10_000);
+    await store.put('new', 'ffscouter', []);
+    await store.put('other', 'user-profile', {});
+
+    expect(await store.clearNamespace('ffscouter', 5_000)).toBe(1);
+    expect((await store.entries('ffscouter')).map((e) => e.key)).toEqual(['new']);
+
+    await store.clearNamespace('ffscouter');
+    expect(await store.entries()).toHaveLength(1);
+  });
+
+  it('should ignore localStorage keys that are not cache entries', async () => {
+    localStorage.setItem('company-specials-filters', JSON.stringify({ timestamp: 1, value: 2 }));
+    const store = new CacheStore(new LocalStorageCacheBackend(), { maxBytes: 1_000_000 });
+
+    expect(await store.entries()).toEqual([]);
+  });
+});
+
+describe('migrateLegacyCacheEntries', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should rewrite legacy entries in the current format and drop unreadable or dropped ones', async () => {
+    const timestamp = Date.now();
+    localStorage.setItem('ffscouter_cache_1_2', JSON.stringify({ data: [{ player_id: 1 }], timestamp }));
+    localStorage.setItem('torn_user_profile_v1_7', JSON.stringify({ value: { name: 'Bob' }, timestamp }));
+    localStorage.setItem('torn-company-detail-9', 'invalid json');
+    const backend = new LocalStorageCacheBackend();
+
+    expect(await migrateLegacyCacheEntries(backend)).toBe(1);
+
+    expect(localStorage.getItem('ffscouter_cache_1_2')).toBeNull();
+    expect((await backend.get('torn_user_profile_v1_7'))?.namespace).toBe('user-profile');
+    expect(localStorage.getItem('torn-company-detail-9')).toBeNull();
+
+    // Second run finds nothing left to migrate
+    expect(await migrateLegacyCacheEntries(backend)).toBe(0);
+  });
+});
@@ -0,0 +1,401 @@
+/**
+ * Storage behind Cache: one shared store for every cached API response.
+ * Entries live in IndexedDB when the browser has it and fall back to
+ * localStorage otherwise. The store keeps track of how many bytes each entry
+ * takes and evicts the least recently used entries—across all namespaces—
+ * once the total goes over its limit or the browser reports the quota is full.
+ *
+ * On first open it moves entries written by older versions of the app
+ * (one localStorage key per profile, company detail, FF batch, ...) into the
+ * store, so nothing has to be fetched again after an update.
+ */
+
+/** Bookkeeping for one cached entry, without the value itself. */
+export interface CacheEntryMeta {
+  key: string;
+  /** Group of entries belonging to one kind of response, e.g. 'user-profile'. */
+  namespace: string;
+  /** Approximate size in bytes (UTF-16 length of the serialized entry). */
+  size: number;
+  /** When the value was fetched. */
+  timestamp: number;
+  /** When the value was last read or written; drives LRU eviction. */
+  lastAccess: number;
+}
+
+export interface CacheRecord extends CacheEntryMeta {
+  value: unknown;
+}
+
+/** Where entries are persisted. Implementations must throw on quota errors from put(). */
+export interface CacheBackend {
+  readonly kind: 'indexeddb' | 'localstorage';
+  get(key: string): Promise<CacheRecord | null>;
+  put(record: CacheRecord): Promise<void>;
+  touch(key: string, lastAccess: number): Promise<void>;
+  remove(keys: string[]): Promise<void>;
+  list(): Promise<CacheEntryMeta[]>;
+}
+
+/** localStorage key prefixes written before the shared store existed, and their namespaces. */
+export const LEGACY_CACHE_PREFIXES: Array<{ prefix: string; namespace: string }> = [
+  { prefix: 'torn_user_profile_v1_', namespace: 'user-profile' },
+  { prefix: 'torn-user-personal-stats-', namespace: 'user-personal-stats' },
+  { prefix: 'torn-user-workstats', namespace: 'work-stats' },
+  { prefix: 'torn-company-types', namespace: 'company-types' },
+  { prefix: 'torn-companies-type-', namespace: 'companies' },
+  { prefix: 'torn-company-detail-', namespace: 'company-detail' },
+  { prefix: 'ffscouter_player_', namespace: 'ffscouter' },
+];
+
+/** localStorage key prefixes of old entries nothing reads any more; migration deletes them. */
+export const DROPPED_CACHE_PREFIXES = ['ffscouter_cache_'];
+
+function legacyNamespace(key: string): string | null {
+  const match = LEGACY_CACHE_PREFIXES.find(({ prefix }) => key.startsWith(prefix));
+  return match ? match.namespace : null;
+}
+
+/**
+ * Parses a localStorage cache entry
+ * ({ value, timestamp, namespace?, lastAccess? }). An unreadable value under a known cache prefix comes
+ * back with timestamp 0, so it reads as expired and is evicted first.
+ * Returns null for anything that is not a cache entry.
+ */
+function parseStoredEntry(key: string, raw: string): CacheRecord | null {
+  const namespaceFromKey = legacyNamespace(key);
+  const size = (key.length + raw.length) * 2;
+  let parsed;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    parsed = null;
+  }
+  if (typeof parsed !== 'object' || parsed === null || typeof parsed.timestamp !== 'number') {
+    return namespaceFromKey === null
+      ? null
+      : { key, namespace: namespaceFromKey, value: null, timestamp: 0, lastAccess: 0, size };
+  }
+  const namespace = typeof parsed.namespace === 'string' ? parsed.namespace : namespaceFromKey;
+  if (namespace === null) return null;
+  return {
+    key,
+    namespace,
+    value: parsed.value,
+    timestamp: parsed.timestamp,
+    lastAccess: typeof parsed.lastAccess === 'number' ? parsed.lastAccess : parsed.timestamp,
+    size,
+  };
+}
+
+function isCurrentFormat(raw: string): boolean {
+  try {
+    return typeof JSON.parse(raw).namespace === 'string';
+  } catch {
+    return false;
+  }
+}
+
+function serializeRecord(record: CacheRecord): string {
+  const { value, timestamp, namespace, lastAccess } = record;
+  return JSON.stringify({ value, timestamp, namespace, lastAccess });
+}
+
+/** Fallback backend: one localStorage key per entry, same key as the cache's storageKey. */
+export class LocalStorageCacheBackend implements CacheBackend {
+  readonly kind = 'localstorage' as const;
+
+  async get(key: string): Promise<CacheRecord | null> {
+    const raw = localStorage.getItem(key);
+    return raw === null ? null : parseStoredEntry(key, raw);
+  }
+
+  async put(record: CacheRecord): Promise<void> {
+    localStorage.setItem(record.key, serializeRecord(record));
+  }
+
+  async touch(key: string, lastAccess: number): Promise<void> {
+    const record = await this.get(key);
+    if (record) {
+      localStorage.setItem(key, serializeRecord({ ...record, lastAccess }));
+    }
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    keys.forEach((key) => localStorage.removeItem(key));
+  }
+
+  async list(): Promise<CacheEntryMeta[]> {
+    const entries: CacheEntryMeta[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key === null) continue;
+      const raw = localStorage.getItem(key);
+      const record = raw === null ? null : parseStoredEntry(key, raw);
+      if (record) {
+        const { value: _value, ...meta } = record;
+        entries.push(meta);
+      }
+    }
+    return entries;
+  }
+}
+
+const DB_NAME = 'jensim-torn-cache';
+const DB_VERSION = 1;
+const VALUES_STORE = 'values';
+const META_STORE = 'meta';
+
+function requestToPromise<R>(request: IDBRequest<R>): Promise<R> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/**
+ * IndexedDB backend. Values and metadata live in separate object stores so
+ * listing entries for eviction doesn't have to read every cached response.
+ */
+export class IndexedDbCacheBackend implements CacheBackend {
+  readonly kind = 'indexeddb' as const;
+
+  private constructor(private readonly db: IDBDatabase) {}
+
+  static async open(): Promise<IndexedDbCacheBackend> {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(VALUES_STORE)) db.createObjectStore(VALUES_STORE);
+      if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: 'key' });
+    };
+    return new IndexedDbCacheBackend(await requestToPromise(request));
+  }
+
+  async get(key: string): Promise<CacheRecord | null> {
+    const tx = this.db.transaction([VALUES_STORE, META_STORE], 'readonly');
+    const [value, meta] = await Promise.all([
+      requestToPromise(tx.objectStore(VALUES_STORE).get(key)),
+      requestToPromise<CacheEntryMeta | undefined>(tx.objectStore(META_STORE).get(key)),
+    ]);
+    if (meta === undefined) return null;
+    return { ...meta, value };
+  }
+
+  async put(record: CacheRecord): Promise<void> {
+    const { value, ...meta } = record;
+    const tx = this.db.transaction([VALUES_STORE, META_STORE], 'readwrite');
+    tx.objectStore(VALUES_STORE).put(value, record.key);
+    tx.objectStore(META_STORE).put(meta);
+    await transactionDone(tx);
+  }
+
+  async touch(key: string, lastAccess: number): Promise<void> {
+    const tx = this.db.transaction(META_STORE, 'readwrite');
+    const store = tx.objectStore(META_STORE);
+    const meta = await requestToPromise<CacheEntryMeta | undefined>(store.get(key));
+    if (meta) store.put({ ...meta, lastAccess });
+    await transactionDone(tx);
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    const tx = this.db.transaction([VALUES_STORE, META_STORE], 'readwrite');
+    keys.forEach((key) => {
+      tx.objectStore(VALUES_STORE).delete(key);
+      tx.objectStore(META_STORE).delete(key);
+    });
+    await transactionDone(tx);
+  }
+
+  async list(): Promise<CacheEntryMeta[]> {
+    const tx = this.db.transaction(META_STORE, 'readonly');
+    return requestToPromise<CacheEntryMeta[]>(tx.objectStore(META_STORE).getAll());
+  }
+}
+
+/**
+ * Moves legacy localStorage cache entries into the given backend and removes
+ * them from localStorage. For the localStorage backend the entries are
+ * rewritten in place in the current format. Unreadable entries, and entries
+ * under DROPPED_CACHE_PREFIXES (FFScouter's old per-batch entries), are dropped.
+ * Returns the number of entries migrated.
+ */
+export async function migrateLegacyCacheEntries(backend: CacheBackend): Promise<number> {
+  const legacy: CacheRecord[] = [];
+  const unreadable: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key === null) continue;
+    if (DROPPED_CACHE_PREFIXES.some((prefix) => key.startsWith(prefix))) {
+      unreadable.push(key);
+      continue;
+    }
+    if (legacyNamespace(key) === null) continue;
+    const raw = localStorage.getItem(key) ?? '';
+    const record = parseStoredEntry(key, raw);
+    if (record === null) continue;
+    if (record.timestamp === 0) {
+      unreadable.push(key);
+    } else if (backend.kind === 'indexeddb' || !isCurrentFormat(raw)) {
+      // Entries already in the current format only need moving when leaving localStorage
+      legacy.push(record);
+    }
+  }
+  unreadable.forEach((key) => localStorage.removeItem(key));
+  for (const record of legacy) {
+    await backend.put(record);
+    if (backend.kind === 'indexeddb') localStorage.removeItem(record.key);
+  }
+  return legacy.length;
+}
+
+function isQuotaError(error: unknown): boolean {
+  return (
+    error instanceof DOMException &&
+    (error.name === 'QuotaExceededError' || error.name === 'NS_ERROR_DOM_QUOTA_REACHED')
+  );
+}
+
+export interface CacheStoreOptions {
+  /** Evict least recently used entries once the total goes over this many bytes. */
+  maxBytes: number;
+}
+
+/** Default limits: IndexedDB gets far more room than localStorage's ~5 MB per origin. */
+const MAX_BYTES = { indexeddb: 50 * 1024 * 1024, localstorage: 4 * 1024 * 1024 };
+
+/** Share of maxBytes to shrink to when evicting, so we don't evict on every write. */
+const EVICT_TO_RATIO = 0.8;
+
+export class CacheStore {
+  private readonly maxBytes: number;
+  private totalBytes: number | null = null;
+
+  constructor(readonly backend: CacheBackend, options: CacheStoreOptions) {
+    this.maxBytes = options.maxBytes;
+  }
+
+  async get(key: string): Promise<CacheRecord | null> {
+    const record = await this.backend.get(key);
+    if (record) {
+      this.backend.touch(key, Date.now()).catch(() => undefined);
+    }
+    return record;
+  }
+
+  /** Stores a value, evicting older entries first when the store is full. */
+  async put(key: string, namespace: string, value: unknown, timestamp: number = Date.now()): Promise<void> {
+    const record: CacheRecord = { key, namespace, value, timestamp, lastAccess: Date.now(), size: 0 };
+    record.size = (key.length + serializeRecord(record).length) * 2;
+
+    // Size of the entry this one replaces; evict() already leaves it out of the total
+    let replacedBytes = (await this.backend.get(key))?.size ?? 0;
+    const total = await this.currentBytes();
+    if (total - replacedBytes + record.size > this.maxBytes) {
+      await this.evict(this.maxBytes * EVICT_TO_RATIO - record.size, key);
+      replacedBytes = 0;
+    }
+    try {
+      await this.backend.put(record);
+    } catch (error) {
+      if (!isQuotaError(error)) throw error;
+      // The browser's quota is smaller than ours; make room and try once more
+      await this.evict((await this.currentBytes()) * EVICT_TO_RATIO - record.size, key);
+      replacedBytes = 0;
+      await this.backend.put(record);
+    }
+    // Null when a removal ran meanwhile; recomputed on the next put
+    if (this.totalBytes !== null) this.totalBytes += record.size - replacedBytes;
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    await this.backend.remove(keys);
+    this.totalBytes = null;
+  }
+
+  /** Entries currently stored, optionally only those of one namespace. */
+  async entries(namespace?: string): Promise<CacheEntryMeta[]> {
+    const all = await this.backend.list();
+    return namespace === undefined ? all : all.filter((entry) => entry.namespace === namespace);
+  }
+
+  /**
+   * Removes the entries of a namespace; with olderThanMs, only those fetched
+   * longer ago than that. Returns the number of entries removed.
+   */
+  async clearNamespace(namespace: string, olderThanMs?: number): Promise<number> {
+    const now = Date.now();
+    const keys = (await this.entries(namespace))
+      .filter((entry) => olderThanMs === undefined || now - entry.timestamp > olderThanMs)
+      .map((entry) => entry.key);
+    await this.remove(keys);
+    return keys.length;
+  }
+
+  /** Removes every entry. Returns the number of entries removed. */
+  async clear(): Promise<number> {
+    const keys = (await this.entries()).map((entry) => entry.key);
+    await this.remove(keys);
+    return keys.length;
+  }
+
+  private async currentBytes(): Promise<number> {
+    if (this.totalBytes === null) {
+      const entries = await this.backend.list();
+      this.totalBytes = entries.reduce((sum, entry) => sum + entry.size, 0);
+    }
+    return this.totalBytes;
+  }
+
+  /** Removes least recently used entries until the total is at most targetBytes. */
+  private async evict(targetBytes: number, keepKey: string): Promise<void> {
+    const entries = (await this.backend.list())
+      .filter((entry) => entry.key !== keepKey)
+      .sort((a, b) => a.lastAccess - b.lastAccess);
+    let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+    const evicted: string[] = [];
+    for (const entry of entries) {
+      if (total <= targetBytes) break;
+      evicted.push(entry.key);
+      total -= entry.size;
+    }
+    await this.backend.remove(evicted);
+    this.totalBytes = total;
+  }
+}
+
+let storePromise: Promise<CacheStore> | null = null;
+
+async function openStore(): Promise<CacheStore> {
+  let backend: CacheBackend;
+  try {
+    if (typeof indexedDB === 'undefined') throw new Error('IndexedDB is not available');
+    backend = await IndexedDbCacheBackend.open();
+  } catch {
+    // No IndexedDB (old browser, some private modes, tests): keep using localStorage
+    backend = new LocalStorageCacheBackend();
+  }
+  try {
+    await migrateLegacyCacheEntries(backend);
+  } catch (error) {
+    console.error('Error migrating legacy cache entries:', error);
+  }
+  return new CacheStore(backend, { maxBytes: MAX_BYTES[backend.kind] });
+}
+
+/** Returns the app-wide cache store, opening it (and migrating old entries) on first use. */
+export function getCacheStore(): Promise<CacheStore> {
+  if (storePromise === null) {
+    storePromise = openStore();
+  }
+  return storePromise;
+}
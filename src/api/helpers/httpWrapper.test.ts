@@ -0,0 +1,135 @@
+import { Cache } from './cache';
+import { DataOrError, httpWrapper } from './httpWrapper';
+import { RateLimiter } from './rateLimiter';
+
+describe('httpWrapper', () => {
+  const retry = { maxRetries: 0, isSuccess: (r: DataOrError<string>) => r.error === null };
+
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should return fresh cached data without running the request', async () => {
+    const cache = new Cache<string>({ storageKey: 'swr-fresh', maxStalenessMs: 60_000 });
+    await cache.set('cached');
+    const run = jest.fn();
+
+    const result = await httpWrapper({ cache, retry }, run);
+
+    expect(result).toEqual({ data: 'cached', error: null });
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('should ignore stale data unless staleWhileRevalidate is set', async () => {
+    const cache = new Cache<string>({ storageKey: 'swr-blocking', maxStalenessMs: -1 });
+    await cache.set('old');
+    const run = jest.fn().mockResolvedValue({ data: 'new', error: null });
+
+    const result = await httpWrapper({ cache, retry }, run);
+
+    expect(result).toEqual({ data: 'new', error: null });
+  });
+
+  it('should return stale data immediately and refresh once in the background', async () => {
+    const cache = new Cache<string>({ storageKey: 'swr-stale', maxStalenessMs: -1 });
+    await cache.set('old');
+    let finish: (value: DataOrError<string>) => void = () => undefined;
+    const run = jest.fn(() => new Promise<DataOrError<string>>((resolve) => { finish = resolve; }));
+    const revalidated = new Promise<DataOrError<string>>((resolve) => {
+      httpWrapper({ cache, retry, staleWhileRevalidate: true, onRevalidate: resolve }, run).then((first) => {
+        expect(first).toEqual({ data: 'old', error: null, stale: true });
+      });
+    });
+
+    // A second caller while the refresh is running shares it
+    const second = await httpWrapper({ cache, retry, staleWhileRevalidate: true }, run);
+    expect(second.stale).toBe(true);
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    finish({ data: 'new', error: null });
+
+    expect(await revalidated).toEqual({ data: 'new', error: null });
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share one request between identical concurrent calls', async () => {
+    const run = jest.fn().mockResolvedValue({ data: 'value', error: null });
+
+    const results = await Promise.all([
+      httpWrapper({ retry, requestKey: 'same' }, run),
+      httpWrapper({ retry, requestKey: 'same' }, run),
+      httpWrapper({ retry, requestKey: 'other' }, run),
+    ]);
+
+    expect(results.map((r) => r.data)).toEqual(['value', 'value', 'value']);
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('should start a new request once the previous one finished', async () => {
+    const run = jest.fn().mockResolvedValue({ data: 'value', error: null });
+
+    await httpWrapper({ retry, requestKey: 'sequential' }, run);
+    await httpWrapper({ retry, requestKey: 'sequential' }, run);
+
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('should drop a queued call and resolve aborted when its signal fires', async () => {
+    const limiter = new RateLimiter({ cooldownMs: 0 });
+    let finishFirst: (value: DataOrError<string>) => void = () => undefined;
+    const first = httpWrapper(
+      { retry, rateLimiter: limiter },
+      () => new Promise<DataOrError<string>>((resolve) => { finishFirst = resolve; })
+    );
+    const controller = new AbortController();
+    const run = jest.fn().mockResolvedValue({ data: 'second', error: null });
+    const second = httpWrapper({ retry, rateLimiter: limiter, signal: controller.signal }, run);
+
+    controller.abort();
+    expect((await second).error?.kind).toBe('aborted');
+
+    finishFirst({ data: 'first', error: null });
+    await first;
+    expect(run).not.toHaveBeenCalled();
+  });
+
+  it('should only abort a shared request once every caller has aborted', async () => {
+    let runSignal: AbortSignal | undefined;
+    const run = jest.fn((signal?: AbortSignal) => {
+      runSignal = signal;
+      return new Promise<DataOrError<string>>(() => undefined);
+    });
+    const a = new AbortController();
+    const b = new AbortController();
+    const first = httpWrapper({ retry, requestKey: 'shared-abort', signal: a.signal }, run);
+    const second = httpWrapper({ retry, requestKey: 'shared-abort', signal: b.signal }, run);
+
+    a.abort();
+    expect((await first).error?.kind).toBe('aborted');
+    expect(runSignal?.aborted).toBe(false);
+
+    b.abort();
+    expect((await second).error?.kind).toBe('aborted');
+    expect(runSignal?.aborted).toBe(true);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('should resolve aborted without another attempt when aborted during backoff', async () => {
+    const controller = new AbortController();
+    const run = jest.fn().mockRejectedValue(new Error('offline'));
+    const result = httpWrapper(
+      {
+        retry: { ...retry, maxRetries: 3, shouldRetryError: () => ({ retry: true, delayMs: 50 }) },
+        signal: controller.signal,
+      },
+      run
+    );
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    controller.abort();
+
+    expect((await result).error?.kind).toBe('aborted');
+    // The backoff has passed; an attempt would have run by now
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+});
@@ -3,22 +3,38 @@
  * in a best-practice order:
  *
  * 1. Check cache first — return immediately if response is fresh (no rate limit or request).
+ *    With staleWhileRevalidate, an expired entry is returned too (flagged stale) while
+ *    steps 2–6 run in the background to refresh it.
  * 2. Retry wrapper — on failure, retry (each attempt goes through rate limit again).
- * 3. Rate limit (optional) — take a ticket and wait; when it's our turn, proceed.
+ * 3. Rate limit (optional) — take a ticket in the priority lane and wait; when it's our turn, proceed.
  * 4. Before executing the run function — check cache again (may have been updated while waiting).
- * 5. Run — execute the actual request; on success, store in cache.
+ * 5. Request budget (optional) — take one call from the per-key budget, pausing if it is used up.
+ * 6. Run — execute the actual request; on success, store in cache.
  *
- * Timeout (if set) applies only to the actual `run()` call, not cache checks or queue wait.
+ * Identical calls made while one is already in flight (same requestKey, or same cache key)
+ * share its promise instead of queueing a second request.
+ *
+ * An AbortSignal (options.signal) cancels the call at any of these steps.
+ *
+ * Timeout (if set) applies only to the actual `run()` call, not cache checks, queue or budget wait.
+ *
+ * Every call is recorded in the request log (see requestLog.ts) for the /debug page.
  */
 
 import { Cache, CacheOptions } from './cache';
-import { RateLimiter } from './rateLimiter';
-import { RetryOptions, withRetry } from './retry';
+import { RateLimiter, RequestPriority } from './rateLimiter';
+import { RequestBudget } from './requestBudget';
+import { logRequestStart, updateRequestLog, withRequestLogEntry } from './requestLog';
+import { RetryDecision, RetryOptions, withRetry } from './retry';
+import { TornError, abortedError, networkError, timeoutError } from './tornError';
 
-function withTimeout<T>(fn: () => Promise<T>, timeoutMs: number): Promise<T> {
+function withTimeout<T>(
+  fn: () => Promise<DataOrError<T>>,
+  timeoutMs: number
+): Promise<DataOrError<T>> {
   return new Promise((resolve, reject) => {
     const t = setTimeout(
-      () => reject(new Error(`HTTP wrapper call timed out after ${timeoutMs}ms`)),
+      () => resolve({ data: null, error: timeoutError(timeoutMs) }),
       timeoutMs
     );
     fn().then(
@@ -34,41 +50,106 @@ function withTimeout<T>(fn: () => Promise<T>, timeoutMs: number): Promise<T> {
   });
 }
 
-/** Result shape used by API calls: either data or error. */
+/** Result shape used by API calls: either data or a typed error. */
 export interface DataOrError<T> {
   data: T | null;
-  error: string | null;
+  error: TornError | null;
+  /** True when data is an expired cache entry returned while a refresh runs in the background. */
+  stale?: boolean;
+}
+
+/** Per-call options that fetchers pass through to httpWrapper. */
+export interface RequestOptions<T> {
+  /**
+   * Return an expired cache entry right away (with stale: true) instead of
+   * waiting for the network, and refresh it in the background.
+   */
+  staleWhileRevalidate?: boolean;
+  /** Called with the result of the background refresh started by staleWhileRevalidate. */
+  onRevalidate?: (result: DataOrError<T>) => void;
+  /** Cancels the request: drops it from queues, aborts the fetch and resolves with an 'aborted' error. */
+  signal?: AbortSignal;
+  /**
+   * Rate limiter lane (default 'normal'). Use 'interactive' for requests the user is waiting
+   * on and 'background' for bulk loads. A call that joins an in-flight request keeps that
+   * request's priority.
+   */
+  priority?: RequestPriority;
+  /**
+   * Called each time an attempt goes to the network (after taking its call from
+   * the budget), not for cache hits. A call that joins an in-flight request is
+   * not told about that request's attempts.
+   */
+  onCall?: () => void;
 }
 
 /** Options for creating an http wrapper. */
-export interface HttpWrapperOptions<T> {
+export interface HttpWrapperOptions<T> extends RequestOptions<T> {
   /** Cache instance or options to create one. If omitted, no caching (still retries). */
   cache?: Cache<T> | CacheOptions;
   /** Rate limiter instance. If omitted, attempts run immediately (timeout still applies if set). */
   rateLimiter?: RateLimiter;
-  /** Retry options. */
+  /** Per-key call budget (see getTornBudget). Each attempt takes one call, waiting when exhausted. */
+  budget?: RequestBudget;
+  /** Retry options: attempts, backoff, jitter and max elapsed time (see tornRetry for Torn calls). */
   retry: RetryOptions<DataOrError<T>>;
   /** Optional timeout in ms for each `run()` invocation. */
   timeoutMs?: number;
+  /**
+   * Identifies identical requests so concurrent calls share one in-flight
+   * promise. Defaults to the cache's storage key; without either, every call runs.
+   */
+  requestKey?: string;
+}
+
+interface InFlightRequest {
+  promise: Promise<DataOrError<unknown>>;
+  controller: AbortController;
+  /** Callers still waiting for the result; the request is aborted once all of them have given up. */
+  interested: number;
+}
+
+/** Requests in progress by request key, so identical concurrent calls share one request. */
+const inFlight = new Map<string, InFlightRequest>();
+
+/** Resolves with the request's result, or with an aborted result as soon as the signal fires. */
+function untilAborted<T>(promise: Promise<DataOrError<T>>, signal?: AbortSignal): Promise<DataOrError<T>> {
+  if (!signal) return promise;
+  return new Promise((resolve) => {
+    const onAbort = () => resolve({ data: null, error: abortedError() });
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then((result) => {
+      signal.removeEventListener('abort', onAbort);
+      resolve(result);
+    });
+  });
 }
 
 /**
  * Builds a wrapped function that:
- * - Returns cached data if fresh
+ * - Returns cached data if fresh (or stale data plus a background refresh, see staleWhileRevalidate)
+ * - Joins an identical request already in flight instead of starting another
  * - Retries on failure (each attempt goes through rate limit)
  * - Optionally respects rate limit (one slot per run)
  * - Re-checks cache before running (in case cache was filled while waiting)
+ * - Optionally takes a call from the request budget (one per attempt)
  * - Runs the given loader and caches successful results
  *
- * @param options - Cache, optional rate limiter, retry, and optional timeout
- * @param run - The actual request: () => Promise<{ data: T | null; error: string | null }>
+ * When options.signal aborts, queued tickets and budget waits are dropped, the
+ * signal passed to run() fires so fetch() can abort, and the call resolves with
+ * an 'aborted' error. A shared in-flight request is only aborted once every
+ * caller waiting on it has aborted.
+ *
+ * @param options - Cache, optional rate limiter and budget, retry, optional timeout and signal
+ * @param run - The actual request: (signal) => Promise<{ data: T | null; error: TornError | null }>
  * @returns Promise with data or error
  */
 export async function httpWrapper<T>(
   options: HttpWrapperOptions<T>,
-  run: () => Promise<DataOrError<T>>
+  run: (signal?: AbortSignal) => Promise<DataOrError<T>>
 ): Promise<DataOrError<T>> {
-  const { rateLimiter, retry, timeoutMs } = options;
+  const { rateLimiter, budget, retry, timeoutMs, staleWhileRevalidate, onRevalidate, signal, priority, onCall } =
+    options;
   const cache: Cache<T> | null =
     options.cache instanceof Cache
       ? options.cache
@@ -76,39 +157,136 @@ export async function httpWrapper<T>(
         ? new Cache<T>(options.cache)
         : null;
 
+  const requestKey = options.requestKey ?? cache?.storageKey;
+  const logId = logRequestStart({ endpoint: requestKey ?? 'request', source: 'wrapper' });
+  const logResult = (result: DataOrError<T>): DataOrError<T> => {
+    updateRequestLog(logId, {
+      status: result.error ? result.error.kind : 'ok',
+      error: result.error?.message ?? null,
+    });
+    return result;
+  };
+
+  if (signal?.aborted) {
+    return logResult({ data: null, error: abortedError() });
+  }
+
   // 1. First cache check — avoid rate limit and request if we have fresh data
-  if (cache) {
-    const cached = cache.get();
-    if (cached !== null) {
-      return { data: cached, error: null };
-    }
+  const cachedEntry = cache ? await cache.getEntry() : null;
+  if (cachedEntry && !cachedEntry.stale) {
+    updateRequestLog(logId, { cache: 'hit' });
+    return logResult({ data: cachedEntry.value, error: null });
   }
+  updateRequestLog(logId, { cache: cachedEntry ? 'stale' : cache ? 'miss' : 'none' });
 
-  const executeAttempt = async (): Promise<DataOrError<T>> => {
+  // Queue wait and run time are summed over attempts for the request log
+  let queueWaitMs = 0;
+  let runMs = 0;
+  let attempts = 0;
+
+  const executeAttempt = async (attemptSignal: AbortSignal | undefined, queuedAt: number): Promise<DataOrError<T>> => {
     // 4. Before executing: check cache again (may have been updated while waiting)
     if (cache) {
-      const cachedAgain = cache.get();
+      const cachedAgain = await cache.get();
       if (cachedAgain !== null) {
+        updateRequestLog(logId, { cache: 'hit' });
         return { data: cachedAgain, error: null };
       }
     }
 
-    // 5. Run the actual request (timeout applies only to this call)
-    const result =
-      timeoutMs != null
-        ? await withTimeout(run, timeoutMs)
-        : await run();
-    if (result.data !== null && cache) {
-      cache.set(result.data);
+    // 5. Take a call from the budget; waits out the window when it is used up
+    if (budget) {
+      await budget.acquire(attemptSignal);
     }
-    return result;
+    onCall?.();
+
+    // 6. Run the actual request (timeout applies only to this call)
+    const startedAt = Date.now();
+    queueWaitMs += startedAt - queuedAt;
+    attempts++;
+    updateRequestLog(logId, { queueWaitMs, retries: attempts - 1 });
+    const runLogged = () => withRequestLogEntry(logId, () => run(attemptSignal));
+    try {
+      const result =
+        timeoutMs != null ? await withTimeout(runLogged, timeoutMs) : await runLogged();
+      if (result.data !== null && cache) {
+        await cache.set(result.data);
+      }
+      return result;
+    } finally {
+      runMs += Date.now() - startedAt;
+      updateRequestLog(logId, { runMs });
+    }
+  };
+
+  // 2. Retry wraps 3–6; each retry gets a new rate-limit ticket when a limiter is used
+  const load = async (loadSignal?: AbortSignal): Promise<DataOrError<T>> => {
+    const runAttempt = (): Promise<DataOrError<T>> => {
+      const queuedAt = Date.now();
+      return rateLimiter
+        ? rateLimiter.run(() => executeAttempt(loadSignal, queuedAt), { signal: loadSignal, priority })
+        : executeAttempt(loadSignal, queuedAt);
+    };
+    // Never retry once cancelled, whatever the retry policy says
+    const notAborted = <V>(decide?: (value: V, attempt: number) => RetryDecision) =>
+      (value: V, attempt: number): RetryDecision =>
+        loadSignal?.aborted ? { retry: false } : decide ? decide(value, attempt) : { retry: true };
+    try {
+      return await withRetry(runAttempt, {
+        ...retry,
+        shouldRetry: notAborted(retry.shouldRetry),
+        shouldRetryError: notAborted(retry.shouldRetryError),
+        signal: loadSignal,
+      });
+    } catch (error) {
+      // run() reports failures as results; anything thrown (e.g. by the limiter) ends up here
+      if (loadSignal?.aborted) return { data: null, error: abortedError() };
+      return { data: null, error: networkError('data', error) };
+    }
+  };
+
+  // Join an identical request that is already running, or start one others can join
+  const loadShared = (): Promise<DataOrError<T>> => {
+    if (requestKey === undefined) return untilAborted(load(signal), signal);
+    let request = inFlight.get(requestKey);
+    if (!request) {
+      const controller = new AbortController();
+      const entry: InFlightRequest = {
+        controller,
+        interested: 0,
+        promise: load(controller.signal).finally(() => {
+          if (inFlight.get(requestKey) === entry) inFlight.delete(requestKey);
+        }),
+      };
+      inFlight.set(requestKey, entry);
+      request = entry;
+    } else {
+      updateRequestLog(logId, { shared: true });
+    }
+    const joined = request;
+    joined.interested++;
+    signal?.addEventListener(
+      'abort',
+      () => {
+        joined.interested--;
+        if (joined.interested === 0) {
+          joined.controller.abort();
+          // Let the next caller start afresh instead of joining a cancelled request
+          if (inFlight.get(requestKey) === joined) inFlight.delete(requestKey);
+        }
+      },
+      { once: true }
+    );
+    return untilAborted(joined.promise as Promise<DataOrError<T>>, signal);
   };
 
-  const runAttempt = (): Promise<DataOrError<T>> =>
-    rateLimiter ? rateLimiter.run(executeAttempt) : executeAttempt();
+  if (cachedEntry && staleWhileRevalidate) {
+    const refresh = loadShared().then(logResult);
+    if (onRevalidate) refresh.then(onRevalidate);
+    return { data: cachedEntry.value, error: null, stale: true };
+  }
 
-  // 2. Retry wraps 3–5; each retry gets a new rate-limit ticket when a limiter is used
-  return withRetry(runAttempt, retry);
+  return loadShared().then(logResult);
 }
 
 /**
@@ -117,7 +295,7 @@ export async function httpWrapper<T>(
  *
  * @example
  * const wrapped = createHttpWrapper({
- *   cache: new Cache({ storageKey: 'my-key', maxStalenessMs: 60_000 }),
+ *   cache: new Cache({ storageKey: 'my-key', maxStalenessMs: 60_000, namespace: 'my-api' }),
  *   rateLimiter: myLimiter,
  *   retry: { maxRetries: 3, isSuccess: r => r.error === null },
  * });
@@ -125,6 +303,6 @@ export async function httpWrapper<T>(
  */
 export function createHttpWrapper<T>(
   options: HttpWrapperOptions<T>
-): (run: () => Promise<DataOrError<T>>) => Promise<DataOrError<T>> {
+): (run: (signal?: AbortSignal) => Promise<DataOrError<T>>) => Promise<DataOrError<T>> {
   return (run) => httpWrapper(options, run);
 }
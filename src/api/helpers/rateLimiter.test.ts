@@ -0,0 +1,50 @@
+import { RateLimiter, RequestPriority } from './rateLimiter';
+
+describe('RateLimiter', () => {
+  /** Occupies the limiter until the returned release function is called. */
+  function block(limiter: RateLimiter): () => void {
+    let release: () => void = () => undefined;
+    limiter.run(() => new Promise<void>((resolve) => { release = resolve; }));
+    return () => release();
+  }
+
+  it('should run queued tickets by lane, oldest first within a lane', async () => {
+    const limiter = new RateLimiter({ cooldownMs: 0 });
+    const release = block(limiter);
+    const order: string[] = [];
+    const queue = (name: string, priority: RequestPriority) =>
+      limiter.run(async () => { order.push(name); }, { priority });
+
+    const done = Promise.all([
+      queue('bulk-1', 'background'),
+      queue('default', 'normal'),
+      queue('bulk-2', 'background'),
+      queue('click', 'interactive'),
+    ]);
+    expect(limiter.getQueueDepth()).toEqual({ interactive: 1, normal: 1, background: 2 });
+
+    release();
+    await done;
+
+    expect(order).toEqual(['click', 'default', 'bulk-1', 'bulk-2']);
+    expect(limiter.getQueueDepth()).toEqual({ interactive: 0, normal: 0, background: 0 });
+  });
+
+  it('should move long-waiting background tickets ahead of newer work', async () => {
+    const limiter = new RateLimiter({ cooldownMs: 0, agingMs: 1_000 });
+    const nowSpy = jest.spyOn(Date, 'now').mockReturnValue(0);
+    const release = block(limiter);
+    const order: string[] = [];
+
+    const bulk = limiter.run(async () => { order.push('bulk'); }, { priority: 'background' });
+    nowSpy.mockReturnValue(2_500);
+    const click = limiter.run(async () => { order.push('click'); }, { priority: 'interactive' });
+
+    release();
+    await Promise.all([bulk, click]);
+    nowSpy.mockRestore();
+
+    // Waited two aging steps, so it reached the interactive lane before the click arrived
+    expect(order).toEqual(['bulk', 'click']);
+  });
+});
@@ -2,42 +2,90 @@
  * Ticket-based rate limiter for API calls.
  * One request is processed at a time; after it finishes, a cooldown (default 250ms)
  * must pass before the next request may start. Each call to run() takes a ticket
- * and is processed in order. Instantiate per API so different APIs can have
- * independent limits.
+ * in one of three priority lanes (interactive, normal, background); tickets are
+ * processed in order within a lane, and higher lanes go first. Instantiate per API
+ * so different APIs can have independent limits.
+ *
+ * To keep bulk loads from starving, a waiting ticket moves up one lane for every
+ * agingMs it has been queued.
  */
 
+import { createAbortError } from './tornError';
+
+/**
+ * How urgently a request is needed:
+ * - interactive: the user just asked for it (clicked a link, opened a page)
+ * - normal: default
+ * - background: bulk loads and prefetching that may wait
+ */
+export type RequestPriority = 'interactive' | 'normal' | 'background';
+
+/** Lanes from most to least urgent. */
+const PRIORITIES: readonly RequestPriority[] = ['interactive', 'normal', 'background'];
+
+interface Ticket {
+  thunk: () => Promise<unknown>;
+  /** Index into PRIORITIES the ticket was queued with. */
+  lane: number;
+  queuedAt: number;
+}
+
 export interface RateLimiterOptions {
   /** Milliseconds that must pass after a request completes before the next may start. Default 250. */
   cooldownMs?: number;
   /** Max milliseconds allowed for each call; exceeded calls are rejected. Omit for no timeout. */
   timeoutMs?: number;
+  /** Milliseconds a ticket waits before it is moved up one lane. Default 10000. */
+  agingMs?: number;
 }
 
 export interface RunOptions {
   /** Override limiter timeout for this call (ms). Omit to use limiter default. */
   timeoutMs?: number;
+  /**
+   * Cancels the ticket: while still queued it is removed from the queue and the
+   * promise rejects with an AbortError. Once running, fn is expected to watch the signal itself.
+   */
+  signal?: AbortSignal;
+  /** Lane to queue the ticket in. Default 'normal'. */
+  priority?: RequestPriority;
 }
 
 export class RateLimiter {
   private readonly cooldownMs: number;
   private readonly defaultTimeoutMs: number | undefined;
-  private queue: Array<() => Promise<unknown>> = [];
+  private readonly agingMs: number;
+  private queue: Ticket[] = [];
   private cooldownUntil = 0;
   private isProcessing = false;
 
   constructor(options: RateLimiterOptions = {}) {
     this.cooldownMs = options.cooldownMs ?? 250;
     this.defaultTimeoutMs = options.timeoutMs;
+    this.agingMs = options.agingMs ?? 10_000;
+  }
+
+  /** Number of tickets waiting in each lane (by the priority they were queued with). */
+  getQueueDepth(): Record<RequestPriority, number> {
+    const depth: Record<RequestPriority, number> = { interactive: 0, normal: 0, background: 0 };
+    for (const ticket of this.queue) {
+      depth[PRIORITIES[ticket.lane]]++;
+    }
+    return depth;
   }
 
   /**
-   * Run a single request through the limiter. Takes a ticket; when it's your turn,
+   * Run a single request through the limiter. Takes a ticket in the given priority lane; when it's your turn,
    * the function is run. After it completes (success or failure), the cooldown
    * runs before the next request in line may start.
    * If timeoutMs (from options or run) is set and the call exceeds it, the promise rejects.
+   * If the signal aborts before the ticket's turn, the ticket is dropped and the promise rejects.
    */
   run<T>(fn: () => Promise<T>, options?: RunOptions): Promise<T> {
     const timeoutMs = options?.timeoutMs ?? this.defaultTimeoutMs;
+    const signal = options?.signal;
+    const lane = PRIORITIES.indexOf(options?.priority ?? 'normal');
+    if (signal?.aborted) return Promise.reject(createAbortError());
     const runWithTimeout = (): Promise<T> => {
       const p = fn();
       if (timeoutMs == null) return p;
@@ -59,7 +107,15 @@ export class RateLimiter {
       });
     };
     return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.queue.indexOf(ticket);
+        if (index >= 0) {
+          this.queue.splice(index, 1);
+          reject(createAbortError());
+        }
+      };
       const thunk = async (): Promise<T> => {
+        signal?.removeEventListener('abort', onAbort);
         try {
           const result = await runWithTimeout();
           resolve(result);
@@ -69,7 +125,9 @@ export class RateLimiter {
           throw e;
         }
       };
-      this.queue.push(thunk);
+      const ticket: Ticket = { thunk, lane, queuedAt: Date.now() };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.queue.push(ticket);
       this.processQueue();
     });
   }
@@ -84,11 +142,25 @@ export class RateLimiter {
       return;
     }
     this.isProcessing = true;
-    const next = this.queue.shift()!;
-    next().finally(() => {
+    const next = this.takeNext(now);
+    next.thunk().finally(() => {
       this.cooldownUntil = Date.now() + this.cooldownMs;
       this.isProcessing = false;
       setTimeout(() => this.processQueue(), this.cooldownMs);
     });
   }
+
+  /** Removes and returns the ticket to run next: most urgent lane after aging, oldest first. */
+  private takeNext(now: number): Ticket {
+    const effectiveLane = (ticket: Ticket) =>
+      Math.max(0, ticket.lane - Math.floor((now - ticket.queuedAt) / this.agingMs));
+    // The queue is in arrival order, so the first ticket in the best lane is the oldest
+    let best = 0;
+    for (let i = 1; i < this.queue.length; i++) {
+      if (effectiveLane(this.queue[i]) < effectiveLane(this.queue[best])) {
+        best = i;
+      }
+    }
+    return this.queue.splice(best, 1)[0];
+  }
 }
@@ -0,0 +1,147 @@
+import {
+  HIDDEN_BACKOFF,
+  getRefreshJob,
+  getRefreshJobs,
+  refreshNow,
+  registerRefreshJob,
+  unregisterRefreshJob,
+} from './refreshScheduler';
+import { getTornBudget } from './requestBudget';
+import { tornApiError } from './tornError';
+
+describe('refreshScheduler', () => {
+  let visibility: DocumentVisibilityState = 'visible';
+
+  /** The scheduler limiter's cooldown between job starts. */
+  const COOLDOWN_MS = 250;
+
+  /** Lets the scheduler's promises (limiter turn, run, bookkeeping) settle. */
+  async function flush(): Promise<void> {
+    for (let i = 0; i < 10; i++) await Promise.resolve();
+  }
+
+  async function advance(ms: number): Promise<void> {
+    jest.advanceTimersByTime(ms);
+    await flush();
+  }
+
+  function setVisibility(state: DocumentVisibilityState): void {
+    visibility = state;
+    document.dispatchEvent(new Event('visibilitychange'));
+  }
+
+  // One fake clock for the whole suite: the scheduler's limiter remembers its cooldown between tests
+  beforeAll(() => {
+    jest.useFakeTimers();
+    Object.defineProperty(document, 'visibilityState', { configurable: true, get: () => visibility });
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  beforeEach(async () => {
+    visibility = 'visible';
+    await advance(COOLDOWN_MS);
+  });
+
+  afterEach(() => {
+    getRefreshJobs().forEach((job) => unregisterRefreshJob(job.id));
+  });
+
+  it('should run a job once per interval and record when it last refreshed', async () => {
+    const run = jest.fn().mockResolvedValue(null);
+    registerRefreshJob({ id: 'scores', label: 'Scores', intervalMs: 60_000, run });
+
+    await advance(59_000);
+    expect(run).not.toHaveBeenCalled();
+    expect(getRefreshJob('scores')?.status).toBe('scheduled');
+
+    await advance(1_000);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(getRefreshJob('scores')).toMatchObject({ status: 'scheduled', failures: 0, lastError: null });
+    expect(getRefreshJob('scores')?.lastRefreshedAt).not.toBeNull();
+
+    await advance(60_000);
+    expect(run).toHaveBeenCalledTimes(2);
+  });
+
+  it('should back off after failed runs and reset once one succeeds', async () => {
+    const error = tornApiError(5, 'Too many requests');
+    const run = jest.fn().mockResolvedValueOnce(error).mockResolvedValue(null);
+    registerRefreshJob({ id: 'list', label: 'List', intervalMs: 10_000, runImmediately: true, run });
+    await advance(COOLDOWN_MS);
+
+    expect(getRefreshJob('list')).toMatchObject({ failures: 1, lastError: error });
+
+    await advance(10_000);
+    expect(run).toHaveBeenCalledTimes(1);
+    await advance(10_000 + COOLDOWN_MS);
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(getRefreshJob('list')).toMatchObject({ failures: 0, lastError: null });
+  });
+
+  it('should postpone a job while the budget has no room for background calls', async () => {
+    const apiKey = 'scheduler-budget-key';
+    const budget = getTornBudget(apiKey);
+    const run = jest.fn().mockResolvedValue(null);
+    budget.pause(30_000);
+    registerRefreshJob({ id: 'statuses', label: 'Statuses', intervalMs: 5_000, apiKey, runImmediately: true, run });
+    await flush();
+
+    expect(run).not.toHaveBeenCalled();
+    expect(getRefreshJob('statuses')?.status).toBe('postponed');
+
+    await advance(30_000 + COOLDOWN_MS);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('should tell each run how many calls its budget share leaves, and lift the cap on refreshNow', async () => {
+    const apiKey = 'scheduler-cap-key';
+    const budget = getTornBudget(apiKey);
+    await Promise.all(Array.from({ length: 10 }, () => budget.acquire()));
+    const run = jest.fn().mockResolvedValue(null);
+    registerRefreshJob({ id: 'statuses', label: 'Statuses', intervalMs: 60_000, apiKey, runImmediately: true, run });
+    await flush();
+
+    // 90 left, 75 of them kept for the user
+    expect(run).toHaveBeenLastCalledWith(expect.anything(), 15);
+
+    await advance(COOLDOWN_MS);
+    refreshNow('statuses');
+    await advance(COOLDOWN_MS);
+    expect(run).toHaveBeenCalledTimes(2);
+    expect(run).toHaveBeenLastCalledWith(expect.anything(), Infinity);
+  });
+
+  it('should stretch intervals while the tab is hidden and catch up when it is shown', async () => {
+    const run = jest.fn().mockResolvedValue(null);
+    registerRefreshJob({ id: 'scores', label: 'Scores', intervalMs: 60_000, run });
+
+    setVisibility('hidden');
+    await advance(60_000 * (HIDDEN_BACKOFF - 1));
+    expect(run).not.toHaveBeenCalled();
+
+    setVisibility('visible');
+    await advance(COOLDOWN_MS);
+    expect(run).toHaveBeenCalledTimes(1);
+  });
+
+  it('should run right away on refreshNow and abort the run when unregistered', async () => {
+    let signal: AbortSignal | undefined;
+    const run = jest.fn((runSignal: AbortSignal) => {
+      signal = runSignal;
+      return new Promise<null>((resolve) => runSignal.addEventListener('abort', () => resolve(null)));
+    });
+    const unregister = registerRefreshJob({ id: 'list', label: 'List', intervalMs: 60_000, run });
+
+    refreshNow('list');
+    await advance(COOLDOWN_MS);
+    expect(run).toHaveBeenCalledTimes(1);
+    expect(getRefreshJob('list')?.status).toBe('running');
+
+    unregister();
+    expect(signal?.aborted).toBe(true);
+    expect(getRefreshJob('list')).toBeNull();
+  });
+});
@@ -0,0 +1,236 @@
+/**
+ * Background refresh for data that pages keep on screen (bounty list,
+ * elimination scores, bounty target statuses, ...).
+ *
+ * Pages register named jobs with registerRefreshJob: how often to run, which
+ * rate limiter lane to use, and how much of the key's per-minute budget the
+ * job may take. Each run is told how many calls that share leaves it, so a job
+ * making several calls stops before it eats into what is kept for the user.
+ * Jobs run one at a time through the scheduler's rate limiter, so several
+ * pages refreshing at once don't burst. While the tab is hidden,
+ * intervals are stretched by HIDDEN_BACKOFF; when it becomes visible again,
+ * overdue jobs run right away. A failed run doubles the wait before the next
+ * one, up to MAX_FAILURE_BACKOFF times the interval.
+ */
+
+import { RateLimiter, RequestPriority } from './rateLimiter';
+import { getTornBudget } from './requestBudget';
+import { TornError, networkError } from './tornError';
+
+export interface RefreshJobOptions {
+  /** Unique name, e.g. 'bounties'. Registering the same id again replaces the job. */
+  id: string;
+  /** Shown in the refresh indicator and on the debug page. */
+  label: string;
+  intervalMs: number;
+  /** Rate limiter lane for the job's turn. Default 'background'. */
+  priority?: RequestPriority;
+  /** Key whose budget the job draws from; without one the budget is not checked. */
+  apiKey?: string;
+  /**
+   * Share (0–1) of the key's calls per minute background work may use. The job
+   * is postponed while fewer than (1 - budgetShare) of the calls are left, which
+   * keeps the rest for what the user does. Default 0.25.
+   */
+  budgetShare?: number;
+  /** Refresh right after registering instead of one interval later. Default false. */
+  runImmediately?: boolean;
+  /**
+   * Does the refresh; resolves with the error that made it fail, or null.
+   * callCap is how many Torn calls the run may make without eating into the
+   * calls kept for the user (Infinity without apiKey or on refreshNow); jobs
+   * making more than one call stop there and leave the rest for the next run.
+   */
+  run: (signal: AbortSignal, callCap: number) => Promise<TornError | null>;
+}
+
+/**
+ * - scheduled: waiting for nextRefreshAt
+ * - postponed: due, but waiting for the budget to allow background calls
+ * - queued: waiting for its turn in the rate limiter
+ * - running: refreshing now
+ */
+export type RefreshJobStatus = 'scheduled' | 'postponed' | 'queued' | 'running';
+
+export interface RefreshJobState {
+  id: string;
+  label: string;
+  status: RefreshJobStatus;
+  /** When the last successful refresh finished (ms). */
+  lastRefreshedAt: number | null;
+  lastError: TornError | null;
+  /** When the next refresh is due (ms); null while one is queued or running. */
+  nextRefreshAt: number | null;
+  /** Failed runs in a row. */
+  failures: number;
+}
+
+interface RefreshJob {
+  options: RefreshJobOptions;
+  state: RefreshJobState;
+  /** When the last run finished, or when the job was registered. */
+  lastRunAt: number;
+  timer: ReturnType<typeof setTimeout> | null;
+  /** Set while the job is queued or running. */
+  controller: AbortController | null;
+}
+
+/** Interval multiplier while the tab is hidden. */
+export const HIDDEN_BACKOFF = 5;
+/** Largest interval multiplier after failed runs. */
+export const MAX_FAILURE_BACKOFF = 8;
+const DEFAULT_BUDGET_SHARE = 0.25;
+/** How soon a job postponed for budget looks again. */
+const BUDGET_RECHECK_MS = 10_000;
+
+const jobs = new Map<string, RefreshJob>();
+const listeners = new Set<() => void>();
+const schedulerLimiter = new RateLimiter({ cooldownMs: 250 });
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+function isHidden(): boolean {
+  return typeof document !== 'undefined' && document.visibilityState === 'hidden';
+}
+
+function update(job: RefreshJob, changes: Partial<RefreshJobState>): void {
+  job.state = { ...job.state, ...changes };
+  notify();
+}
+
+/** Wait after the last run: the interval, stretched after failures and while hidden. */
+function delayAfterRun(job: RefreshJob): number {
+  const failureBackoff = Math.min(2 ** job.state.failures, MAX_FAILURE_BACKOFF);
+  return job.options.intervalMs * failureBackoff * (isHidden() ? HIDDEN_BACKOFF : 1);
+}
+
+function schedule(job: RefreshJob, delayMs: number, status: RefreshJobStatus = 'scheduled'): void {
+  if (job.timer !== null) clearTimeout(job.timer);
+  job.timer = setTimeout(() => runJob(job, false), delayMs);
+  update(job, { status, nextRefreshAt: Date.now() + delayMs });
+}
+
+/** Calls the job may make right now before dipping into the part of the budget kept for the user. */
+function backgroundCalls(job: RefreshJob): number {
+  if (!job.options.apiKey) return Infinity;
+  const budget = getTornBudget(job.options.apiKey);
+  const share = job.options.budgetShare ?? DEFAULT_BUDGET_SHARE;
+  return Math.max(0, Math.ceil(budget.remaining() - budget.limit * (1 - share)));
+}
+
+async function runJob(job: RefreshJob, force: boolean): Promise<void> {
+  if (jobs.get(job.options.id) !== job || job.controller !== null) return;
+  if (job.timer !== null) clearTimeout(job.timer);
+  job.timer = null;
+  if (!force && backgroundCalls(job) === 0) {
+    schedule(job, BUDGET_RECHECK_MS, 'postponed');
+    return;
+  }
+
+  const controller = new AbortController();
+  job.controller = controller;
+  update(job, { status: 'queued', nextRefreshAt: null });
+  let error: TornError | null;
+  try {
+    error = await schedulerLimiter.run(
+      async () => {
+        update(job, { status: 'running' });
+        // The budget may have moved while the job was queued
+        const callCap = force ? Infinity : backgroundCalls(job);
+        // Functions run by the limiter must not throw
+        try {
+          return await job.options.run(controller.signal, callCap);
+        } catch (runError) {
+          return networkError(job.options.label, runError);
+        }
+      },
+      { signal: controller.signal, priority: force ? 'interactive' : job.options.priority ?? 'background' }
+    );
+  } catch (limiterError) {
+    error = networkError(job.options.label, limiterError);
+  }
+  // Unregistered while it ran
+  if (controller.signal.aborted) return;
+
+  job.controller = null;
+  job.lastRunAt = Date.now();
+  if (error === null) {
+    update(job, { lastRefreshedAt: job.lastRunAt, lastError: null, failures: 0 });
+  } else {
+    update(job, { lastError: error, failures: job.state.failures + 1 });
+  }
+  schedule(job, delayAfterRun(job));
+}
+
+/**
+ * Adds a job and schedules its first refresh. Returns a function that removes
+ * it again, aborting a refresh in progress.
+ */
+export function registerRefreshJob(options: RefreshJobOptions): () => void {
+  unregisterRefreshJob(options.id);
+  const job: RefreshJob = {
+    options,
+    state: {
+      id: options.id,
+      label: options.label,
+      status: 'scheduled',
+      lastRefreshedAt: null,
+      lastError: null,
+      nextRefreshAt: null,
+      failures: 0,
+    },
+    lastRunAt: Date.now(),
+    timer: null,
+    controller: null,
+  };
+  jobs.set(options.id, job);
+  if (options.runImmediately) runJob(job, false);
+  else schedule(job, delayAfterRun(job));
+  return () => {
+    if (jobs.get(options.id) === job) unregisterRefreshJob(options.id);
+  };
+}
+
+export function unregisterRefreshJob(id: string): void {
+  const job = jobs.get(id);
+  if (!job) return;
+  if (job.timer !== null) clearTimeout(job.timer);
+  job.controller?.abort();
+  jobs.delete(id);
+  notify();
+}
+
+/** Runs the job now, whatever its budget share says; does nothing while it is already queued or running. */
+export function refreshNow(id: string): void {
+  const job = jobs.get(id);
+  if (job) runJob(job, true);
+}
+
+export function getRefreshJob(id: string): RefreshJobState | null {
+  return jobs.get(id)?.state ?? null;
+}
+
+/** Every registered job, in registration order. */
+export function getRefreshJobs(): RefreshJobState[] {
+  return Array.from(jobs.values()).map((job) => job.state);
+}
+
+/** Listen for job changes (registered, started, finished, rescheduled). Returns an unsubscribe function. */
+export function subscribeRefreshJobs(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Hidden: stretch the waits. Visible again: run what is overdue, reschedule the rest.
+if (typeof document !== 'undefined') {
+  document.addEventListener('visibilitychange', () => {
+    jobs.forEach((job) => {
+      if (job.controller !== null || job.state.status === 'postponed') return;
+      schedule(job, Math.max(0, job.lastRunAt + delayAfterRun(job) - Date.now()));
+    });
+  });
+}
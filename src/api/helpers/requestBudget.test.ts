@@ -0,0 +1,77 @@
+import { RequestBudget, getTornBudget } from './requestBudget';
+
+describe('RequestBudget', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should hand out calls until the window is full', async () => {
+    const budget = new RequestBudget({ limit: 3, windowMs: 60_000 });
+
+    await budget.acquire();
+    await budget.acquire();
+
+    expect(budget.remaining()).toBe(1);
+    expect(budget.getState().resetInMs).toBe(0);
+  });
+
+  it('should pause callers until the oldest call leaves the window', async () => {
+    const budget = new RequestBudget({ limit: 2, windowMs: 60_000 });
+    await budget.acquire();
+    await budget.acquire();
+
+    const resolved = jest.fn();
+    budget.acquire().then(resolved);
+    await Promise.resolve();
+
+    expect(resolved).not.toHaveBeenCalled();
+    expect(budget.getState().waiting).toBe(1);
+    expect(budget.getState().resetInMs).toBe(60_000);
+
+    jest.advanceTimersByTime(60_000);
+    await Promise.resolve();
+
+    expect(resolved).toHaveBeenCalled();
+    expect(budget.getState().waiting).toBe(0);
+  });
+
+  it('should let a waiting caller leave the line when its signal aborts', async () => {
+    const budget = new RequestBudget({ limit: 1, windowMs: 60_000 });
+    await budget.acquire();
+    const controller = new AbortController();
+
+    const waiting = budget.acquire(controller.signal);
+    expect(budget.getState().waiting).toBe(1);
+    controller.abort();
+
+    await expect(waiting).rejects.toMatchObject({ name: 'AbortError' });
+    expect(budget.getState().waiting).toBe(0);
+  });
+
+  it('should notify subscribers when calls are taken', async () => {
+    const budget = new RequestBudget({ limit: 5 });
+    const listener = jest.fn();
+    const unsubscribe = budget.subscribe(listener);
+
+    await budget.acquire();
+    expect(listener).toHaveBeenLastCalledWith(
+      expect.objectContaining({ limit: 5, remaining: 4 })
+    );
+
+    unsubscribe();
+    await budget.acquire();
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('getTornBudget', () => {
+  it('should share one budget per key', () => {
+    expect(getTornBudget('key-a')).toBe(getTornBudget('key-a'));
+    expect(getTornBudget('key-a')).not.toBe(getTornBudget('key-b'));
+    expect(getTornBudget('key-a').limit).toBe(100);
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Sliding-window request budget.
+ * Torn allows a fixed number of calls per minute per API key, counted across
+ * every endpoint. A budget records when each call started; once the window is
+ * full, acquire() waits until the oldest call ages out instead of letting the
+ * request fail. Budgets are shared per key via getTornBudget(), so every
+ * fetcher using the same key draws from the same pool.
+ */
+
+import { createAbortError } from './tornError';
+
+export interface RequestBudgetOptions {
+  /** Max calls allowed within one window. Default 100. */
+  limit?: number;
+  /** Window length in ms. Default 60_000. */
+  windowMs?: number;
+}
+
+/** Snapshot of a budget, for display. */
+export interface RequestBudgetState {
+  limit: number;
+  remaining: number;
+  /** Callers currently waiting for a slot. */
+  waiting: number;
+  /** Ms until the next slot frees up; 0 when calls are available. */
+  resetInMs: number;
+}
+
+type BudgetListener = (state: RequestBudgetState) => void;
+
+export class RequestBudget {
+  readonly limit: number;
+  readonly windowMs: number;
+  private calls: number[] = [];
+  private pausedUntil = 0;
+  private waiters: Array<() => void> = [];
+  private listeners = new Set<BudgetListener>();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: RequestBudgetOptions = {}) {
+    this.limit = options.limit ?? 100;
+    this.windowMs = options.windowMs ?? 60_000;
+  }
+
+  /** Calls still available in the current window. */
+  remaining(): number {
+    const now = Date.now();
+    this.prune(now);
+    if (now < this.pausedUntil) return 0;
+    return Math.max(0, this.limit - this.calls.length);
+  }
+
+  getState(): RequestBudgetState {
+    const now = Date.now();
+    return {
+      limit: this.limit,
+      remaining: this.remaining(),
+      waiting: this.waiters.length,
+      resetInMs: this.nextSlotInMs(now),
+    };
+  }
+
+  /**
+   * Treats the budget as used up for the given time, e.g. after the server
+   * answered "too many requests" for calls made outside this app.
+   */
+  pause(durationMs: number = this.windowMs): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + durationMs);
+    if (this.timer !== null) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.drain();
+  }
+
+  /**
+   * Takes one call from the budget. Resolves immediately when the window has
+   * room; otherwise waits (in FIFO order) until a slot frees up. If the signal
+   * aborts while waiting, the caller leaves the line and the promise rejects
+   * with an AbortError without using a call.
+   */
+  acquire(signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(createAbortError());
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        const index = this.waiters.indexOf(waiter);
+        if (index >= 0) {
+          this.waiters.splice(index, 1);
+          reject(createAbortError());
+          this.notify();
+        }
+      };
+      const waiter = () => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.waiters.push(waiter);
+      this.drain();
+    });
+  }
+
+  /** Listen for changes in remaining calls. Returns an unsubscribe function. */
+  subscribe(listener: BudgetListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private prune(now: number): void {
+    while (this.calls.length > 0 && now - this.calls[0] >= this.windowMs) {
+      this.calls.shift();
+    }
+  }
+
+  private nextSlotInMs(now: number): number {
+    this.prune(now);
+    if (now < this.pausedUntil) return this.pausedUntil - now;
+    if (this.calls.length < this.limit) return 0;
+    return Math.max(0, this.calls[0] + this.windowMs - now);
+  }
+
+  private drain(): void {
+    const now = Date.now();
+    this.prune(now);
+    while (this.waiters.length > 0 && now >= this.pausedUntil && this.calls.length < this.limit) {
+      this.calls.push(now);
+      this.waiters.shift()!();
+    }
+    if (this.waiters.length > 0 && this.timer === null) {
+      const waitMs = this.nextSlotInMs(now);
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.drain();
+      }, waitMs);
+    }
+    this.notify();
+  }
+
+  private notify(): void {
+    if (this.listeners.size === 0) return;
+    const state = this.getState();
+    this.listeners.forEach((listener) => listener(state));
+  }
+}
+
+/** Torn's documented ceiling per key. */
+export const TORN_CALLS_PER_MINUTE = 100;
+
+const tornBudgets = new Map<string, RequestBudget>();
+
+/**
+ * Returns the shared budget for a Torn API key, creating it on first use.
+ * Every Torn call made with this key should acquire() from it first.
+ */
+export function getTornBudget(apiKey: string): RequestBudget {
+  let budget = tornBudgets.get(apiKey);
+  if (!budget) {
+    budget = new RequestBudget({ limit: TORN_CALLS_PER_MINUTE, windowMs: 60_000 });
+    tornBudgets.set(apiKey, budget);
+  }
+  return budget;
+}
@@ -0,0 +1,69 @@
+import { Cache } from './cache';
+import { httpWrapper } from './httpWrapper';
+import { clearRequestLog, getRequestLog, loggedFetch, redactUrl } from './requestLog';
+
+describe('requestLog', () => {
+  const retry = { maxRetries: 0, isSuccess: () => true };
+
+  beforeEach(() => {
+    localStorage.clear();
+    clearRequestLog();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should redact the API key from URLs', () => {
+    expect(redactUrl('https://api.torn.com/v2/torn/bounties?key=abc123&limit=100')).toBe(
+      'https://api.torn.com/v2/torn/bounties?key=***&limit=100'
+    );
+    expect(redactUrl('https://ffscouter.com/api/v1/get-stats?targets=1&key=abc')).toBe(
+      'https://ffscouter.com/api/v1/get-stats?targets=1&key=***'
+    );
+  });
+
+  it('should log direct fetches with their HTTP status', async () => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: false, status: 502 });
+
+    await loggedFetch('https://api.torn.com/user/?key=secret');
+
+    expect(getRequestLog()).toEqual([
+      expect.objectContaining({
+        endpoint: 'https://api.torn.com/user/?key=***',
+        source: 'direct',
+        httpStatus: 502,
+        status: 'http',
+      }),
+    ]);
+  });
+
+  it('should attribute fetches inside httpWrapper to the wrapper call', async () => {
+    global.fetch = jest.fn().mockResolvedValue({ ok: true, status: 200 });
+    const run = async () => {
+      await loggedFetch('https://api.torn.com/v2/torn/bounties?key=secret');
+      return { data: 'value', error: null };
+    };
+
+    await httpWrapper({ retry, requestKey: 'bounties' }, run);
+
+    expect(getRequestLog()).toEqual([
+      expect.objectContaining({
+        endpoint: 'https://api.torn.com/v2/torn/bounties?key=***',
+        source: 'wrapper',
+        cache: 'none',
+        httpStatus: 200,
+        status: 'ok',
+      }),
+    ]);
+  });
+
+  it('should log cache hits without a request', async () => {
+    const cache = new Cache<string>({ storageKey: 'log-hit', maxStalenessMs: 60_000 });
+    await cache.set('cached');
+
+    await httpWrapper({ cache, retry, requestKey: 'hit' }, jest.fn());
+
+    expect(getRequestLog()).toEqual([expect.objectContaining({ cache: 'hit', status: 'ok', runMs: null })]);
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * In-memory log of API calls for the /debug page. httpWrapper records one entry
+ * per call (cache result, queue wait, run time, retries, outcome); fetchers that
+ * don't go through httpWrapper get an entry per HTTP request from loggedFetch().
+ *
+ * Only the last MAX_ENTRIES calls are kept, and nothing is persisted. API keys
+ * are redacted from every recorded URL.
+ */
+
+import { TornErrorKind, isAbortError, tornErrorFromBody } from './tornError';
+
+const MAX_ENTRIES = 500;
+
+/** How the cache answered: fresh hit, stale value served while refreshing, miss, or no cache used. */
+export type RequestCacheResult = 'hit' | 'stale' | 'miss' | 'none';
+
+export type RequestLogStatus = 'pending' | 'ok' | TornErrorKind;
+
+export interface RequestLogEntry {
+  id: number;
+  startedAt: number;
+  /** Redacted URL of the last HTTP request made, or the request key while none has been made. */
+  endpoint: string;
+  /** 'wrapper' for calls through httpWrapper, 'direct' for fetchers calling fetch themselves. */
+  source: 'wrapper' | 'direct';
+  cache: RequestCacheResult;
+  /** True when the call joined an identical request already in flight. */
+  shared: boolean;
+  /** Time spent in the rate limiter queue and waiting for the request budget. */
+  queueWaitMs: number | null;
+  /** Time spent in the request itself, summed over attempts. */
+  runMs: number | null;
+  retries: number;
+  httpStatus: number | null;
+  status: RequestLogStatus;
+  error: string | null;
+  finishedAt: number | null;
+}
+
+let entries: RequestLogEntry[] = [];
+let nextId = 1;
+/** Entry of the httpWrapper call whose request is being started, see withRequestLogEntry. */
+let currentEntryId: number | null = null;
+const listeners = new Set<() => void>();
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/** Replaces the value of the key query parameter with "***". */
+export function redactUrl(url: string): string {
+  return url.replace(/([?&]key=)[^&#]*/gi, '$1***');
+}
+
+/** Records the start of a call. Returns its entry id for updateRequestLog. */
+export function logRequestStart(
+  init: Pick<RequestLogEntry, 'endpoint' | 'source'> & Partial<Pick<RequestLogEntry, 'cache' | 'shared'>>
+): number {
+  const entry: RequestLogEntry = {
+    id: nextId++,
+    startedAt: Date.now(),
+    endpoint: redactUrl(init.endpoint),
+    source: init.source,
+    cache: init.cache ?? 'none',
+    shared: init.shared ?? false,
+    queueWaitMs: null,
+    runMs: null,
+    retries: 0,
+    httpStatus: null,
+    status: 'pending',
+    error: null,
+    finishedAt: null,
+  };
+  entries = [...entries.slice(-(MAX_ENTRIES - 1)), entry];
+  notify();
+  return entry.id;
+}
+
+/** Updates an entry; ignored once it has dropped out of the log. */
+export function updateRequestLog(id: number, patch: Partial<Omit<RequestLogEntry, 'id'>>): void {
+  const index = entries.findIndex((entry) => entry.id === id);
+  if (index < 0) return;
+  const updated = { ...entries[index], ...patch };
+  if (patch.status !== undefined && patch.status !== 'pending' && updated.finishedAt === null) {
+    updated.finishedAt = Date.now();
+  }
+  entries = [...entries.slice(0, index), updated, ...entries.slice(index + 1)];
+  notify();
+}
+
+/** Logged calls, oldest first. The array is replaced (not mutated) on every change. */
+export function getRequestLog(): RequestLogEntry[] {
+  return entries;
+}
+
+export function clearRequestLog(): void {
+  entries = [];
+  notify();
+}
+
+/** Listen for log changes. Returns an unsubscribe function. */
+export function subscribeRequestLog(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Runs fn with the given entry as the current call, so loggedFetch calls made
+ * synchronously inside it (before its first await) are attributed to that entry.
+ */
+export function withRequestLogEntry<T>(id: number, fn: () => T): T {
+  const previous = currentEntryId;
+  currentEntryId = id;
+  try {
+    return fn();
+  } finally {
+    currentEntryId = previous;
+  }
+}
+
+/**
+ * fetch() that records the request. Inside an httpWrapper call it only fills in
+ * that call's endpoint and HTTP status; otherwise it logs the request as its own
+ * 'direct' entry, including Torn errors reported in the response body.
+ */
+export async function loggedFetch(url: string, init?: RequestInit): Promise<Response> {
+  const parentId = currentEntryId;
+  const id = parentId ?? logRequestStart({ endpoint: url, source: 'direct' });
+  if (parentId !== null) updateRequestLog(parentId, { endpoint: redactUrl(url) });
+  const startedAt = Date.now();
+  try {
+    const response = await fetch(url, init);
+    if (parentId !== null) {
+      updateRequestLog(id, { httpStatus: response.status ?? null });
+      return response;
+    }
+    updateRequestLog(id, {
+      runMs: Date.now() - startedAt,
+      httpStatus: response.status ?? null,
+      status: response.ok ? 'ok' : 'http',
+      error: response.ok ? null : `HTTP ${response.status}`,
+    });
+    if (response.ok && typeof response.clone === 'function') {
+      // Torn reports errors (e.g. code 5, too many requests) in a 200 response body
+      response
+        .clone()
+        .json()
+        .then((body: unknown) => {
+          const tornError = tornErrorFromBody(body);
+          if (tornError) updateRequestLog(id, { status: 'torn', error: tornError.message });
+        })
+        .catch(() => undefined);
+    }
+    return response;
+  } catch (error) {
+    if (parentId === null) {
+      updateRequestLog(id, {
+        runMs: Date.now() - startedAt,
+        status: isAbortError(error) ? 'aborted' : 'network',
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+    throw error;
+  }
+}
@@ -0,0 +1,120 @@
+import { backoffDelay, withRetry } from './retry';
+import { tornRetryDecision } from './tornRetry';
+import { clearApiKeyFlag, getApiKeyFlag } from './apiKeyFlags';
+import { getTornBudget } from './requestBudget';
+import { httpError, networkError, tornApiError } from './tornError';
+
+describe('backoffDelay', () => {
+  it('should double per retry up to maxDelayMs without jitter', () => {
+    const options = { baseDelayMs: 100, maxDelayMs: 500, jitter: 0 };
+    expect(backoffDelay(0, options)).toBe(100);
+    expect(backoffDelay(1, options)).toBe(200);
+    expect(backoffDelay(2, options)).toBe(400);
+    expect(backoffDelay(3, options)).toBe(500);
+  });
+
+  it('should keep jittered delays within the randomized fraction', () => {
+    for (let i = 0; i < 20; i++) {
+      const delay = backoffDelay(1, { baseDelayMs: 100, jitter: 0.5 });
+      expect(delay).toBeGreaterThanOrEqual(100);
+      expect(delay).toBeLessThanOrEqual(200);
+    }
+  });
+});
+
+describe('withRetry', () => {
+  it('should retry until success', async () => {
+    const fn = jest
+      .fn()
+      .mockResolvedValueOnce({ ok: false })
+      .mockResolvedValueOnce({ ok: true });
+
+    const result = await withRetry(fn, {
+      maxRetries: 3,
+      baseDelayMs: 1,
+      isSuccess: (r: { ok: boolean }) => r.ok,
+    });
+
+    expect(result).toEqual({ ok: true });
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop when shouldRetry declines', async () => {
+    const fn = jest.fn().mockResolvedValue({ ok: false });
+
+    const result = await withRetry(fn, {
+      maxRetries: 3,
+      baseDelayMs: 1,
+      isSuccess: (r: { ok: boolean }) => r.ok,
+      shouldRetry: () => ({ retry: false }),
+    });
+
+    expect(result).toEqual({ ok: false });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should give up when the next delay exceeds maxElapsedMs', async () => {
+    const fn = jest.fn().mockRejectedValue(new Error('offline'));
+
+    await expect(
+      withRetry(fn, {
+        maxRetries: 5,
+        maxElapsedMs: 1_000,
+        shouldRetryError: () => ({ retry: true, delayMs: 5_000 }),
+      })
+    ).rejects.toThrow('offline');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop waiting and reject when aborted during backoff', async () => {
+    const fn = jest.fn().mockResolvedValue({ ok: false });
+    const controller = new AbortController();
+
+    const result = withRetry(fn, {
+      maxRetries: 3,
+      isSuccess: (r: { ok: boolean }) => r.ok,
+      shouldRetry: () => ({ retry: true, delayMs: 60_000 }),
+      signal: controller.signal,
+    });
+    await Promise.resolve();
+    controller.abort();
+
+    await expect(result).rejects.toThrow(expect.objectContaining({ name: 'AbortError' }));
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('tornRetryDecision', () => {
+  const apiKey = 'retry-test-key';
+  const decide = tornRetryDecision(apiKey);
+
+  afterEach(() => {
+    clearApiKeyFlag(apiKey);
+  });
+
+  it('should retry backend errors and server failures', () => {
+    expect(decide({ data: null, error: tornApiError(17, 'Backend error occurred') })).toEqual({ retry: true });
+    expect(decide({ data: null, error: httpError(503) })).toEqual({ retry: true });
+    expect(decide({ data: null, error: networkError('bounties', new Error('Network error')) })).toEqual({ retry: true });
+  });
+
+  it('should stop on IP block, disabled API and client errors', () => {
+    expect(decide({ data: null, error: tornApiError(8, 'IP block') })).toEqual({ retry: false });
+    expect(decide({ data: null, error: tornApiError(9, 'API disabled') })).toEqual({ retry: false });
+    expect(decide({ data: null, error: httpError(404) })).toEqual({ retry: false });
+  });
+
+  it('should stop and flag the key on incorrect key', () => {
+    expect(decide({ data: null, error: tornApiError(2, 'Incorrect key') })).toEqual({ retry: false });
+    expect(getApiKeyFlag(apiKey)).toEqual(
+      expect.objectContaining({ code: 2, message: 'Incorrect key' })
+    );
+  });
+
+  it('should pause the key budget and wait out the minute on too many requests', () => {
+    const decision = decide({ data: null, error: tornApiError(5, 'Too many requests') });
+
+    expect(decision).toEqual({ retry: true, delayMs: 60_000 });
+    expect(getTornBudget(apiKey).remaining()).toBe(0);
+  });
+});
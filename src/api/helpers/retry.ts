@@ -2,47 +2,119 @@
  * Retry mechanism for rate-limited API calls.
  * Wraps a function that goes through a rate limiter. On failure, the retry
  * calls the function again, so it acquires a new ticket and goes to the back
- * of the rate limiter queue.
+ * of the rate limiter queue. Retries wait with exponential backoff and jitter,
+ * and stop early when shouldRetry says the failure is permanent or when the
+ * next wait would exceed maxElapsedMs.
  */
 
+import { createAbortError } from './tornError';
+
+/** Whether to retry a failed attempt, optionally with a fixed delay instead of backoff. */
+export type RetryDecision = { retry: false } | { retry: true; delayMs?: number };
+
 export interface RetryOptions<T> {
   /** Maximum number of retries (total attempts = maxRetries + 1). */
   maxRetries: number;
   /**
    * If provided, a result is considered success only when this returns true.
    * Otherwise any resolved value is success. Use for result types like
-   * { data: T | null, error: string | null } with (r) => r.error == null.
+   * { data: T | null, error: TornError | null } with (r) => r.error == null.
    */
   isSuccess?: (value: T) => boolean;
+  /**
+   * Decides whether an unsuccessful result is worth retrying. Omit to retry
+   * every failure. See tornRetryDecision for the Torn API policy.
+   */
+  shouldRetry?: (value: T, attempt: number) => RetryDecision;
+  /** Decides whether a thrown error is worth retrying. Omit to retry every throw. */
+  shouldRetryError?: (error: unknown, attempt: number) => RetryDecision;
+  /** Delay before the first retry in ms; doubles on each further retry. Default 250. */
+  baseDelayMs?: number;
+  /** Upper bound for a single backoff delay in ms. Default 10_000. */
+  maxDelayMs?: number;
+  /**
+   * Fraction of each delay that is randomized (0 = none, 1 = full jitter), so
+   * parallel callers don't retry in lockstep. Default 0.5.
+   */
+  jitter?: number;
+  /**
+   * Give up instead of waiting when the next retry would start more than this
+   * many ms after the first attempt. Default 90_000.
+   */
+  maxElapsedMs?: number;
+  /** Stops retrying when aborted: the wait between attempts ends and withRetry rejects with an AbortError. */
+  signal?: AbortSignal;
+}
+
+const DEFAULT_BASE_DELAY_MS = 250;
+const DEFAULT_MAX_DELAY_MS = 10_000;
+const DEFAULT_JITTER = 0.5;
+const DEFAULT_MAX_ELAPSED_MS = 90_000;
+
+/**
+ * Exponential backoff delay for the given retry (0-based), with jitter applied.
+ */
+export function backoffDelay(
+  retry: number,
+  options: Pick<RetryOptions<unknown>, 'baseDelayMs' | 'maxDelayMs' | 'jitter'> = {}
+): number {
+  const base = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const max = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+  const jitter = Math.min(1, Math.max(0, options.jitter ?? DEFAULT_JITTER));
+  const delay = Math.min(max, base * 2 ** retry);
+  return Math.round(delay * (1 - jitter + jitter * Math.random()));
+}
+
+/** Waits ms; rejects with an AbortError as soon as the signal aborts. */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) return Promise.reject(createAbortError());
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
 }
 
 /**
  * Runs fn up to maxRetries+1 times. On failure (throw or isSuccess false),
  * retries by calling fn again—so when fn is a rate-limited call, each retry
- * goes through the rate limiter and ends up last in line.
+ * goes through the rate limiter and ends up last in line. Between attempts it
+ * waits for the backoff delay (or the delay given by shouldRetry).
  */
 export async function withRetry<T>(
   fn: () => Promise<T>,
   options: RetryOptions<T>
 ): Promise<T> {
-  const { maxRetries, isSuccess } = options;
-  let lastResult: T | undefined;
-  let lastError: unknown;
+  const { maxRetries, isSuccess, shouldRetry, shouldRetryError, signal } = options;
+  const maxElapsedMs = options.maxElapsedMs ?? DEFAULT_MAX_ELAPSED_MS;
+  const startedAt = Date.now();
 
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+  // Returns the delay before the next attempt, or null to give up.
+  const nextDelay = (attempt: number, decision: RetryDecision): number | null => {
+    if (!decision.retry || attempt >= maxRetries) return null;
+    const delayMs = decision.delayMs ?? backoffDelay(attempt, options);
+    if (Date.now() + delayMs - startedAt > maxElapsedMs) return null;
+    return delayMs;
+  };
+
+  for (let attempt = 0; ; attempt++) {
+    let delayMs: number | null;
     try {
       const result = await fn();
-      if (isSuccess && !isSuccess(result)) {
-        lastResult = result;
-        if (attempt < maxRetries) continue;
-        return lastResult;
-      }
-      return result;
+      if (!isSuccess || isSuccess(result)) return result;
+      delayMs = nextDelay(attempt, shouldRetry ? shouldRetry(result, attempt) : { retry: true });
+      if (delayMs === null) return result;
     } catch (e) {
-      lastError = e;
-      if (attempt >= maxRetries) throw e;
+      delayMs = nextDelay(attempt, shouldRetryError ? shouldRetryError(e, attempt) : { retry: true });
+      if (delayMs === null) throw e;
     }
+    if (delayMs > 0) await sleep(delayMs, signal);
+    else if (signal?.aborted) throw createAbortError();
   }
-
-  throw lastError;
 }
@@ -0,0 +1,88 @@
+import {
+  array,
+  boolean,
+  literal,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  parseResponse,
+  record,
+  string,
+} from './schema';
+
+interface Member {
+  name: string;
+  level: number;
+  active: boolean;
+  title: string | null;
+  rank?: 'leader' | 'member';
+}
+
+const memberSchema = object<Member>({
+  name: string(),
+  level: number(),
+  active: boolean(),
+  title: nullable(string()),
+  rank: optional(literal('leader', 'member')),
+});
+
+describe('schema', () => {
+  it('should accept matching values and ignore extra fields', () => {
+    const body = { name: 'Alice', level: 10, active: true, title: null, added_later: 1 };
+
+    expect(parseResponse(body, memberSchema, 'member')).toEqual({ data: body, error: null });
+  });
+
+  it('should name the first malformed field in nested arrays and records', () => {
+    const schema = object<{ teams: Record<string, Member[]> }>({ teams: record(array(memberSchema)) });
+    const body = {
+      teams: {
+        red: [
+          { name: 'Alice', level: 10, active: true, title: null },
+          { name: 'Bob', level: '12', active: true, title: null },
+        ],
+      },
+    };
+
+    expect(parseResponse(body, schema, 'teams')).toEqual({
+      data: null,
+      error: {
+        kind: 'validation',
+        message: 'Unexpected teams response: teams.red[1].level should be a number',
+        field: 'teams.red[1].level',
+        invalidResponse: true,
+      },
+    });
+  });
+
+  it('should reject missing required fields and unknown literal values', () => {
+    expect(memberSchema.check({ name: 'Alice', level: 1, active: true }, '')).toEqual({
+      path: 'title',
+      expected: 'a string',
+    });
+    expect(memberSchema.check({ name: 'A', level: 1, active: true, title: null, rank: 'boss' }, '')).toEqual({
+      path: 'rank',
+      expected: 'one of leader, member',
+    });
+  });
+
+  it('should report a wrong root type without a field', () => {
+    const result = parseResponse('oops', array(number()), 'stats');
+
+    expect(result.error).toEqual({
+      kind: 'validation',
+      message: 'Unexpected stats response: response should be an array',
+      invalidResponse: true,
+    });
+  });
+
+  it('should accept a value matching either alternative of oneOf', () => {
+    const schema = oneOf(number(), string());
+
+    expect(schema.check(1, '')).toBeNull();
+    expect(schema.check('1', '')).toBeNull();
+    expect(schema.check(true, '')).toEqual({ path: '', expected: 'a number' });
+  });
+});
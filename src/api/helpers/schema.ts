@@ -0,0 +1,140 @@
+/**
+ * Lightweight runtime validation for API responses.
+ * Fetchers describe the response shape they rely on with the builders below and
+ * run the parsed body through parseResponse() instead of casting it. A mismatch
+ * becomes a 'validation' TornError naming the malformed field (e.g.
+ * "rentals.listings[3].cost"), so pages show an error instead of crashing in render.
+ *
+ * Objects only check the fields listed in their shape; extra fields are allowed,
+ * so Torn adding fields never breaks a page.
+ */
+
+import { DataOrError } from './httpWrapper';
+import { invalidResponseError } from './tornError';
+
+/** Where a value did not match its schema. */
+export interface SchemaIssue {
+  /** Path to the field, e.g. "company.employees.123.status". Empty for the root value. */
+  path: string;
+  /** What was expected there, e.g. "a number". */
+  expected: string;
+}
+
+export interface Schema<T> {
+  /** Returns the first mismatch found, or null when the value matches. */
+  check(value: unknown, path: string): SchemaIssue | null;
+  /** Never set; ties the schema to the type it describes. */
+  readonly type?: T;
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path === '' ? key : `${path}.${key}`;
+}
+
+function primitive<T>(expected: string, test: (value: unknown) => boolean): Schema<T> {
+  return { check: (value, path) => (test(value) ? null : { path, expected }) };
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function string(): Schema<string> {
+  return primitive('a string', (v) => typeof v === 'string');
+}
+
+export function number(): Schema<number> {
+  return primitive('a number', (v) => typeof v === 'number' && !Number.isNaN(v));
+}
+
+export function boolean(): Schema<boolean> {
+  return primitive('a boolean', (v) => typeof v === 'boolean');
+}
+
+/** One of the given string values. */
+export function literal<T extends string>(...values: T[]): Schema<T> {
+  return primitive(`one of ${values.join(', ')}`, (v) => values.includes(v as T));
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return { check: (value, path) => (value === null ? null : schema.check(value, path)) };
+}
+
+/** For fields the API may leave out. */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return { check: (value, path) => (value === undefined ? null : schema.check(value, path)) };
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return {
+    check: (value, path) => {
+      if (!Array.isArray(value)) return { path, expected: 'an array' };
+      for (let i = 0; i < value.length; i++) {
+        const issue = item.check(value[i], join(path, i));
+        if (issue) return issue;
+      }
+      return null;
+    },
+  };
+}
+
+/** An object keyed by IDs or names, every value matching the same schema. */
+export function record<T>(item: Schema<T>): Schema<Record<string, T>> {
+  return {
+    check: (value, path) => {
+      if (!isPlainObject(value)) return { path, expected: 'an object' };
+      for (const key of Object.keys(value)) {
+        const issue = item.check(value[key], join(path, key));
+        if (issue) return issue;
+      }
+      return null;
+    },
+  };
+}
+
+/**
+ * An object with the given fields. Pass the type explicitly (object<Bounty>({ ... }))
+ * so the compiler checks that every field has a schema.
+ */
+export function object<T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+  return {
+    check: (value, path) => {
+      if (!isPlainObject(value)) return { path, expected: 'an object' };
+      for (const key of Object.keys(shape) as Array<keyof T & string>) {
+        const issue = shape[key].check(value[key], join(path, key));
+        if (issue) return issue;
+      }
+      return null;
+    },
+  };
+}
+
+/** Matches when any of the schemas matches; reports the first schema's mismatch otherwise. */
+export function oneOf<A, B>(first: Schema<A>, second: Schema<B>): Schema<A | B> {
+  return {
+    check: (value, path) => {
+      const issue = first.check(value, path);
+      return issue && second.check(value, path) ? issue : null;
+    },
+  };
+}
+
+/**
+ * Checks a response body against its schema.
+ * @param body - Parsed JSON (after tornErrorFromBody found no Torn error)
+ * @param schema - Expected shape
+ * @param what - What was fetched, for the error message (e.g. 'rentals')
+ */
+export function parseResponse<T>(body: unknown, schema: Schema<T>, what: string): DataOrError<T> {
+  const issue = schema.check(body, '');
+  if (!issue) return { data: body as T, error: null };
+  const field = issue.path === '' ? 'response' : issue.path;
+  return {
+    data: null,
+    error: invalidResponseError(
+      `Unexpected ${what} response: ${field} should be ${issue.expected}`,
+      issue.path || undefined
+    ),
+  };
+}
@@ -0,0 +1,117 @@
+/**
+ * Typed errors returned by every fetcher in place of free-form strings.
+ * `kind` tells callers what went wrong so they can react (send the user to
+ * Settings on a rejected key, show a countdown when rate limited, ...);
+ * `message` is always ready to show in a toast.
+ */
+
+export type TornError =
+  /** fetch() threw: offline, DNS, CORS, ... */
+  | { kind: 'network'; message: string }
+  /** The request did not finish within its timeout. */
+  | { kind: 'timeout'; message: string; timeoutMs: number }
+  /** The server answered with a non-2xx status. */
+  | { kind: 'http'; message: string; status: number }
+  /** Torn answered with an { error: { code, error } } body. */
+  | { kind: 'torn'; message: string; code: number; reason: string }
+  /** Bad input, or (with invalidResponse) a response that does not have the expected shape. */
+  | { kind: 'validation'; message: string; field?: string; invalidResponse?: true }
+  /** The caller cancelled the request. */
+  | { kind: 'aborted'; message: string };
+
+export type TornErrorKind = TornError['kind'];
+
+/**
+ * Torn error codes that reject the key itself: incorrect, owner in jail,
+ * disabled, paused. The key is flagged and nothing is retried with it.
+ */
+export const TORN_KEY_REJECTED_CODES = [2, 10, 13, 18];
+
+/**
+ * Torn error codes that mean the key itself can't be used as-is. Besides the
+ * rejected keys this has 1 (empty key) and 16 (access level too low), which say
+ * nothing about the key in general: another key may do, but the key is not
+ * flagged for them.
+ */
+export const TORN_KEY_ERROR_CODES = [1, ...TORN_KEY_REJECTED_CODES, 16];
+
+export const TORN_ERROR_TOO_MANY_REQUESTS = 5;
+
+/** The key's access level is too low for the selection. */
+export const TORN_ERROR_ACCESS_LEVEL = 16;
+
+/** True for the error fetch(), RateLimiter and RequestBudget throw when their AbortSignal fires. */
+export function isAbortError(error: unknown): boolean {
+  return typeof error === 'object' && error !== null && (error as { name?: unknown }).name === 'AbortError';
+}
+
+/** The error to throw when an AbortSignal cancels waiting for a queue or budget slot. */
+export function createAbortError(): Error {
+  const error = new Error('The operation was aborted');
+  error.name = 'AbortError';
+  return error;
+}
+
+/** Error for a failed fetch(); a cancelled fetch becomes an 'aborted' error instead. */
+export function networkError(context: string, error: unknown): TornError {
+  if (isAbortError(error)) return abortedError();
+  const detail = error instanceof Error ? error.message : 'Unknown error';
+  return { kind: 'network', message: `Failed to fetch ${context}: ${detail}` };
+}
+
+export function timeoutError(timeoutMs: number): TornError {
+  return { kind: 'timeout', message: `Request timed out after ${timeoutMs}ms`, timeoutMs };
+}
+
+export function httpError(status: number): TornError {
+  return { kind: 'http', message: `HTTP error! status: ${status}`, status };
+}
+
+export function tornApiError(code: number, reason: string): TornError {
+  return { kind: 'torn', message: `Torn API Error (${code}): ${reason}`, code, reason };
+}
+
+export function validationError(message: string, field?: string): TornError {
+  return field === undefined
+    ? { kind: 'validation', message }
+    : { kind: 'validation', message, field };
+}
+
+/** Error for a response body that does not have the expected shape. */
+export function invalidResponseError(message: string, field?: string): TornError {
+  return field === undefined
+    ? { kind: 'validation', message, invalidResponse: true }
+    : { kind: 'validation', message, field, invalidResponse: true };
+}
+
+export function abortedError(): TornError {
+  return { kind: 'aborted', message: 'Request was cancelled' };
+}
+
+/**
+ * Returns the Torn error carried by a response body ({ error: { code, error } }),
+ * or null when the body is not an error.
+ */
+export function tornErrorFromBody(body: unknown): TornError | null {
+  if (typeof body !== 'object' || body === null || !('error' in body)) return null;
+  const { error } = body as { error: unknown };
+  if (typeof error !== 'object' || error === null) return null;
+  const { code, error: reason } = error as { code?: unknown; error?: unknown };
+  return tornApiError(
+    typeof code === 'number' ? code : 0,
+    typeof reason === 'string' ? reason : 'Unknown error'
+  );
+}
+
+/** True when the error means the user has to fix their API key (or its access level). */
+export function isKeyError(error: TornError | null): boolean {
+  return error?.kind === 'torn' && TORN_KEY_ERROR_CODES.includes(error.code);
+}
+
+/** True when the error means the key ran out of calls for this minute. */
+export function isRateLimited(error: TornError | null): boolean {
+  return (
+    (error?.kind === 'torn' && error.code === TORN_ERROR_TOO_MANY_REQUESTS) ||
+    (error?.kind === 'http' && error.status === 429)
+  );
+}
@@ -0,0 +1,54 @@
+/**
+ * Shared request step for Torn fetchers: GET the URL, turn HTTP and Torn
+ * errors into TornErrors, and check the body against the fetcher's schema.
+ */
+
+import { DataOrError } from './httpWrapper';
+import { loggedFetch } from './requestLog';
+import { Schema, parseResponse } from './schema';
+import { httpError, networkError, tornErrorFromBody } from './tornError';
+
+/**
+ * @param url - Full URL including the key
+ * @param schema - Expected response shape
+ * @param what - What is fetched, for error messages (e.g. 'company types')
+ */
+export function fetchTornJson<T>(
+  url: string,
+  schema: Schema<T>,
+  what: string,
+  signal?: AbortSignal
+): Promise<DataOrError<T>> {
+  return fetchTornResponse(url, (body) => parseResponse(body, schema, what), what, signal);
+}
+
+/**
+ * Like fetchTornJson, with a function reading the body instead of a schema,
+ * e.g. to pick several selections out of one response.
+ */
+export async function fetchTornResponse<T>(
+  url: string,
+  read: (body: unknown) => DataOrError<T>,
+  what: string,
+  signal?: AbortSignal
+): Promise<DataOrError<T>> {
+  try {
+    const response = await loggedFetch(url, { signal });
+    if (!response.ok) {
+      return { data: null, error: httpError(response.status) };
+    }
+    const data = await response.json();
+    const tornError = tornErrorFromBody(data);
+    if (tornError) {
+      return { data: null, error: tornError };
+    }
+    return read(data);
+  } catch (error) {
+    return { data: null, error: networkError(what, error) };
+  }
+}
+
+/** Maps the data of a successful result, passing errors through. */
+export function mapData<T, U>(result: DataOrError<T>, map: (data: T) => U): DataOrError<U> {
+  return result.data === null ? { data: null, error: result.error } : { data: map(result.data), error: null };
+}
@@ -0,0 +1,68 @@
+/**
+ * Retry policy for Torn API results.
+ * Decides per Torn error code whether an attempt is worth repeating:
+ * - 5 (too many requests) and HTTP 429: pause the key's budget and wait out the minute
+ * - 0, 12, 15, 17 (unknown, key read, temporary, backend error), HTTP 5xx, network failures and timeouts: back off and retry
+ * - 2, 10, 13, 18 (incorrect, owner in jail, disabled, paused key): stop and flag the key
+ * - everything else (IP block, API disabled, wrong selections, validation, ...): stop
+ */
+
+import { DataOrError } from './httpWrapper';
+import { flagApiKey } from './apiKeyFlags';
+import { getTornBudget } from './requestBudget';
+import { RetryDecision, RetryOptions } from './retry';
+import { TORN_ERROR_TOO_MANY_REQUESTS, TORN_KEY_REJECTED_CODES } from './tornError';
+
+const RETRYABLE_CODES = [0, 12, 15, 17];
+
+/**
+ * Returns a shouldRetry function applying the Torn policy for the given key.
+ * Side effects (pausing the budget, flagging the key) apply to every caller
+ * sharing the key, not just the current request.
+ */
+export function tornRetryDecision(apiKey: string): (result: DataOrError<unknown>) => RetryDecision {
+  const waitOutTheMinute = (): RetryDecision => {
+    const budget = getTornBudget(apiKey);
+    budget.pause();
+    return { retry: true, delayMs: budget.windowMs };
+  };
+
+  return ({ error }) => {
+    if (error === null) return { retry: false };
+
+    switch (error.kind) {
+      case 'torn':
+        if (error.code === TORN_ERROR_TOO_MANY_REQUESTS) return waitOutTheMinute();
+        if (TORN_KEY_REJECTED_CODES.includes(error.code)) {
+          flagApiKey(apiKey, error.code, error.reason);
+          return { retry: false };
+        }
+        return { retry: RETRYABLE_CODES.includes(error.code) };
+      case 'http':
+        if (error.status === 429) return waitOutTheMinute();
+        return { retry: error.status >= 500 };
+      case 'network':
+      case 'timeout':
+        return { retry: true };
+      case 'validation':
+      case 'aborted':
+        return { retry: false };
+    }
+  };
+}
+
+/**
+ * Retry options for a Torn API call: success means no error, and failures
+ * are retried per tornRetryDecision. Pass overrides for backoff, caps, etc.
+ */
+export function tornRetry<T>(
+  apiKey: string,
+  overrides: Partial<RetryOptions<DataOrError<T>>> = {}
+): RetryOptions<DataOrError<T>> {
+  return {
+    maxRetries: 2,
+    isSuccess: (r) => r.error === null,
+    shouldRetry: tornRetryDecision(apiKey),
+    ...overrides,
+  };
+}
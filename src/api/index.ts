@@ -3,10 +3,21 @@
  */
 
 export * from './helpers/cache';
+export * from './helpers/cacheStore';
+export * from './helpers/cacheRegistry';
 export * from './helpers/httpWrapper';
 export * from './helpers/rateLimiter';
+export * from './helpers/requestBudget';
 export * from './helpers/retry';
+export * from './helpers/tornRetry';
+export * from './helpers/apiKeyFlags';
+export * from './helpers/apiConfig';
+export * from './helpers/apiGeneration';
+export * from './helpers/requestLog';
+export * from './helpers/refreshScheduler';
+export * from './helpers/tornError';
 export * from './bounty/tornBounties';
+export * from './bounty/bountyTargets';
 export * from './ffscouter/ffScouter';
 export * from './user/tornUserProfileV1';
 export * from './properties/properties';
@@ -15,3 +26,7 @@ export * from './company/companyTypes';
 export * from './company/companies';
 export * from './user/workStats';
 export * from './user/userPersonalStats';
+export * from './user/userData';
+export * from './key/keyInfo';
+export * from './key/keyCapabilities';
+export * from './key/keyPool';
@@ -0,0 +1,72 @@
+/**
+ * What each page (or part of a page) needs from the Torn API key, and whether
+ * a checked key can serve it. Predefined keys are judged by their access
+ * level; custom keys by the selections they list.
+ */
+
+import { TornAccessLevel, TornKeyInfo } from './keyInfo';
+
+export type TornFeature =
+  | 'bounties'
+  | 'bounty-status'
+  | 'elimination'
+  | 'auction-house'
+  | 'rentals'
+  | 'companies'
+  | 'company-employees'
+  | 'employee-stats'
+  | 'company-specials'
+  | 'work-stats';
+
+export interface TornFeatureRequirement {
+  label: string;
+  /** Lowest predefined access level that includes every selection below. */
+  minLevel: Exclude<TornAccessLevel, 'custom'>;
+  /** Selections used, as "section.selection". */
+  selections: string[];
+}
+
+export const TORN_FEATURES: Record<TornFeature, TornFeatureRequirement> = {
+  bounties: { label: 'Bounties', minLevel: 'public', selections: ['torn.bounties'] },
+  'bounty-status': { label: 'Bounty target status', minLevel: 'public', selections: ['user.profile'] },
+  elimination: {
+    label: 'Elimination',
+    minLevel: 'public',
+    selections: ['torn.elimination', 'torn.eliminationteam'],
+  },
+  'auction-house': { label: 'Auction house', minLevel: 'public', selections: ['market.auctionhouse'] },
+  rentals: { label: 'Rentals', minLevel: 'public', selections: ['torn.properties', 'market.rentals'] },
+  companies: {
+    label: 'Companies',
+    minLevel: 'minimal',
+    selections: ['torn.companies', 'company.companies', 'company.profile', 'user.workstats'],
+  },
+  'company-employees': {
+    label: 'Company employees',
+    minLevel: 'public',
+    selections: ['company.profile', 'user.profile'],
+  },
+  'employee-stats': { label: 'Employee personal stats', minLevel: 'public', selections: ['user.personalstats'] },
+  'company-specials': { label: 'Company specials', minLevel: 'public', selections: ['torn.companies'] },
+  'work-stats': { label: 'Your work stats', minLevel: 'minimal', selections: ['user.workstats'] },
+};
+
+const LEVEL_ORDER: TornAccessLevel[] = ['public', 'minimal', 'limited', 'full'];
+
+/** Selections the feature needs that the key does not grant. */
+export function missingSelections(info: TornKeyInfo, feature: TornFeature): string[] {
+  return TORN_FEATURES[feature].selections.filter((selection) => {
+    const [section, name] = selection.split('.');
+    return !(info.selections[section] ?? []).includes(name);
+  });
+}
+
+/**
+ * Whether the key can serve the feature: true for predefined keys at or above
+ * its minLevel, otherwise only when every selection it uses is granted.
+ */
+export function canUseFeature(info: TornKeyInfo, feature: TornFeature): boolean {
+  const level = LEVEL_ORDER.indexOf(info.accessLevel);
+  if (level >= 0 && level >= LEVEL_ORDER.indexOf(TORN_FEATURES[feature].minLevel)) return true;
+  return missingSelections(info, feature).length === 0;
+}
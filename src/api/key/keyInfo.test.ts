@@ -0,0 +1,93 @@
+import { canUseFeature, missingSelections } from './keyCapabilities';
+import { TornKeyInfo, ensureTornKeyInfo, fetchTornKeyInfo, getTornKeyInfo } from './keyInfo';
+
+describe('keyInfo', () => {
+  const keyInfoBody = {
+    info: {
+      selections: { torn: ['bounties', 'companies'], user: ['basic', 'profile'], company: ['profile'] },
+      access: { level: 3, type: 'Limited Access', faction: false, company: false },
+      user: { id: 1, faction_id: null, company_id: null },
+    },
+  };
+  const userBasicBody = { player_id: 1, name: 'Alice', level: 10, gender: 'Female' };
+
+  beforeEach(() => {
+    localStorage.clear();
+    global.fetch = jest.fn(async (url: string) => ({
+      ok: true,
+      status: 200,
+      json: async () => (url.includes('/v2/key/info') ? keyInfoBody : userBasicBody),
+    })) as jest.Mock;
+  });
+
+  it('should report access level, owner and selections, and remember them', async () => {
+    const result = await fetchTornKeyInfo('limited-key');
+
+    expect(result.error).toBeNull();
+    expect(result.data).toEqual(
+      expect.objectContaining({
+        accessLevel: 'limited',
+        accessType: 'Limited Access',
+        owner: { id: 1, name: 'Alice' },
+        selections: keyInfoBody.info.selections,
+      })
+    );
+    expect(getTornKeyInfo('limited-key')).toBe(result.data);
+  });
+
+  it('should return Torn errors without remembering the key', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ error: { code: 2, error: 'Incorrect Key' } }),
+    });
+
+    const result = await fetchTornKeyInfo('wrong-key');
+
+    expect(result.error).toEqual(expect.objectContaining({ kind: 'torn', code: 2 }));
+    expect(getTornKeyInfo('wrong-key')).toBeNull();
+  });
+
+  it('should not repeat a failed automatic check until the key is tested again', async () => {
+    global.fetch = jest.fn().mockResolvedValue({
+      ok: true,
+      status: 200,
+      json: async () => ({ error: { code: 2, error: 'Incorrect Key' } }),
+    });
+    expect(await ensureTornKeyInfo('retry-key')).toBeNull();
+
+    global.fetch = jest.fn(async (url: string) => ({
+      ok: true,
+      status: 200,
+      json: async () => (url.includes('/v2/key/info') ? keyInfoBody : userBasicBody),
+    })) as jest.Mock;
+    expect(await ensureTornKeyInfo('retry-key')).toBeNull();
+    expect(global.fetch).not.toHaveBeenCalled();
+
+    await fetchTornKeyInfo('retry-key');
+    expect(await ensureTornKeyInfo('retry-key')).toEqual(expect.objectContaining({ accessLevel: 'limited' }));
+  });
+
+  describe('canUseFeature', () => {
+    const info = (accessLevel: TornKeyInfo['accessLevel'], user: string[]): TornKeyInfo => ({
+      accessLevel,
+      accessType: accessLevel,
+      selections: { user },
+      owner: { id: 1, name: 'Alice' },
+      checkedAt: 0,
+    });
+
+    it('should judge predefined keys by their access level', () => {
+      expect(canUseFeature(info('public', []), 'work-stats')).toBe(false);
+      expect(canUseFeature(info('minimal', []), 'work-stats')).toBe(true);
+      expect(canUseFeature(info('public', []), 'employee-stats')).toBe(true);
+      expect(canUseFeature(info('public', []), 'companies')).toBe(false);
+    });
+
+    it('should judge custom keys by their selections', () => {
+      expect(canUseFeature(info('custom', ['workstats']), 'work-stats')).toBe(true);
+      expect(canUseFeature(info('custom', ['profile']), 'employee-stats')).toBe(false);
+      expect(missingSelections(info('custom', ['profile']), 'employee-stats')).toEqual(['user.personalstats']);
+    });
+  });
+});
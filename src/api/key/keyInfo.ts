@@ -0,0 +1,153 @@
+/**
+ * Torn API key verification: what the key may access and who owns it.
+ * Uses the v2 key/info endpoint for the access level and granted selections,
+ * and user/?selections=basic for the owner's name.
+ *
+ * Results are kept in memory per key for the session (like apiKeyFlags), so
+ * pages can check what the key allows without asking Torn again; see
+ * keyCapabilities.ts for what each page needs.
+ */
+
+import { tornApiUrl } from '../helpers/apiConfig';
+import { httpWrapper, DataOrError, RequestOptions } from '../helpers/httpWrapper';
+import { getTornBudget } from '../helpers/requestBudget';
+import { array, number, object, record, string } from '../helpers/schema';
+import { fetchTornJson } from '../helpers/tornFetch';
+import { tornRetry } from '../helpers/tornRetry';
+import { validationError } from '../helpers/tornError';
+
+/** Predefined Torn key levels, lowest first; 'custom' keys grant a hand-picked list of selections. */
+export type TornAccessLevel = 'public' | 'minimal' | 'limited' | 'full' | 'custom';
+
+export interface TornKeyInfo {
+  accessLevel: TornAccessLevel;
+  /** Torn's name for the access level, e.g. "Limited Access". */
+  accessType: string;
+  /** Selections the key grants, per section (user, torn, market, company, ...). */
+  selections: Record<string, string[]>;
+  owner: { id: number; name: string };
+  checkedAt: number;
+}
+
+interface KeyInfoResponse {
+  info: {
+    selections: Record<string, string[]>;
+    access: { level: number; type: string };
+    user: { id: number };
+  };
+}
+
+interface UserBasicResponse {
+  player_id: number;
+  name: string;
+}
+
+const keyInfoResponseSchema = object<KeyInfoResponse>({
+  info: object<KeyInfoResponse['info']>({
+    selections: record(array(string())),
+    access: object<KeyInfoResponse['info']['access']>({ level: number(), type: string() }),
+    user: object<KeyInfoResponse['info']['user']>({ id: number() }),
+  }),
+});
+
+const userBasicResponseSchema = object<UserBasicResponse>({
+  player_id: number(),
+  name: string(),
+});
+
+/** Torn's access.level numbers for the predefined key levels. */
+const ACCESS_LEVELS: Record<number, TornAccessLevel> = {
+  1: 'public',
+  2: 'minimal',
+  3: 'limited',
+  4: 'full',
+};
+
+const keyInfos = new Map<string, TornKeyInfo>();
+/**
+ * Automatic checks per key, so a key is not checked twice at once. A failed
+ * check stays here too, so it is not repeated on every page mount; testing
+ * the key again (fetchTornKeyInfo) clears it.
+ */
+const autoChecks = new Map<string, Promise<TornKeyInfo | null>>();
+const listeners = new Set<() => void>();
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/** Result of the last successful check of this key in this session, or null. */
+export function getTornKeyInfo(apiKey: string): TornKeyInfo | null {
+  return keyInfos.get(apiKey) ?? null;
+}
+
+/** Listen for key info changes. Returns an unsubscribe function. */
+export function subscribeTornKeyInfo(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Asks Torn what the key may access and who owns it, and remembers the answer
+ * for getTornKeyInfo. Costs two calls from the key's budget.
+ */
+export function fetchTornKeyInfo(
+  apiKey: string,
+  options: Pick<RequestOptions<unknown>, 'signal' | 'priority'> = {}
+): Promise<DataOrError<TornKeyInfo>> {
+  // An explicit check replaces whatever the automatic one found
+  autoChecks.delete(apiKey);
+  return checkTornKeyInfo(apiKey, options);
+}
+
+async function checkTornKeyInfo(
+  apiKey: string,
+  options: Pick<RequestOptions<unknown>, 'signal' | 'priority'>
+): Promise<DataOrError<TornKeyInfo>> {
+  if (!apiKey || apiKey.trim() === '') {
+    return { data: null, error: validationError('API key is required', 'apiKey') };
+  }
+  const wrapperOptions = { ...options, budget: getTornBudget(apiKey), retry: tornRetry(apiKey) };
+
+  const info = await httpWrapper<KeyInfoResponse>(wrapperOptions, (signal) =>
+    fetchTornJson(`${tornApiUrl()}/v2/key/info?key=${apiKey}`, keyInfoResponseSchema, 'key info', signal)
+  );
+  if (!info.data) return { data: null, error: info.error };
+
+  const owner = await httpWrapper<UserBasicResponse>(wrapperOptions, (signal) =>
+    fetchTornJson(`${tornApiUrl()}/user/?selections=basic&key=${apiKey}`, userBasicResponseSchema, 'key owner', signal)
+  );
+  if (!owner.data) return { data: null, error: owner.error };
+
+  const { access, selections } = info.data.info;
+  const keyInfo: TornKeyInfo = {
+    accessLevel: ACCESS_LEVELS[access.level] ?? 'custom',
+    accessType: access.type,
+    selections,
+    owner: { id: owner.data.player_id, name: owner.data.name },
+    checkedAt: Date.now(),
+  };
+  keyInfos.set(apiKey, keyInfo);
+  notify();
+  return { data: keyInfo, error: null };
+}
+
+/**
+ * Key info for pages: the remembered result, or a check started in the
+ * background the first time the key is seen. Resolves to null when the check
+ * fails; pages should then carry on as if the key allowed everything and let
+ * their own requests report the problem. A failed check is not repeated until
+ * the key is tested again from Settings.
+ */
+export function ensureTornKeyInfo(apiKey: string): Promise<TornKeyInfo | null> {
+  const known = getTornKeyInfo(apiKey);
+  if (known) return Promise.resolve(known);
+  let check = autoChecks.get(apiKey);
+  if (!check) {
+    check = checkTornKeyInfo(apiKey, { priority: 'background' }).then((result) => result.data);
+    autoChecks.set(apiKey, check);
+  }
+  return check;
+}
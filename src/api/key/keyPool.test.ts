@@ -0,0 +1,77 @@
+import { clearApiKeyFlag, flagApiKey } from '../helpers/apiKeyFlags';
+import { getTornBudget } from '../helpers/requestBudget';
+import { tornApiError } from '../helpers/tornError';
+import { addPooledTornKey, getTornKeyPool, pickTornKey, rankTornKeys, setTornKeyPool, withTornKey } from './keyPool';
+
+describe('keyPool', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    ['personal', 'own-key', 'shared-a', 'shared-b'].forEach(clearApiKeyFlag);
+  });
+
+  it('should store named keys in order', () => {
+    addPooledTornKey('Alice', 'shared-a');
+    addPooledTornKey('Bob', 'shared-b');
+
+    expect(getTornKeyPool().map((entry) => [entry.name, entry.key])).toEqual([
+      ['Alice', 'shared-a'],
+      ['Bob', 'shared-b'],
+    ]);
+  });
+
+  it('should prefer the key with the most calls left, and the personal key on ties', async () => {
+    addPooledTornKey('Alice', 'shared-a');
+    expect(pickTornKey('personal')).toBe('personal');
+
+    await getTornBudget('personal').acquire();
+
+    expect(rankTornKeys('personal')).toEqual(['shared-a', 'personal']);
+  });
+
+  it('should skip rejected keys and fall back to none', () => {
+    addPooledTornKey('Alice', 'shared-a');
+    flagApiKey('shared-a', 2, 'Incorrect key');
+    flagApiKey('personal', 2, 'Incorrect key');
+
+    expect(pickTornKey('personal')).toBeNull();
+  });
+
+  it('should move on to the next key when one lacks access, and remember it', async () => {
+    setTornKeyPool([{ id: '1', name: 'Alice', key: 'shared-a' }]);
+    const call = jest.fn(async (apiKey: string) =>
+      apiKey === 'own-key'
+        ? { data: null, error: tornApiError(16, 'Access level of this key is not high enough') }
+        : { data: apiKey, error: null }
+    );
+
+    const result = await withTornKey('own-key', 'company-specials', call);
+
+    expect(result.data).toBe('shared-a');
+    expect(call.mock.calls.map(([apiKey]) => apiKey)).toEqual(['own-key', 'shared-a']);
+    expect(rankTornKeys('own-key', { feature: 'company-specials' })).toEqual(['shared-a']);
+  });
+
+  it('should only write off the extra features when a key lacks access to a combined call', async () => {
+    setTornKeyPool([{ id: '1', name: 'Alice', key: 'shared-a' }]);
+    const call = jest.fn(async (apiKey: string) =>
+      apiKey === 'own-key'
+        ? { data: null, error: tornApiError(16, 'Access level of this key is not high enough') }
+        : { data: apiKey, error: null }
+    );
+
+    const result = await withTornKey('own-key', ['company-employees', 'employee-stats'], call);
+
+    expect(result.data).toBe('shared-a');
+    expect(rankTornKeys('own-key', { feature: ['company-employees', 'employee-stats'] })).toEqual(['shared-a']);
+    expect(rankTornKeys('own-key', { feature: 'company-employees' })).toEqual(['own-key', 'shared-a']);
+  });
+
+  it('should run with the personal key when no key is usable', async () => {
+    flagApiKey('personal', 2, 'Incorrect key');
+    const call = jest.fn(async (apiKey: string) => ({ data: apiKey, error: null }));
+
+    const result = await withTornKey('personal', 'bounties', call);
+
+    expect(result.data).toBe('personal');
+  });
+});
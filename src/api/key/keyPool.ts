@@ -0,0 +1,149 @@
+/**
+ * Shared Torn API keys (e.g. keys donated to the faction) used alongside the
+ * personal key for heavy pulls such as full bounty lists and company sweeps.
+ *
+ * The pool is stored like the personal key (see storage/keyVault.ts), so it is
+ * encrypted along with it. pickTornKey chooses the usable key with the most
+ * calls left this minute; withTornKey runs a call with it and moves on to the
+ * next key when one is rejected or lacks access. User-specific selections
+ * (workstats, key info, ...) keep using the personal key and skip the pool.
+ */
+
+import { getApiKeyFlag } from '../helpers/apiKeyFlags';
+import { DataOrError } from '../helpers/httpWrapper';
+import { getTornBudget } from '../helpers/requestBudget';
+import { TORN_ERROR_ACCESS_LEVEL, isKeyError } from '../helpers/tornError';
+import { KEY_STORAGE_PREFIX, readStoredKey, subscribeKeyVault, writeStoredKey } from '../../storage/keyVault';
+import { TornFeature, canUseFeature } from './keyCapabilities';
+import { getTornKeyInfo } from './keyInfo';
+
+export interface PooledTornKey {
+  id: string;
+  /** Label shown in Settings, e.g. who donated the key. */
+  name: string;
+  key: string;
+}
+
+const POOL_STORAGE_KEY = `${KEY_STORAGE_PREFIX}torn-key-pool`;
+
+const listeners = new Set<() => void>();
+/** Features Torn refused per key this session (access level too low). */
+const deniedFeatures = new Map<string, Set<TornFeature>>();
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+/** Pooled keys in the order they were added; empty while the key vault is locked. */
+export function getTornKeyPool(): PooledTornKey[] {
+  try {
+    const raw = readStoredKey(POOL_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as PooledTornKey[]) : [];
+  } catch (error) {
+    console.error('Error reading the Torn key pool:', error);
+    return [];
+  }
+}
+
+/** Replaces the pool. Throws while the key vault is locked. */
+export function setTornKeyPool(keys: PooledTornKey[]): void {
+  // The vault notifies subscribers, see subscribeKeyVault below
+  writeStoredKey(POOL_STORAGE_KEY, JSON.stringify(keys));
+}
+
+export function addPooledTornKey(name: string, key: string): PooledTornKey {
+  const entry: PooledTornKey = { id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`, name, key };
+  setTornKeyPool([...getTornKeyPool(), entry]);
+  return entry;
+}
+
+export function removePooledTornKey(id: string): void {
+  setTornKeyPool(getTornKeyPool().filter((entry) => entry.id !== id));
+}
+
+/** Listen for pool changes, including ones made in other tabs. Returns an unsubscribe function. */
+export function subscribeTornKeyPool(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export interface PickTornKeyOptions {
+  /** Only keys that can serve this feature, or every one of these features (per their checked key info), are used. */
+  feature?: TornFeature | TornFeature[];
+  /** Keys already tried for this call. */
+  exclude?: string[];
+}
+
+function mayServe(apiKey: string, feature?: TornFeature | TornFeature[]): boolean {
+  if (!feature) return true;
+  const features = Array.isArray(feature) ? feature : [feature];
+  const denied = deniedFeatures.get(apiKey);
+  if (features.some((f) => denied?.has(f))) return false;
+  const info = getTornKeyInfo(apiKey);
+  return !info || features.every((f) => canUseFeature(info, f));
+}
+
+/**
+ * Usable keys, most calls left this minute first; the personal key wins ties.
+ * Keys the server has rejected (see apiKeyFlags) or that can't serve the
+ * feature are left out.
+ */
+export function rankTornKeys(personalKey: string, options: PickTornKeyOptions = {}): string[] {
+  const candidates = [personalKey, ...getTornKeyPool().map((entry) => entry.key)].filter(
+    (key, index, all) =>
+      key !== '' &&
+      all.indexOf(key) === index &&
+      !options.exclude?.includes(key) &&
+      getApiKeyFlag(key) === null &&
+      mayServe(key, options.feature)
+  );
+  const remaining = new Map(candidates.map((key) => [key, getTornBudget(key).remaining()]));
+  // Array.prototype.sort is stable, so equal budgets keep the personal key first
+  return candidates.sort((a, b) => remaining.get(b)! - remaining.get(a)!);
+}
+
+/** The key to use for the next call, or null when none is usable. */
+export function pickTornKey(personalKey: string, options: PickTornKeyOptions = {}): string | null {
+  return rankTornKeys(personalKey, options)[0] ?? null;
+}
+
+/**
+ * Runs call with the best key from the pool (see pickTornKey). A call that
+ * serves several features at once (e.g. profiles and personal stats in one
+ * request) only goes to keys that can serve all of them. When Torn rejects the
+ * key or says it lacks access, the call is repeated with the next usable key.
+ * With no usable key at all it runs with the personal key, so the usual
+ * validation and key errors reach the caller.
+ */
+export async function withTornKey<T>(
+  personalKey: string,
+  feature: TornFeature | TornFeature[],
+  call: (apiKey: string) => Promise<DataOrError<T>>
+): Promise<DataOrError<T>> {
+  const tried: string[] = [];
+  let result: DataOrError<T> | null = null;
+  for (;;) {
+    const apiKey = pickTornKey(personalKey, { feature, exclude: tried });
+    if (apiKey === null) return result ?? call(personalKey);
+    result = await call(apiKey);
+    if (!isKeyError(result.error)) return result;
+    tried.push(apiKey);
+    if (result.error?.kind === 'torn' && result.error.code === TORN_ERROR_ACCESS_LEVEL) {
+      // With several features the first is the one the call is for; the access
+      // is most likely missing for the extras, so only those are written off
+      const features = Array.isArray(feature) ? feature : [feature];
+      const denied = deniedFeatures.get(apiKey) ?? new Set<TornFeature>();
+      (features.length > 1 ? features.slice(1) : features).forEach((f) => denied.add(f));
+      deniedFeatures.set(apiKey, denied);
+    }
+  }
+}
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    if (event.key === POOL_STORAGE_KEY) notify();
+  });
+}
+subscribeKeyVault(notify);
@@ -73,15 +73,15 @@ describe('auctionHouse API', () => {
     });
 
     expect(global.fetch).toHaveBeenCalledTimes(2);
-    expect(global.fetch).toHaveBeenNthCalledWith(1, expect.stringContaining('limit=100'));
-    expect(global.fetch).toHaveBeenNthCalledWith(1, expect.stringContaining('key=test-api-key'));
-    expect(global.fetch).toHaveBeenNthCalledWith(2, expect.stringContaining('offset=20'));
-    expect(global.fetch).toHaveBeenNthCalledWith(2, expect.stringContaining('key=test-api-key'));
+    expect(global.fetch).toHaveBeenNthCalledWith(1, expect.stringContaining('limit=100'), { signal: undefined });
+    expect(global.fetch).toHaveBeenNthCalledWith(1, expect.stringContaining('key=test-api-key'), { signal: undefined });
+    expect(global.fetch).toHaveBeenNthCalledWith(2, expect.stringContaining('offset=20'), { signal: undefined });
+    expect(global.fetch).toHaveBeenNthCalledWith(2, expect.stringContaining('key=test-api-key'), { signal: undefined });
   });
 
   it('should return error when API key is missing', async () => {
     const result = await fetchAuctionHouse('');
-    expect(result.error).toBe('API key is required');
+    expect(result.error?.message).toBe('API key is required');
     expect(result.data).toBeNull();
   });
 
@@ -99,7 +99,8 @@ describe('auctionHouse API', () => {
     });
 
     const result = await fetchAuctionHouse('invalid-key');
-    expect(result.error).toBe('Torn API Error (2): Incorrect key');
+    expect(result.error?.message).toBe('Torn API Error (2): Incorrect key');
+    expect(result.error?.kind).toBe('torn');
     expect(result.data).toBeNull();
   });
 
@@ -110,7 +111,37 @@ describe('auctionHouse API', () => {
     });
 
     const result = await fetchAuctionHouse('test-key');
-    expect(result.error).toBe('HTTP error! status: 500');
+    expect(result.error?.message).toBe('HTTP error! status: 500');
+    expect(result.error?.kind).toBe('http');
+    expect(result.data).toBeNull();
+  });
+
+  it('should report the malformed field as a validation error', async () => {
+    (global.fetch as jest.Mock).mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({
+        auctionhouse: [
+          {
+            id: 1,
+            seller: { id: 101, name: 'Seller 1' },
+            buyer: { id: 201, name: 'Buyer 1' },
+            timestamp: 1625097600,
+            price: '100000',
+            bids: 5,
+            item: { id: 1, uid: 1001, name: 'Item 1', type: 'Other' }
+          }
+        ],
+        _metadata: { links: { next: null, prev: null } }
+      }),
+    });
+
+    const result = await fetchAuctionHouse('test-key');
+    expect(result.error).toEqual({
+      kind: 'validation',
+      message: 'Unexpected auction house response: auctionhouse[0].price should be a number',
+      field: 'auctionhouse[0].price',
+      invalidResponse: true,
+    });
     expect(result.data).toBeNull();
   });
 });
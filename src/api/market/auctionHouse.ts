@@ -1,3 +1,25 @@
+import { tornApiUrl } from '../helpers/apiConfig';
+import { getTornBudget } from '../helpers/requestBudget';
+import { loggedFetch } from '../helpers/requestLog';
+import {
+  array,
+  literal,
+  nullable,
+  number,
+  object,
+  oneOf,
+  optional,
+  parseResponse,
+  string,
+} from '../helpers/schema';
+import {
+  TornError,
+  httpError,
+  networkError,
+  tornErrorFromBody,
+  validationError,
+} from '../helpers/tornError';
+
 export interface SellerOrBuyer {
   id: number;
   name: string;
@@ -67,47 +89,107 @@ export interface TornApiError {
 
 export interface FetchAuctionHouseResult {
   data: AuctionHouseEntry[] | null;
-  error: string | null;
+  error: TornError | null;
 }
 
-const BASE_URL = 'https://api.torn.com/v2/market/auctionhouse';
+const sellerOrBuyerSchema = object<SellerOrBuyer>({ id: number(), name: string() });
+
+const itemDetailsSchema = object<ItemDetails>({
+  id: number(),
+  uid: number(),
+  name: string(),
+  type: string(),
+});
+
+const weaponArmorDetailsSchema = object<WeaponArmorDetails>({
+  uid: number(),
+  stats: object<WeaponArmorStats>({
+    damage: nullable(number()),
+    accuracy: nullable(number()),
+    armor: nullable(number()),
+    quality: number(),
+  }),
+  bonuses: array(
+    object<ItemBonus>({
+      id: number(),
+      title: string(),
+      description: string(),
+      value: number(),
+    })
+  ),
+  rarity: nullable(literal('yellow', 'orange', 'red')),
+  id: number(),
+  name: string(),
+  type: string(),
+  sub_type: nullable(string()),
+});
+
+const auctionHouseResponseSchema = object<AuctionHouseResponse>({
+  auctionhouse: array(
+    object<AuctionHouseEntry>({
+      id: number(),
+      seller: sellerOrBuyerSchema,
+      buyer: sellerOrBuyerSchema,
+      timestamp: number(),
+      price: number(),
+      bids: number(),
+      item: oneOf(itemDetailsSchema, weaponArmorDetailsSchema),
+      page: optional(number()),
+    })
+  ),
+  _metadata: object<AuctionHouseResponse['_metadata']>({
+    links: object<AuctionHouseResponse['_metadata']['links']>({
+      next: nullable(string()),
+      prev: nullable(string()),
+    }),
+  }),
+});
 
 /**
  * Fetches all auction house entries from the Torn API v2 with pagination
  * @param apiKey - Torn API key
+ * @param signal - Optional signal; cancels the page in flight and stops paginating
  * @returns Promise containing the list of all auction house entries or error
  */
-export async function fetchAuctionHouse(apiKey: string): Promise<FetchAuctionHouseResult> {
+export async function fetchAuctionHouse(
+  apiKey: string,
+  signal?: AbortSignal
+): Promise<FetchAuctionHouseResult> {
   if (!apiKey || apiKey.trim() === '') {
-    return { data: null, error: 'API key is required' };
+    return { data: null, error: validationError('API key is required', 'apiKey') };
   }
 
   const allEntries: AuctionHouseEntry[] = [];
-  let nextUrl: string | null = `${BASE_URL}?limit=100&sort=desc&key=${apiKey}`;
+  let nextUrl: string | null = `${tornApiUrl()}/v2/market/auctionhouse?limit=100&sort=desc&key=${apiKey}`;
   let page = 1;
 
   try {
     while (nextUrl) {
-      const response = await fetch(nextUrl);
+      await getTornBudget(apiKey).acquire(signal);
+      const response = await loggedFetch(nextUrl, { signal });
 
       if (!response.ok) {
         return {
           data: null,
-          error: `HTTP error! status: ${response.status}`,
+          error: httpError(response.status),
         };
       }
 
       const data = await response.json();
 
-      if ('error' in data && data.error) {
-        const errorData = data as TornApiError;
+      const tornError = tornErrorFromBody(data);
+      if (tornError) {
         return {
           data: null,
-          error: `Torn API Error (${errorData.error.code}): ${errorData.error.error}`,
+          error: tornError,
         };
       }
 
-      const auctionResponse = data as AuctionHouseResponse;
+      const parsed = parseResponse(data, auctionHouseResponseSchema, 'auction house');
+      if (!parsed.data) {
+        return { data: null, error: parsed.error };
+      }
+      const auctionResponse: AuctionHouseResponse = parsed.data;
       const pageInternal = page;
       const entries = auctionResponse.auctionhouse.map((entry) => ({
         ...entry,
@@ -130,15 +212,9 @@ export async function fetchAuctionHouse(apiKey: string): Promise<FetchAuctionHou
 
     return { data: allEntries, error: null };
   } catch (error) {
-    if (error instanceof Error) {
-      return {
-        data: null,
-        error: `Failed to fetch auction house data: ${error.message}`,
-      };
-    }
     return {
       data: null,
-      error: 'Failed to fetch auction house data: Unknown error',
+      error: networkError('auction house data', error),
     };
   }
 }
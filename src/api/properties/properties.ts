@@ -1,3 +1,17 @@
+import { tornApiUrl } from '../helpers/apiConfig';
+import { withV1Fallback } from '../helpers/apiGeneration';
+import { DataOrError } from '../helpers/httpWrapper';
+import { getTornBudget } from '../helpers/requestBudget';
+import { loggedFetch } from '../helpers/requestLog';
+import { Schema, array, nullable, number, object, parseResponse, record, string } from '../helpers/schema';
+import { fetchTornJson, mapData } from '../helpers/tornFetch';
+import {
+    httpError,
+    networkError,
+    tornErrorFromBody,
+    validationError,
+} from '../helpers/tornError';
+
 export interface Property {
     name: string;
     cost: number;
@@ -11,15 +25,87 @@ export interface Properties {
     properties: Record<number, Property>;
 }
 
-export function fetchProperties(apiKey: string): Promise<Properties> {
-    return fetch(`https://api.torn.com/torn/?selections=properties&key=${apiKey}`)
-        .then(response => response.json())
-        .then(data => data as Properties);
+const propertiesSchema = object<Properties>({
+    properties: record(
+        object<Property>({
+            name: string(),
+            cost: number(),
+            happy: number(),
+            upkeep: number(),
+            upgrades_available: array(string()),
+            staff_available: array(string()),
+        })
+    ),
+});
+
+/** Torn v2 torn/properties: a list with modifications and staff instead of upgrades_available/staff_available. */
+export interface PropertiesV2Response {
+    properties: Array<{
+        id: number;
+        name: string;
+        cost: number;
+        happy: number;
+        upkeep: number;
+        modifications: string[];
+        staff: string[];
+    }>;
+}
+
+const propertiesV2Schema = object<PropertiesV2Response>({
+    properties: array(
+        object<PropertiesV2Response['properties'][number]>({
+            id: number(),
+            name: string(),
+            cost: number(),
+            happy: number(),
+            upkeep: number(),
+            modifications: array(string()),
+            staff: array(string()),
+        })
+    ),
+});
+
+function fromV2(response: PropertiesV2Response): Properties {
+    const properties: Record<number, Property> = {};
+    response.properties.forEach(({id, modifications, staff, ...property}) => {
+        properties[id] = {...property, upgrades_available: modifications, staff_available: staff};
+    });
+    return {properties};
+}
+
+async function loadProperties<T>(
+    apiKey: string,
+    url: string,
+    schema: Schema<T>,
+    signal?: AbortSignal
+): Promise<DataOrError<T>> {
+    try {
+        await getTornBudget(apiKey).acquire(signal);
+    } catch (error) {
+        return {data: null, error: networkError('properties', error)};
+    }
+    return fetchTornJson(url, schema, 'properties', signal);
+}
+
+/** Property types; v2 torn/properties, falling back to v1. */
+export async function fetchProperties(apiKey: string, signal?: AbortSignal): Promise<DataOrError<Properties>> {
+    if (!apiKey || apiKey.trim() === '') {
+        return {data: null, error: validationError('API key is required', 'apiKey')};
+    }
+    return withV1Fallback(
+        'properties',
+        async () => mapData(
+            await loadProperties(apiKey, `${tornApiUrl()}/v2/torn/properties?key=${apiKey}`, propertiesV2Schema, signal),
+            fromV2
+        ),
+        () => loadProperties(apiKey, `${tornApiUrl()}/torn/?selections=properties&key=${apiKey}`, propertiesSchema, signal)
+    );
 }
 
 /* ********************************************************************************* */
 
-export interface Rental {
+/** A rental listing as returned by the API. */
+export interface RentalListing {
     happy: number;
     cost: number;
     cost_per_day: number;
@@ -27,13 +113,17 @@ export interface Rental {
     market_price: number;
     upkeep: number;
     modifications: string[];
+}
+
+/** A rental listing plus the figures computed for the rentals table. */
+export interface Rental extends RentalListing {
     page: number | null;
     total_daily_cost: number;
     daily_cost_per_happy: number;
 }
 
 export interface Rentals {
-    listings: Rental[];
+    listings: RentalListing[];
     property: {
         id: number;
         name: string;
@@ -45,32 +135,86 @@ export interface RentalsResponse {
     rentals_timestamp: number;
     _metadata: {
         links: {
-            next: string;
-            prev: string;
+            next: string | null;
+            prev: string | null;
         };
     };
 }
 
+const rentalsResponseSchema = object<RentalsResponse>({
+    rentals: object<Rentals>({
+        listings: array(
+            object<RentalListing>({
+                happy: number(),
+                cost: number(),
+                cost_per_day: number(),
+                rental_period: number(),
+                market_price: number(),
+                upkeep: number(),
+                modifications: array(string()),
+            })
+        ),
+        property: object<Rentals['property']>({
+            id: number(),
+            name: string(),
+        }),
+    }),
+    rentals_timestamp: number(),
+    _metadata: object<RentalsResponse['_metadata']>({
+        links: object<RentalsResponse['_metadata']['links']>({
+            next: nullable(string()),
+            prev: nullable(string()),
+        }),
+    }),
+});
 
-export async function fetchRentals(apiKey: string, propertyId: number): Promise<Rental[]> {
+export async function fetchRentals(
+    apiKey: string,
+    propertyId: number,
+    signal?: AbortSignal
+): Promise<DataOrError<Rental[]>> {
+    if (!apiKey || apiKey.trim() === '') {
+        return {data: null, error: validationError('API key is required', 'apiKey')};
+    }
     let rentals: Rental[] = [];
     let offset = 0;
     while (true) {
-        let url = `https://api.torn.com/v2/market/${propertyId}/rentals?offset=${offset}&limit=100&key=${apiKey}`;
-        let response = await fetch(url);
-        let data = await response.json();
+        let url = `${tornApiUrl()}/v2/market/${propertyId}/rentals?offset=${offset}&limit=100&key=${apiKey}`;
+        let data: RentalsResponse;
+        try {
+            await getTornBudget(apiKey).acquire(signal);
+            const response = await loggedFetch(url, {signal});
+            if (!response.ok) {
+                return {data: null, error: httpError(response.status)};
+            }
+            const body = await response.json();
+            const tornError = tornErrorFromBody(body);
+            if (tornError) {
+                return {data: null, error: tornError};
+            }
+            const parsed = parseResponse(body, rentalsResponseSchema, 'rentals');
+            if (!parsed.data) {
+                return {data: null, error: parsed.error};
+            }
+            data = parsed.data;
+        } catch (error) {
+            return {data: null, error: networkError('rentals', error)};
+        }
         if(data.rentals.listings.length === 0) {
             break;
         }
         const offsetInternal = offset;
-        data.rentals.listings.forEach((l: Rental, index: number) => {
+        data.rentals.listings.forEach((l: RentalListing, index: number) => {
             const fullIndex = offsetInternal + index;
-            l.page = fullIndex;
-            l.total_daily_cost = l.cost_per_day + l.upkeep;
-            l.daily_cost_per_happy = l.total_daily_cost / l.happy;
-            rentals.push(l);
+            const totalDailyCost = l.cost_per_day + l.upkeep;
+            rentals.push({
+                ...l,
+                page: fullIndex,
+                total_daily_cost: totalDailyCost,
+                daily_cost_per_happy: totalDailyCost / l.happy,
+            });
         });
         offset += 100;
     }
-    return rentals;
+    return {data: rentals, error: null};
 }
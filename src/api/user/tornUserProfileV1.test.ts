@@ -1,8 +1,10 @@
+import { getV1FallbackFetchers, resetV1Fallbacks } from '../helpers/apiGeneration';
 import {
   fetchUserProfileV1,
   fetchUserProfileV1Cached,
   UserProfileV1,
   UserProfileV1Error,
+  UserProfileV2Response,
 } from './tornUserProfileV1';
 
 global.fetch = jest.fn();
@@ -83,16 +85,59 @@ const mockProfile: UserProfileV1 = {
   },
 };
 
+const mockProfileV2: UserProfileV2Response = {
+  profile: {
+    id: 4093819,
+    name: 'Wulfven',
+    level: 15,
+    rank: 'Average Hired Gun',
+    age: 11,
+    signed_up: 1770552288,
+    honor_id: 500,
+    donator_status: 'Subscriber',
+    property: { id: 4477603, name: 'Private Island' },
+    image: 'https://profileimages.torn.com/dbc42371-c267-4bd5-a0eb-866156d77cf2-4093819.png',
+    gender: 'Male',
+    revivable: true,
+    role: 'Civilian',
+    status: { description: 'Okay', details: null, state: 'Okay', color: 'green', until: null },
+    spouse: null,
+    awards: 48,
+    friends: 0,
+    enemies: 1,
+    forum_posts: 0,
+    karma: 0,
+    last_action: { status: 'Online', timestamp: 1771514478, relative: '0 minutes ago' },
+    life: { current: 656, maximum: 656 },
+  },
+  icons: [
+    { id: 72, title: 'Newbie' },
+    { id: 6, title: 'Male' },
+    { id: 4, title: 'Subscriber' },
+  ],
+};
+
+/** mockProfileV2 in the v1 shape; v2 has no job, faction, states or competition, and no spouse here. */
+const mockProfileFromV2: UserProfileV1 = {
+  ...mockProfile,
+  job: undefined,
+  faction: undefined,
+  married: undefined,
+  states: undefined,
+  competition: undefined,
+};
+
 describe('tornUserProfileV1 API', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    resetV1Fallbacks();
   });
 
   describe('fetchUserProfileV1', () => {
     it('should fetch user profile successfully', async () => {
       (global.fetch as jest.Mock).mockResolvedValueOnce({
         ok: true,
-        json: async () => mockProfile,
+        json: async () => mockProfileV2,
       });
 
       const result = await fetchUserProfileV1({
@@ -100,19 +145,54 @@ describe('tornUserProfileV1 API', () => {
         userId: 4093819,
       });
 
-      expect(result.data).toEqual(mockProfile);
+      expect(result.data).toEqual(mockProfileFromV2);
       expect(result.error).toBeNull();
       expect(global.fetch).toHaveBeenCalledTimes(1);
       expect(global.fetch).toHaveBeenCalledWith(
+        'https://api.torn.com/v2/user/4093819?selections=profile,icons&key=test-api-key',
+        { signal: expect.any(AbortSignal) }
+      );
+    });
+
+    it('should fall back to v1 when v2 has no profile route', async () => {
+      (global.fetch as jest.Mock)
+        .mockResolvedValueOnce({ ok: false, status: 404 })
+        .mockResolvedValueOnce({ ok: true, json: async () => mockProfile });
+
+      const result = await fetchUserProfileV1({
+        apiKey: 'test-api-key',
+        userId: 4093819,
+      });
+
+      expect(result.data).toEqual(mockProfile);
+      expect(result.error).toBeNull();
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      expect(global.fetch).toHaveBeenLastCalledWith(
         'https://api.torn.com/user/4093819?key=test-api-key',
         { signal: expect.any(AbortSignal) }
       );
+      expect(getV1FallbackFetchers()).toEqual(['user-profile']);
+    });
+
+    it('should fall back to v1 when the v2 response cannot be read', async () => {
+      (global.fetch as jest.Mock).mockResolvedValue({ ok: true, json: async () => mockProfile });
+
+      const result = await fetchUserProfileV1({
+        apiKey: 'test-api-key',
+        userId: 4093819,
+      });
+      await fetchUserProfileV1({ apiKey: 'test-api-key', userId: 4093819 });
+
+      expect(result.data).toEqual(mockProfile);
+      // The second call goes straight to v1
+      expect(global.fetch).toHaveBeenCalledTimes(3);
+      expect((global.fetch as jest.Mock).mock.calls[2][0]).toBe('https://api.torn.com/user/4093819?key=test-api-key');
     });
 
     it('should encode API key in URL', async () => {
       (global.fetch as jest.Mock).mockResolvedValueOnce({
         ok: true,
-        json: async () => mockProfile,
+        json: async () => mockProfileV2,
       });
 
       await fetchUserProfileV1({
@@ -131,7 +211,7 @@ describe('tornUserProfileV1 API', () => {
     it('should accept string userId', async () => {
       (global.fetch as jest.Mock).mockResolvedValueOnce({
         ok: true,
-        json: async () => mockProfile,
+        json: async () => mockProfileV2,
       });
 
       const result = await fetchUserProfileV1({
@@ -139,9 +219,9 @@ describe('tornUserProfileV1 API', () => {
         userId: '4093819',
       });
 
-      expect(result.data).toEqual(mockProfile);
+      expect(result.data).toEqual(mockProfileFromV2);
       expect(global.fetch).toHaveBeenCalledWith(
-        'https://api.torn.com/user/4093819?key=test-key',
+        'https://api.torn.com/v2/user/4093819?selections=profile,icons&key=test-key',
         { signal: expect.any(AbortSignal) }
       );
     });
@@ -153,7 +233,7 @@ describe('tornUserProfileV1 API', () => {
       });
 
       expect(result.data).toBeNull();
-      expect(result.error).toBe('API key is required');
+      expect(result.error?.message).toBe('API key is required');
       expect(global.fetch).not.toHaveBeenCalled();
     });
 
@@ -164,7 +244,7 @@ describe('tornUserProfileV1 API', () => {
       });
 
       expect(result.data).toBeNull();
-      expect(result.error).toBe('User ID is required');
+      expect(result.error?.message).toBe('User ID is required');
       expect(global.fetch).not.toHaveBeenCalled();
     });
 
@@ -184,12 +264,13 @@ describe('tornUserProfileV1 API', () => {
       });
 
       expect(result.data).toBeNull();
-      expect(result.error).toBe('Torn API Error (2): Incorrect key');
+      expect(result.error?.message).toBe('Torn API Error (2): Incorrect key');
+      expect(result.error?.kind).toBe('torn');
       expect(global.fetch).toHaveBeenCalledTimes(1);
     });
 
     it('should not retry on 404', async () => {
-      (global.fetch as jest.Mock).mockResolvedValueOnce({
+      (global.fetch as jest.Mock).mockResolvedValue({
         ok: false,
         status: 404,
       });
@@ -200,8 +281,10 @@ describe('tornUserProfileV1 API', () => {
       });
 
       expect(result.data).toBeNull();
-      expect(result.error).toBe('HTTP error! status: 404');
-      expect(global.fetch).toHaveBeenCalledTimes(1);
+      expect(result.error?.message).toBe('HTTP error! status: 404');
+      expect(result.error?.kind).toBe('http');
+      // Once on v2, once on the v1 fallback
+      expect(global.fetch).toHaveBeenCalledTimes(2);
     });
 
     it('should retry on 500 then succeed', async () => {
@@ -209,7 +292,7 @@ describe('tornUserProfileV1 API', () => {
         .mockResolvedValueOnce({ ok: false, status: 500 })
         .mockResolvedValueOnce({
           ok: true,
-          json: async () => mockProfile,
+          json: async () => mockProfileV2,
         });
 
       const result = await fetchUserProfileV1({
@@ -217,7 +300,7 @@ describe('tornUserProfileV1 API', () => {
         userId: 4093819,
       });
 
-      expect(result.data).toEqual(mockProfile);
+      expect(result.data).toEqual(mockProfileFromV2);
       expect(result.error).toBeNull();
       expect(global.fetch).toHaveBeenCalledTimes(2);
     }, 10000);
@@ -230,7 +313,7 @@ describe('tornUserProfileV1 API', () => {
         .mockRejectedValueOnce(abortError)
         .mockResolvedValueOnce({
           ok: true,
-          json: async () => mockProfile,
+          json: async () => mockProfileV2,
         });
 
       const result = await fetchUserProfileV1({
@@ -238,7 +321,7 @@ describe('tornUserProfileV1 API', () => {
         userId: 4093819,
       });
 
-      expect(result.data).toEqual(mockProfile);
+      expect(result.data).toEqual(mockProfileFromV2);
       expect(result.error).toBeNull();
       expect(global.fetch).toHaveBeenCalledTimes(2);
     }, 10000);
@@ -255,7 +338,8 @@ describe('tornUserProfileV1 API', () => {
       });
 
       expect(result.data).toBeNull();
-      expect(result.error).toBe('HTTP error! status: 500');
+      expect(result.error?.message).toBe('HTTP error! status: 500');
+      expect(result.error?.kind).toBe('http');
       expect(global.fetch).toHaveBeenCalledTimes(4); // 1 initial + 3 retries
     }, 15000);
   });
@@ -283,7 +367,7 @@ describe('tornUserProfileV1 API', () => {
     it('should fetch and cache when cache is empty', async () => {
       (global.fetch as jest.Mock).mockResolvedValueOnce({
         ok: true,
-        json: async () => mockProfile,
+        json: async () => mockProfileV2,
       });
 
       const result = await fetchUserProfileV1Cached(
@@ -291,13 +375,13 @@ describe('tornUserProfileV1 API', () => {
         { maxAgeMs: 60_000 }
       );
 
-      expect(result.data).toEqual(mockProfile);
+      expect(result.data).toEqual(mockProfileFromV2);
       expect(result.error).toBeNull();
       expect(global.fetch).toHaveBeenCalledTimes(1);
 
       const key = getCacheKey(4093819);
       const stored = JSON.parse(localStorage.getItem(key) ?? '');
-      expect(stored.value).toEqual(mockProfile);
+      expect(stored.value).toEqual(mockProfileFromV2);
       expect(typeof stored.timestamp).toBe('number');
     });
 
@@ -311,7 +395,7 @@ describe('tornUserProfileV1 API', () => {
 
       (global.fetch as jest.Mock).mockResolvedValueOnce({
         ok: true,
-        json: async () => mockProfile,
+        json: async () => mockProfileV2,
       });
 
       const result = await fetchUserProfileV1Cached(
@@ -319,7 +403,7 @@ describe('tornUserProfileV1 API', () => {
         { maxAgeMs: 60_000 }
       );
 
-      expect(result.data).toEqual(mockProfile);
+      expect(result.data).toEqual(mockProfileFromV2);
       expect(result.data?.name).toBe('Wulfven');
       expect(global.fetch).toHaveBeenCalledTimes(1);
       const stored = JSON.parse(localStorage.getItem(key) ?? '');
@@ -349,7 +433,7 @@ describe('tornUserProfileV1 API', () => {
       );
 
       expect(result.data).toBeNull();
-      expect(result.error).toBe('API key is required');
+      expect(result.error?.message).toBe('API key is required');
       expect(global.fetch).not.toHaveBeenCalled();
     });
   });
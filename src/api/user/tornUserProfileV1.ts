@@ -1,11 +1,32 @@
 /**
  * Torn API User Profile V1 Service
- * Fetches full user profile from Torn API v1 with retry, rate limit, and timeout.
+ * Fetches a user profile with retry, rate limit, and timeout. The profile keeps
+ * its v1 shape; it is loaded from Torn API v2 (profile and icons selections)
+ * and mapped onto it, with v1 as the fallback. Only v1 fills job, faction,
+ * states and competition.
  */
 
 import { getTimeUntil } from '../../components/timeUntil';
-import { httpWrapper } from '../helpers/httpWrapper';
-import { RateLimiter } from '../helpers/rateLimiter';
+import { tornApiUrl } from '../helpers/apiConfig';
+import { registerCacheNamespace } from '../helpers/cacheRegistry';
+import { ApiGeneration, withV1Fallback } from '../helpers/apiGeneration';
+import { Cache } from '../helpers/cache';
+import { DataOrError, httpWrapper } from '../helpers/httpWrapper';
+import { RateLimiter, RequestPriority } from '../helpers/rateLimiter';
+import { getTornBudget } from '../helpers/requestBudget';
+import { loggedFetch } from '../helpers/requestLog';
+import { array, boolean, nullable, number, object, optional, parseResponse, record, string } from '../helpers/schema';
+import { tornRetry } from '../helpers/tornRetry';
+import { withTornKey } from '../key/keyPool';
+import {
+  TornError,
+  httpError,
+  isAbortError,
+  networkError,
+  timeoutError,
+  tornErrorFromBody,
+  validationError,
+} from '../helpers/tornError';
 
 // Nested types for the Torn User Profile V1 API response
 export interface UserProfileV1Life {
@@ -50,11 +71,12 @@ export interface UserProfileV1LastAction {
   relative: string;
 }
 
+/** Only name is common to all events; the other fields depend on the competition running. */
 export interface UserProfileV1Competition {
   name: string;
-  status: string;
-  current_hp: number;
-  max_hp: number;
+  status?: string;
+  current_hp?: number;
+  max_hp?: number;
 }
 
 export interface UserProfileV1States {
@@ -94,6 +116,36 @@ export interface UserProfileV1 {
   competition?: UserProfileV1Competition;
 }
 
+/** Torn v2 user/{id} with the profile and icons selections. */
+export interface UserProfileV2Response {
+  profile: {
+    id: number;
+    name: string;
+    level: number;
+    rank: string;
+    age: number;
+    /** Unix timestamp in SECONDS */
+    signed_up: number;
+    honor_id?: number;
+    donator_status?: string | null;
+    property: { id: number; name: string };
+    image: string | null;
+    gender: string;
+    revivable: boolean;
+    role: string;
+    status: Omit<UserProfileV1Status, 'details' | 'until'> & { details: string | null; until: number | null };
+    spouse: { id: number; name: string; days_married: number } | null;
+    awards: number;
+    friends: number;
+    enemies: number;
+    forum_posts: number;
+    karma: number;
+    last_action: UserProfileV1LastAction;
+    life: UserProfileV1Life;
+  };
+  icons: Array<{ id: number; title: string }>;
+}
+
 export interface UserProfileV1Error {
   error: {
     code: number;
@@ -104,11 +156,15 @@ export interface UserProfileV1Error {
 export interface FetchUserProfileV1Params {
   apiKey: string;
   userId: number | string;
+  /** Cancels the request; the result is then an 'aborted' error. */
+  signal?: AbortSignal;
+  /** Rate limiter lane; use 'background' for bulk loads. Default 'normal'. */
+  priority?: RequestPriority;
 }
 
 export interface FetchUserProfileV1Result {
   data: UserProfileV1 | null;
-  error: string | null;
+  error: TornError | null;
 }
 
 /** Options for cached fetch. */
@@ -117,7 +173,6 @@ export interface FetchUserProfileV1CachedOptions {
   maxAgeMs: number;
 }
 
-const BASE_URL = 'https://api.torn.com/user';
 const CACHE_PREFIX = 'torn_user_profile_v1_';
 const REQUEST_TIMEOUT_MS = 250;
 const RATE_LIMIT_COOLDOWN_MS = 50;
@@ -126,78 +181,304 @@ const RUN_TIMEOUT_MS = 1_000;
 
 const profileRateLimiter = new RateLimiter({ cooldownMs: RATE_LIMIT_COOLDOWN_MS });
 
+// Callers choose their own maxAgeMs; none of them use profiles older than an hour
+const profileCache = registerCacheNamespace({
+  namespace: 'user-profile',
+  label: 'User profiles',
+  maxAgeMs: 3_600_000,
+});
+
+const userProfileV1Schema = object<UserProfileV1>({
+  rank: string(),
+  level: number(),
+  honor: number(),
+  gender: string(),
+  property: string(),
+  signup: string(),
+  awards: number(),
+  friends: number(),
+  enemies: number(),
+  forum_posts: number(),
+  karma: number(),
+  age: number(),
+  role: string(),
+  donator: number(),
+  player_id: number(),
+  name: string(),
+  property_id: number(),
+  revivable: number(),
+  profile_image: optional(string()),
+  life: object<UserProfileV1Life>({ current: number(), maximum: number() }),
+  status: object<UserProfileV1Status>({
+    description: string(),
+    details: string(),
+    state: string(),
+    color: string(),
+    until: number(),
+  }),
+  job: optional(
+    object<UserProfileV1Job>({
+      job: string(),
+      position: string(),
+      company_id: number(),
+      company_name: string(),
+      company_type: number(),
+    })
+  ),
+  faction: optional(
+    object<UserProfileV1Faction>({
+      position: string(),
+      faction_id: number(),
+      days_in_faction: number(),
+      faction_name: string(),
+      faction_tag: string(),
+      faction_tag_image: string(),
+    })
+  ),
+  married: optional(
+    object<UserProfileV1Married>({
+      spouse_id: number(),
+      spouse_name: string(),
+      duration: number(),
+    })
+  ),
+  basicicons: optional(record(string())),
+  states: optional(
+    object<UserProfileV1States>({
+      hospital_timestamp: number(),
+      jail_timestamp: number(),
+    })
+  ),
+  last_action: optional(
+    object<UserProfileV1LastAction>({
+      status: string(),
+      timestamp: number(),
+      relative: string(),
+    })
+  ),
+  competition: optional(
+    object<UserProfileV1Competition>({
+      name: string(),
+      status: optional(string()),
+      current_hp: optional(number()),
+      max_hp: optional(number()),
+    })
+  ),
+});
+
+type UserProfileV2 = UserProfileV2Response['profile'];
+
+const userProfileV2Schema = object<UserProfileV2Response>({
+  profile: object<UserProfileV2>({
+    id: number(),
+    name: string(),
+    level: number(),
+    rank: string(),
+    age: number(),
+    signed_up: number(),
+    honor_id: optional(number()),
+    donator_status: optional(nullable(string())),
+    property: object<UserProfileV2['property']>({ id: number(), name: string() }),
+    image: nullable(string()),
+    gender: string(),
+    revivable: boolean(),
+    role: string(),
+    status: object<UserProfileV2['status']>({
+      description: string(),
+      details: nullable(string()),
+      state: string(),
+      color: string(),
+      until: nullable(number()),
+    }),
+    spouse: nullable(
+      object<NonNullable<UserProfileV2['spouse']>>({ id: number(), name: string(), days_married: number() })
+    ),
+    awards: number(),
+    friends: number(),
+    enemies: number(),
+    forum_posts: number(),
+    karma: number(),
+    last_action: object<UserProfileV1LastAction>({
+      status: string(),
+      timestamp: number(),
+      relative: string(),
+    }),
+    life: object<UserProfileV1Life>({ current: number(), maximum: number() }),
+  }),
+  icons: array(object<UserProfileV2Response['icons'][number]>({ id: number(), title: string() })),
+});
+
+/** v1 signup format, e.g. '2026-02-08 12:04:48' (Torn time is UTC). */
+function formatSignup(timestamp: number): string {
+  return new Date(timestamp * 1000).toISOString().slice(0, 19).replace('T', ' ');
+}
+
+/** Maps a v2 profile onto the v1 shape the app uses. */
+export function userProfileFromV2(response: UserProfileV2Response): UserProfileV1 {
+  const { profile, icons } = response;
+  const result: UserProfileV1 = {
+    rank: profile.rank,
+    level: profile.level,
+    honor: profile.honor_id ?? 0,
+    gender: profile.gender,
+    property: profile.property.name,
+    signup: formatSignup(profile.signed_up),
+    awards: profile.awards,
+    friends: profile.friends,
+    enemies: profile.enemies,
+    forum_posts: profile.forum_posts,
+    karma: profile.karma,
+    age: profile.age,
+    role: profile.role,
+    donator: profile.donator_status ? 1 : 0,
+    player_id: profile.id,
+    name: profile.name,
+    property_id: profile.property.id,
+    revivable: profile.revivable ? 1 : 0,
+    life: profile.life,
+    status: { ...profile.status, details: profile.status.details ?? '', until: profile.status.until ?? 0 },
+    basicicons: Object.fromEntries(icons.map((icon) => [`icon${icon.id}`, icon.title])),
+    last_action: profile.last_action,
+  };
+  if (profile.image !== null) result.profile_image = profile.image;
+  if (profile.spouse !== null) {
+    result.married = {
+      spouse_id: profile.spouse.id,
+      spouse_name: profile.spouse.name,
+      duration: profile.spouse.days_married,
+    };
+  }
+  return result;
+}
+
+/**
+ * Reads the profile from a user response, which may hold other selections too
+ * (see userData.ts), and maps a v2 profile onto the v1 shape.
+ */
+export function readUserProfile(body: unknown, generation: ApiGeneration): DataOrError<UserProfileV1> {
+  let profile: UserProfileV1;
+  if (generation === 'v2') {
+    const parsed = parseResponse(body, userProfileV2Schema, 'user profile');
+    if (!parsed.data) return { data: null, error: parsed.error };
+    profile = userProfileFromV2(parsed.data);
+  } else {
+    const parsed = parseResponse(body, userProfileV1Schema, 'user profile');
+    if (!parsed.data) return { data: null, error: parsed.error };
+    // v1 puts every selection at the top level; keep only the profile fields
+    const { personalstats, ...fields } = parsed.data as UserProfileV1 & { personalstats?: unknown };
+    profile = fields;
+  }
+  const timeUntil = getTimeUntil(profile);
+  if (timeUntil) {
+    profile.status.until = timeUntil;
+  }
+  return { data: profile, error: null };
+}
+
+/** The cached profile of a user, shared by the profile fetchers and fetchUserData. */
+export function userProfileCache(userId: number | string, maxAgeMs: number): Cache<UserProfileV1> {
+  return new Cache<UserProfileV1>({
+    storageKey: `${CACHE_PREFIX}${String(userId)}`,
+    maxStalenessMs: maxAgeMs,
+    namespace: profileCache.namespace,
+  });
+}
+
 /**
  * Single attempt to fetch user profile (no retry, no rate limit). Used inside rate limiter + retry.
+ * The fetch is aborted when it takes longer than REQUEST_TIMEOUT_MS or when the caller's signal fires.
  */
-async function fetchUserProfileV1OneAttempt(
-  apiKey: string,
-  userId: number | string
+async function fetchUserProfileOneAttempt(
+  url: string,
+  generation: ApiGeneration,
+  signal?: AbortSignal
 ): Promise<FetchUserProfileV1Result> {
   const controller = new AbortController();
   const timeoutId = setTimeout(() => controller.abort(), REQUEST_TIMEOUT_MS);
+  const forwardAbort = () => controller.abort();
+  signal?.addEventListener('abort', forwardAbort, { once: true });
   try {
-    const url = `${BASE_URL}/${userId}?key=${encodeURIComponent(apiKey)}`;
-    const response = await fetch(url, { signal: controller.signal });
+    const response = await loggedFetch(url, { signal: controller.signal });
     clearTimeout(timeoutId);
     if (!response.ok) {
-      return { data: null, error: `HTTP error! status: ${response.status}` };
+      return { data: null, error: httpError(response.status) };
     }
     const data = await response.json();
-    if ('error' in data && data.error) {
-      const err = data as UserProfileV1Error;
-      return {
-        data: null,
-        error: `Torn API Error (${err.error.code}): ${err.error.error}`,
-      };
+    const tornError = tornErrorFromBody(data);
+    if (tornError) {
+      return { data: null, error: tornError };
     }
-    const timeUntil = getTimeUntil(data as UserProfileV1);
-    if (timeUntil) {
-      data.status.until = timeUntil;
-    }
-    return { data: data as UserProfileV1, error: null };
+    return readUserProfile(data, generation);
   } catch (error) {
     clearTimeout(timeoutId);
-    const message = error instanceof Error ? error.message : 'Unknown error';
-    return { data: null, error: `Failed to fetch user profile: ${message}` };
+    // An abort the caller didn't ask for is our own per-attempt timeout, which is worth retrying
+    if (isAbortError(error) && !signal?.aborted) {
+      return { data: null, error: timeoutError(REQUEST_TIMEOUT_MS) };
+    }
+    return { data: null, error: networkError('user profile', error) };
+  } finally {
+    signal?.removeEventListener('abort', forwardAbort);
   }
 }
 
+/** Runs one attempt against v2, or v1 once the profile fetcher has fallen back. */
+function loadUserProfile(
+  apiKey: string,
+  userId: number | string,
+  run: (attempt: (signal?: AbortSignal) => Promise<FetchUserProfileV1Result>) => Promise<FetchUserProfileV1Result>
+): Promise<FetchUserProfileV1Result> {
+  const key = encodeURIComponent(apiKey);
+  return withV1Fallback(
+    'user-profile',
+    () =>
+      run((signal) =>
+        fetchUserProfileOneAttempt(`${tornApiUrl()}/v2/user/${userId}?selections=profile,icons&key=${key}`, 'v2', signal)
+      ),
+    () =>
+      run((signal) =>
+        fetchUserProfileOneAttempt(`${tornApiUrl()}/user/${userId}?key=${key}`, 'v1', signal)
+      )
+  );
+}
+
 /**
- * Fetches user profile from Torn API v1.
+ * Fetches user profile from Torn API v2, falling back to v1.
  * Rate limited to 1 request every 500ms, 250ms timeout per attempt, up to 3 retries.
+ * The call may use a pooled key instead of apiKey (see keyPool.ts).
  */
 export async function fetchUserProfileV1(
   params: FetchUserProfileV1Params
 ): Promise<FetchUserProfileV1Result> {
-  const { apiKey, userId } = params;
+  const { apiKey, userId, signal, priority } = params;
 
   if (!apiKey || apiKey.trim() === '') {
-    return { data: null, error: 'API key is required' };
+    return { data: null, error: validationError('API key is required', 'apiKey') };
   }
 
   if (userId === undefined || userId === null || userId === '') {
-    return { data: null, error: 'User ID is required' };
+    return { data: null, error: validationError('User ID is required', 'userId') };
   }
 
-  return httpWrapper(
-    {
-      rateLimiter: profileRateLimiter,
-      retry: {
-        maxRetries: MAX_RETRIES,
-        isSuccess: (r) =>
-          r.error === null ||
-          (r.error !== null &&
-            (r.error.includes('Torn API Error') ||
-              r.error.startsWith('HTTP error! status: 4'))),
-      },
-      timeoutMs: RUN_TIMEOUT_MS,
-    },
-    () => fetchUserProfileV1OneAttempt(apiKey, userId)
+  return withTornKey(apiKey, 'bounty-status', (key) =>
+    loadUserProfile(key, userId, (attempt) =>
+      httpWrapper(
+        {
+          requestKey: `${CACHE_PREFIX}${String(userId)}`,
+          rateLimiter: profileRateLimiter,
+          budget: getTornBudget(key),
+          retry: tornRetry(key, { maxRetries: MAX_RETRIES }),
+          timeoutMs: RUN_TIMEOUT_MS,
+          signal,
+          priority,
+        },
+        attempt
+      )
+    )
   );
 }
 
 /**
- * Fetches user profile with localStorage cache.
+ * Fetches user profile with the persistent cache.
  * Returns cached data if present and younger than maxAgeMs; otherwise fetches (with retry and
  * rate limit). Before running the request, cache is checked again in case it was updated while
  * waiting in the rate limit queue.
@@ -206,33 +487,31 @@ export async function fetchUserProfileV1Cached(
   params: FetchUserProfileV1Params,
   options: FetchUserProfileV1CachedOptions
 ): Promise<FetchUserProfileV1Result> {
-  const { apiKey, userId } = params;
+  const { apiKey, userId, signal, priority } = params;
   const { maxAgeMs } = options;
 
   if (!apiKey || apiKey.trim() === '') {
-    return { data: null, error: 'API key is required' };
+    return { data: null, error: validationError('API key is required', 'apiKey') };
   }
 
   if (userId === undefined || userId === null || userId === '') {
-    return { data: null, error: 'User ID is required' };
+    return { data: null, error: validationError('User ID is required', 'userId') };
   }
 
-  return httpWrapper(
-    {
-      cache: {
-        storageKey: `${CACHE_PREFIX}${String(userId)}`,
-        maxStalenessMs: maxAgeMs,
-      },
-      retry: {
-        maxRetries: MAX_RETRIES,
-        isSuccess: (r) =>
-          r.error === null ||
-          (r.error !== null &&
-            (r.error.includes('Torn API Error') ||
-              r.error.startsWith('HTTP error! status: 4'))),
-      },
-      timeoutMs: RUN_TIMEOUT_MS,
-    },
-    () => fetchUserProfileV1OneAttempt(apiKey, userId)
+  return withTornKey(apiKey, 'bounty-status', (key) =>
+    loadUserProfile(key, userId, (attempt) =>
+      httpWrapper(
+        {
+          cache: userProfileCache(userId, maxAgeMs),
+          rateLimiter: profileRateLimiter,
+          budget: getTornBudget(key),
+          retry: tornRetry(key, { maxRetries: MAX_RETRIES }),
+          timeoutMs: RUN_TIMEOUT_MS,
+          signal,
+          priority,
+        },
+        attempt
+      )
+    )
   );
 }
@@ -0,0 +1,76 @@
+import { createHandler } from '../../../mock-server/routes';
+import { setMockServerUrl } from '../helpers/apiConfig';
+import { resetV1Fallbacks } from '../helpers/apiGeneration';
+import { fetchUserProfileV1Cached } from './tornUserProfileV1';
+import { fetchUserData } from './userData';
+import { fetchUserPersonalStats } from './userPersonalStats';
+
+describe('fetchUserData', () => {
+  const handle = createHandler({ maxLimit: 100, rateLimit: 1_000, tornError: null, httpStatus: null });
+  let v2Available: boolean;
+
+  beforeEach(() => {
+    localStorage.clear();
+    setMockServerUrl('http://localhost:4010');
+    resetV1Fallbacks();
+    v2Available = true;
+    global.fetch = jest.fn(async (url: string) => {
+      const { status, body } =
+        v2Available || !url.includes('/v2/') ? handle(url) : { status: 404, body: { error: 'Not found' } };
+      return { ok: status < 400, status, json: async () => body };
+    }) as jest.Mock;
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    setMockServerUrl(null);
+    jest.restoreAllMocks();
+  });
+
+  const requestedUrls = () => (global.fetch as jest.Mock).mock.calls.map(([url]) => decodeURIComponent(url as string));
+
+  it('should load several selections with one call and fill their own caches', async () => {
+    const result = await fetchUserData('mock-key', 3000002, ['profile', 'personalstats']);
+
+    expect(result.error).toBeNull();
+    expect(result.data?.profile?.player_id).toBe(3000002);
+    expect(result.data?.personalstats).toEqual(
+      expect.objectContaining({ trainsreceived: expect.any(Number), useractivity: expect.any(Number) })
+    );
+    expect(requestedUrls()).toEqual([expect.stringContaining('/v2/user/3000002?selections=profile,icons,personalstats')]);
+
+    const profile = await fetchUserProfileV1Cached({ apiKey: 'mock-key', userId: 3000002 }, { maxAgeMs: 60_000 });
+    const stats = await fetchUserPersonalStats('mock-key', 3000002);
+    expect(profile.data).toEqual(result.data?.profile);
+    expect(stats.data).toEqual(result.data?.personalstats);
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only ask for the selections that are not cached', async () => {
+    await fetchUserData('mock-key', 3000002, ['profile']);
+    const result = await fetchUserData('mock-key', 3000002, ['profile', 'personalstats']);
+
+    expect(result.data?.profile?.player_id).toBe(3000002);
+    expect(result.data?.personalstats).toBeDefined();
+    expect(requestedUrls()[1]).toContain('selections=personalstats&');
+  });
+
+  it('should read the combined v1 response when v2 is unavailable', async () => {
+    v2Available = false;
+
+    const result = await fetchUserData('mock-key', 3000002, ['profile', 'personalstats']);
+
+    expect(result.error).toBeNull();
+    expect(result.data?.profile?.player_id).toBe(3000002);
+    expect(result.data?.profile).not.toHaveProperty('personalstats');
+    expect(result.data?.personalstats).toBeDefined();
+    expect(requestedUrls()[1]).toContain('/user/3000002?selections=profile,personalstats');
+  });
+
+  it('should return Torn errors without caching anything', async () => {
+    const result = await fetchUserData('error-6', 3000002, ['profile']);
+
+    expect(result.error).toEqual(expect.objectContaining({ kind: 'torn', code: 6 }));
+    expect(localStorage.getItem('torn_user_profile_v1_3000002')).toBeNull();
+  });
+});
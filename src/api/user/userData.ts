@@ -0,0 +1,172 @@
+/**
+ * Several user selections for one player in a single Torn call.
+ *
+ * Pages that need more than one kind of data per player (e.g. profile and
+ * personal stats for every employee) would otherwise make one call per
+ * selection. fetchUserData asks for the selections that aren't cached in one
+ * request, then stores each part in the cache its own fetcher uses, so
+ * fetchUserProfileV1Cached and fetchUserPersonalStats see the results too.
+ */
+
+import { tornApiUrl } from '../helpers/apiConfig';
+import { ApiGeneration, withV1Fallback } from '../helpers/apiGeneration';
+import { Cache } from '../helpers/cache';
+import { DataOrError, RequestOptions, httpWrapper } from '../helpers/httpWrapper';
+import { RateLimiter } from '../helpers/rateLimiter';
+import { getTornBudget } from '../helpers/requestBudget';
+import { fetchTornResponse } from '../helpers/tornFetch';
+import { tornRetry } from '../helpers/tornRetry';
+import { validationError } from '../helpers/tornError';
+import { TornFeature } from '../key/keyCapabilities';
+import { withTornKey } from '../key/keyPool';
+import { UserProfileV1, readUserProfile, userProfileCache } from './tornUserProfileV1';
+import {
+  PERSONAL_STATS_NAMES,
+  UserPersonalStats,
+  readUserPersonalStats,
+  userPersonalStatsCache,
+} from './userPersonalStats';
+
+export interface UserData {
+  profile?: UserProfileV1;
+  personalstats?: UserPersonalStats;
+}
+
+export type UserSelection = keyof UserData;
+
+interface UserSelectionSpec<T> {
+  /** v2 selections (and query parameters) to ask for. */
+  v2: { selections: string[]; params?: Record<string, string> };
+  v1: { selections: string[] };
+  read: (body: unknown, generation: ApiGeneration) => DataOrError<T>;
+  cache: (userId: number | string, maxAgeMs?: number) => Cache<T>;
+}
+
+type UserSelectionSpecs = { [K in UserSelection]-?: UserSelectionSpec<NonNullable<UserData[K]>> };
+
+const DEFAULT_MAX_AGE_MS = 3_600_000; // 1 hour
+const MAX_RETRIES = 3;
+const RUN_TIMEOUT_MS = 1_000;
+
+const SELECTIONS: UserSelectionSpecs = {
+  profile: {
+    v2: { selections: ['profile', 'icons'] },
+    v1: { selections: ['profile'] },
+    read: readUserProfile,
+    cache: (userId, maxAgeMs = DEFAULT_MAX_AGE_MS) => userProfileCache(userId, maxAgeMs),
+  },
+  personalstats: {
+    v2: { selections: ['personalstats'], params: { stat: PERSONAL_STATS_NAMES.join(',') } },
+    v1: { selections: ['personalstats'] },
+    read: readUserPersonalStats,
+    cache: userPersonalStatsCache,
+  },
+};
+
+const userDataRateLimiter = new RateLimiter({ cooldownMs: 50 });
+
+export interface FetchUserDataOptions extends RequestOptions<UserData> {
+  /** Max age of cached parts; each selection's own default when omitted. */
+  maxAgeMs?: number;
+  /**
+   * What the data is for, to choose a pooled key that can serve it (see keyPool.ts).
+   * Pass one feature per selection group when they need different access,
+   * e.g. ['company-employees', 'employee-stats']. Default 'bounty-status'.
+   */
+  feature?: TornFeature | TornFeature[];
+}
+
+function userDataUrl(
+  apiKey: string,
+  userId: number | string,
+  selections: UserSelection[],
+  generation: ApiGeneration
+): string {
+  const query = new URLSearchParams();
+  query.set('selections', selections.flatMap((selection) => SELECTIONS[selection][generation].selections).join(','));
+  if (generation === 'v2') {
+    selections.forEach((selection) =>
+      Object.entries(SELECTIONS[selection].v2.params ?? {}).forEach(([name, value]) => query.set(name, value))
+    );
+  }
+  query.set('key', apiKey);
+  const path = generation === 'v2' ? `v2/user/${userId}` : `user/${userId}`;
+  return `${tornApiUrl()}/${path}?${query.toString()}`;
+}
+
+/** Reads every requested selection from one response; the first unreadable one fails it. */
+function readUserData(body: unknown, selections: UserSelection[], generation: ApiGeneration): DataOrError<UserData> {
+  const data: Record<string, unknown> = {};
+  for (const selection of selections) {
+    const part = SELECTIONS[selection].read(body, generation);
+    if (!part.data) return { data: null, error: part.error };
+    data[selection] = part.data;
+  }
+  return { data: data as UserData, error: null };
+}
+
+/**
+ * Fetches the given selections for one player with a single call, skipping
+ * the ones already cached. Fresh parts are written to each selection's cache.
+ * Uses v2, falling back to v1 like the single-selection fetchers.
+ */
+export async function fetchUserData(
+  apiKey: string,
+  userId: number | string,
+  selections: UserSelection[],
+  options: FetchUserDataOptions = {}
+): Promise<DataOrError<UserData>> {
+  const { maxAgeMs, feature = 'bounty-status', ...requestOptions } = options;
+
+  if (!apiKey || apiKey.trim() === '') {
+    return { data: null, error: validationError('API key is required', 'apiKey') };
+  }
+  if (userId === undefined || userId === null || userId === '') {
+    return { data: null, error: validationError('User ID is required', 'userId') };
+  }
+
+  const data: Record<string, unknown> = {};
+  const missing: UserSelection[] = [];
+  for (const selection of selections) {
+    const cached = await SELECTIONS[selection].cache(userId, maxAgeMs).get();
+    if (cached !== null) data[selection] = cached;
+    else missing.push(selection);
+  }
+  if (missing.length === 0) return { data: data as UserData, error: null };
+
+  const load = (key: string, generation: ApiGeneration) =>
+    httpWrapper<UserData>(
+      {
+        ...requestOptions,
+        requestKey: `torn-user-data-${userId}-${missing.join(',')}`,
+        rateLimiter: userDataRateLimiter,
+        budget: getTornBudget(key),
+        retry: tornRetry(key, { maxRetries: MAX_RETRIES }),
+        timeoutMs: RUN_TIMEOUT_MS,
+      },
+      (signal) =>
+        fetchTornResponse(
+          userDataUrl(key, userId, missing, generation),
+          (body) => readUserData(body, missing, generation),
+          'user data',
+          signal
+        )
+    );
+  const result = await withTornKey(apiKey, feature, (key) =>
+    withV1Fallback(
+      'user-data',
+      () => load(key, 'v2'),
+      () => load(key, 'v1')
+    )
+  );
+  if (!result.data) return result;
+
+  const fetched = result.data;
+  await Promise.all(
+    missing.map((selection) => {
+      const cache = SELECTIONS[selection].cache(userId, maxAgeMs) as Cache<unknown>;
+      return cache.set(fetched[selection]);
+    })
+  );
+  return { data: { ...data, ...fetched }, error: null };
+}
@@ -1,61 +1,117 @@
+import { tornApiUrl } from '../helpers/apiConfig';
+import { ApiGeneration, withV1Fallback } from '../helpers/apiGeneration';
 import { Cache } from '../helpers/cache';
-import { httpWrapper, DataOrError } from '../helpers/httpWrapper';
+import { registerCacheNamespace } from '../helpers/cacheRegistry';
+import { httpWrapper, DataOrError, RequestOptions } from '../helpers/httpWrapper';
 import { RateLimiter } from '../helpers/rateLimiter';
+import { getTornBudget } from '../helpers/requestBudget';
+import { array, number, object, parseResponse, record, string } from '../helpers/schema';
+import { fetchTornResponse, mapData } from '../helpers/tornFetch';
+import { tornRetry } from '../helpers/tornRetry';
 
 export interface UserPersonalStats {
   trainsreceived: number;
   useractivity: number;
 }
 
+/** The stats in UserPersonalStats, for the v2 stat parameter. */
+export const PERSONAL_STATS_NAMES = ['trainsreceived', 'useractivity'];
+
 interface PersonalStatsApiResponse {
   personalstats: Record<string, number>;
 }
 
+const personalStatsResponseSchema = object<PersonalStatsApiResponse>({
+  personalstats: record(number()),
+});
+
+/** Torn v2 user/{id}/personalstats with named stats: a list of name/value pairs. */
+interface PersonalStatsV2Response {
+  personalstats: Array<{ name: string; value: number; timestamp: number }>;
+}
+
+const personalStatsV2ResponseSchema = object<PersonalStatsV2Response>({
+  personalstats: array(
+    object<PersonalStatsV2Response['personalstats'][number]>({
+      name: string(),
+      value: number(),
+      timestamp: number(),
+    })
+  ),
+});
+
+function toUserPersonalStats(personalstats: Record<string, number>): UserPersonalStats {
+  return {
+    trainsreceived: personalstats.trainsreceived ?? 0,
+    useractivity: personalstats.useractivity ?? 0,
+  };
+}
+
+const personalStatsCache = registerCacheNamespace({
+  namespace: 'user-personal-stats',
+  label: 'Personal stats',
+  maxAgeMs: 3_600_000, // 1 hour
+});
+
 const personalStatsRateLimiter = new RateLimiter({ cooldownMs: 250 });
 
+/** Reads the personal stats from a user response, which may hold other selections too (see userData.ts). */
+export function readUserPersonalStats(body: unknown, generation: ApiGeneration): DataOrError<UserPersonalStats> {
+  if (generation === 'v2') {
+    return mapData(parseResponse(body, personalStatsV2ResponseSchema, 'personal stats'), (response) =>
+      toUserPersonalStats(Object.fromEntries(response.personalstats.map((stat) => [stat.name, stat.value])))
+    );
+  }
+  return mapData(parseResponse(body, personalStatsResponseSchema, 'personal stats'), (response) =>
+    toUserPersonalStats(response.personalstats)
+  );
+}
+
+/** The cached personal stats of a user, shared by fetchUserPersonalStats and fetchUserData. */
+export function userPersonalStatsCache(
+  userId: number | string,
+  maxAgeMs = personalStatsCache.maxAgeMs
+): Cache<UserPersonalStats> {
+  return new Cache<UserPersonalStats>({
+    storageKey: `torn-user-personal-stats-${userId}`,
+    maxStalenessMs: maxAgeMs,
+    namespace: personalStatsCache.namespace,
+  });
+}
+
+/** A player's trains received and activity; v2 user/{id}/personalstats, falling back to v1. */
 export async function fetchUserPersonalStats(
   apiKey: string,
-  userId: number | string
+  userId: number | string,
+  options: RequestOptions<UserPersonalStats> = {}
 ): Promise<DataOrError<UserPersonalStats>> {
-  const cache = new Cache<UserPersonalStats>({
-    storageKey: `torn-user-personal-stats-${userId}`,
-    maxStalenessMs: 3_600_000, // 1 hour
-  });
-  return httpWrapper<UserPersonalStats>(
-    {
-      cache,
-      rateLimiter: personalStatsRateLimiter,
-      retry: { maxRetries: 2, isSuccess: (r) => r.error === null },
-    },
-    async () => {
-      try {
-        const response = await fetch(
-          `https://api.torn.com/user/${userId}?selections=personalstats&key=${encodeURIComponent(apiKey)}`
-        );
-        if (!response.ok) {
-          return { data: null, error: `HTTP error: ${response.status}` };
-        }
-        const data = await response.json();
-        if ('error' in data && data.error) {
-          return {
-            data: null,
-            error: `Torn API Error (${data.error.code}): ${data.error.error}`,
-          };
-        }
-        const typed = data as PersonalStatsApiResponse;
-        return {
-          data: {
-            trainsreceived: typed.personalstats.trainsreceived ?? 0,
-            useractivity: typed.personalstats.useractivity ?? 0,
-          },
-          error: null,
-        };
-      } catch (error) {
-        return {
-          data: null,
-          error: `Failed to fetch personal stats: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        };
-      }
-    }
+  const wrapperOptions = {
+    ...options,
+    cache: userPersonalStatsCache(userId),
+    rateLimiter: personalStatsRateLimiter,
+    budget: getTornBudget(apiKey),
+    retry: tornRetry<UserPersonalStats>(apiKey),
+  };
+  const key = encodeURIComponent(apiKey);
+  return withV1Fallback(
+    'personal-stats',
+    () =>
+      httpWrapper(wrapperOptions, (signal) =>
+        fetchTornResponse(
+          `${tornApiUrl()}/v2/user/${userId}/personalstats?stat=${PERSONAL_STATS_NAMES.join(',')}&key=${key}`,
+          (body) => readUserPersonalStats(body, 'v2'),
+          'personal stats',
+          signal
+        )
+      ),
+    () =>
+      httpWrapper(wrapperOptions, (signal) =>
+        fetchTornResponse(
+          `${tornApiUrl()}/user/${userId}?selections=personalstats&key=${key}`,
+          (body) => readUserPersonalStats(body, 'v1'),
+          'personal stats',
+          signal
+        )
+      )
   );
 }
@@ -1,5 +1,12 @@
+import { tornApiUrl } from '../helpers/apiConfig';
+import { withV1Fallback } from '../helpers/apiGeneration';
 import { Cache } from '../helpers/cache';
-import { httpWrapper, DataOrError } from '../helpers/httpWrapper';
+import { registerCacheNamespace } from '../helpers/cacheRegistry';
+import { httpWrapper, DataOrError, RequestOptions } from '../helpers/httpWrapper';
+import { getTornBudget } from '../helpers/requestBudget';
+import { number, object } from '../helpers/schema';
+import { fetchTornJson, mapData } from '../helpers/tornFetch';
+import { tornRetry } from '../helpers/tornRetry';
 
 export interface WorkStats {
   manual_labor: number;
@@ -7,36 +14,54 @@ export interface WorkStats {
   endurance: number;
 }
 
+const workStatsSchema = object<WorkStats>({
+  manual_labor: number(),
+  intelligence: number(),
+  endurance: number(),
+});
+
+const workStatsCacheNamespace = registerCacheNamespace({
+  namespace: 'work-stats',
+  label: 'Work stats',
+  maxAgeMs: 7_200_000, // 2 hours
+});
+
 const workStatsCache = new Cache<WorkStats>({
   storageKey: 'torn-user-workstats',
-  maxStalenessMs: 7_200_000, // 2 hours
+  maxStalenessMs: workStatsCacheNamespace.maxAgeMs,
+  namespace: workStatsCacheNamespace.namespace,
 });
 
-export async function fetchWorkStats(apiKey: string): Promise<DataOrError<WorkStats>> {
-  return httpWrapper<WorkStats>(
-    {
-      cache: workStatsCache,
-      retry: { maxRetries: 2, isSuccess: (r) => r.error === null },
-    },
-    async () => {
-      try {
-        const response = await fetch(
-          `https://api.torn.com/user/?selections=workstats&key=${apiKey}`
-        );
-        if (!response.ok) {
-          return { data: null, error: `HTTP error: ${response.status}` };
-        }
-        const data = await response.json();
-        if ('error' in data && data.error) {
-          return { data: null, error: `Torn API Error (${data.error.code}): ${data.error.error}` };
-        }
-        return { data: data as WorkStats, error: null };
-      } catch (error) {
-        return {
-          data: null,
-          error: `Failed to fetch work stats: ${error instanceof Error ? error.message : 'Unknown error'}`,
-        };
-      }
-    }
+/** Torn v2 user/workstats. */
+interface WorkStatsV2Response {
+  workstats: WorkStats;
+}
+
+const workStatsV2Schema = object<WorkStatsV2Response>({ workstats: workStatsSchema });
+
+/** The key owner's work stats; v2 user/workstats, falling back to v1. */
+export async function fetchWorkStats(
+  apiKey: string,
+  options: RequestOptions<WorkStats> = {}
+): Promise<DataOrError<WorkStats>> {
+  const wrapperOptions = {
+    ...options,
+    cache: workStatsCache,
+    budget: getTornBudget(apiKey),
+    retry: tornRetry<WorkStats>(apiKey),
+  };
+  return withV1Fallback(
+    'work-stats',
+    () =>
+      httpWrapper(wrapperOptions, async (signal) =>
+        mapData(
+          await fetchTornJson(`${tornApiUrl()}/v2/user/workstats?key=${apiKey}`, workStatsV2Schema, 'work stats', signal),
+          (response) => response.workstats
+        )
+      ),
+    () =>
+      httpWrapper(wrapperOptions, (signal) =>
+        fetchTornJson(`${tornApiUrl()}/user/?selections=workstats&key=${apiKey}`, workStatsSchema, 'work stats', signal)
+      )
   );
 }
@@ -0,0 +1,41 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { TornError, isKeyError, isRateLimited } from '../api/helpers/tornError';
+import { useTornBudget } from '../hooks/useTornBudget';
+
+interface ApiErrorNoticeProps {
+  error: TornError;
+  /** Torn API key the failed request used; needed for the rate limit countdown. */
+  apiKey?: string;
+  className?: string;
+  /** Text shown before the error message, e.g. "Work stats unavailable." */
+  prefix?: string;
+}
+
+/**
+ * Shows a fetch error with a next step that fits its kind: a link to Settings
+ * when Torn rejected the key, a countdown when the key is rate limited.
+ */
+const ApiErrorNotice: React.FC<ApiErrorNoticeProps> = ({ error, apiKey = '', className, prefix }) => {
+  const navigate = useNavigate();
+  const budget = useTornBudget(isRateLimited(error) ? apiKey : '');
+
+  return (
+    <div className={className} style={className ? undefined : { color: 'red', marginBottom: '10px' }}>
+      {prefix && `${prefix} `}
+      {error.message}
+      {budget && budget.resetInMs > 0 && (
+        <span> Retrying in {Math.ceil(budget.resetInMs / 1000)}s.</span>
+      )}
+      {isKeyError(error) && (
+        <div>
+          <button onClick={() => navigate('/settings')} style={{ marginTop: '8px', cursor: 'pointer' }}>
+            Go to Settings
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ApiErrorNotice;
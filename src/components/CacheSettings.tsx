@@ -0,0 +1,145 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { toast } from 'react-toastify';
+import {
+  CacheNamespaceStats,
+  getCacheStats,
+  purgeAllCache,
+  purgeCacheNamespace,
+  purgeExpiredCache,
+} from '../api/helpers/cacheRegistry';
+import './CacheSettings.css';
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function formatAge(timestamp: number | null): string {
+  if (timestamp === null) return '-';
+  const minutes = Math.floor((Date.now() - timestamp) / 60_000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  if (minutes < 48 * 60) return `${Math.floor(minutes / 60)} h ago`;
+  return `${Math.floor(minutes / (24 * 60))} days ago`;
+}
+
+function formatMaxAge(ms: number | null): string {
+  if (ms === null) return 'unknown';
+  const hours = ms / 3_600_000;
+  return hours < 48 ? `${hours} h` : `${hours / 24} days`;
+}
+
+/**
+ * Lists the cached API responses per namespace (see cacheRegistry.ts) with
+ * buttons to purge expired entries, one namespace, or everything.
+ */
+const CacheSettings: React.FC = () => {
+  const [stats, setStats] = useState<CacheNamespaceStats[] | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setStats(await getCacheStats());
+    } catch (error) {
+      console.error('Error reading cache stats:', error);
+      setStats([]);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const purge = async (action: () => Promise<number>, what: string) => {
+    setBusy(true);
+    try {
+      const removed = await action();
+      toast.info(`Removed ${removed} ${what}`);
+    } catch (error) {
+      console.error('Error purging cache:', error);
+      toast.error('Could not clear the cache');
+    } finally {
+      setBusy(false);
+      refresh();
+    }
+  };
+
+  const totals = (stats ?? []).reduce(
+    (sum, item) => ({ entries: sum.entries + item.entries, bytes: sum.bytes + item.bytes, expired: sum.expired + item.expired }),
+    { entries: 0, bytes: 0, expired: 0 }
+  );
+
+  return (
+    <div className="cache-settings">
+      <h3>Cached Data</h3>
+      <p className="cache-settings-description">
+        API responses are cached in the browser to save requests. Expired entries are no longer used and only take up space.
+      </p>
+      {stats === null ? (
+        <p className="cache-settings-description">Loading…</p>
+      ) : (
+        <table className="cache-settings-table">
+          <thead>
+            <tr>
+              <th>Data</th>
+              <th>Kept for</th>
+              <th>Entries</th>
+              <th>Expired</th>
+              <th>Size</th>
+              <th>Oldest</th>
+              <th>Newest</th>
+              <th />
+            </tr>
+          </thead>
+          <tbody>
+            {stats.map((item) => (
+              <tr key={item.namespace}>
+                <td title={item.namespace}>{item.label}</td>
+                <td>{formatMaxAge(item.maxAgeMs)}</td>
+                <td>{item.entries}</td>
+                <td>{item.expired}</td>
+                <td>{formatBytes(item.bytes)}</td>
+                <td>{formatAge(item.oldest)}</td>
+                <td>{formatAge(item.newest)}</td>
+                <td className="cache-settings-actions">
+                  <button
+                    disabled={busy || item.expired === 0}
+                    onClick={() => purge(() => purgeExpiredCache(item.namespace), `expired ${item.label.toLowerCase()} entries`)}
+                  >
+                    Purge expired
+                  </button>
+                  <button
+                    disabled={busy || item.entries === 0}
+                    onClick={() => purge(() => purgeCacheNamespace(item.namespace), `${item.label.toLowerCase()} entries`)}
+                  >
+                    Purge
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr>
+              <td>Total</td>
+              <td />
+              <td>{totals.entries}</td>
+              <td>{totals.expired}</td>
+              <td>{formatBytes(totals.bytes)}</td>
+              <td colSpan={3} className="cache-settings-actions">
+                <button disabled={busy || totals.expired === 0} onClick={() => purge(() => purgeExpiredCache(), 'expired entries')}>
+                  Purge all expired
+                </button>
+                <button disabled={busy || totals.entries === 0} onClick={() => purge(purgeAllCache, 'cached entries')}>
+                  Purge all
+                </button>
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+      )}
+    </div>
+  );
+};
+
+export default CacheSettings;
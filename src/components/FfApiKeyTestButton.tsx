@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
 import { toast } from 'react-toastify';
+import { ffScouterApiUrl } from '../api/helpers/apiConfig';
+import { loggedFetch } from '../api/helpers/requestLog';
 import './FfApiKeyTestButton.css';
 
 interface FfApiKeyTestButtonProps {
@@ -25,8 +27,8 @@ const FfApiKeyTestButton: React.FC<FfApiKeyTestButtonProps> = ({ apiKey }) => {
     setIsLoading(true);
 
     try {
-      const response = await fetch(
-        `https://ffscouter.com/api/v1/check-key?key=${encodeURIComponent(apiKey)}`
+      const response = await loggedFetch(
+        `${ffScouterApiUrl()}/api/v1/check-key?key=${encodeURIComponent(apiKey)}`
       );
 
       if (!response.ok) {
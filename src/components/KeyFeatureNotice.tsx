@@ -0,0 +1,32 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { TORN_FEATURES, TornFeature } from '../api/key/keyCapabilities';
+import { TornFeatureAccess } from '../hooks/useTornKeyInfo';
+
+interface KeyFeatureNoticeProps {
+  feature: TornFeature;
+  access: TornFeatureAccess;
+  className?: string;
+}
+
+/**
+ * Explains that the Torn API key can't serve a feature (see useTornFeature),
+ * with a link to Settings. Renders nothing while the feature is allowed.
+ */
+const KeyFeatureNotice: React.FC<KeyFeatureNoticeProps> = ({ feature, access, className }) => {
+  const navigate = useNavigate();
+  if (access.allowed) return null;
+
+  return (
+    <div className={className} style={className ? undefined : { color: 'orange', marginBottom: '10px' }}>
+      {TORN_FEATURES[feature].label} needs {access.missing.join(', ')}, which your Torn API key does not grant.
+      <div>
+        <button onClick={() => navigate('/settings')} style={{ marginTop: '8px', cursor: 'pointer' }}>
+          Go to Settings
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default KeyFeatureNotice;
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { toast } from 'react-toastify';
+import { useKeyVault } from '../hooks/useKeyVault';
+import { disableKeyVault, enableKeyVault, lockKeyVault } from '../storage/keyVault';
+import './KeyVault.css';
+
+/** Settings section for encrypting the stored API keys with a passphrase. */
+const KeyVaultSettings: React.FC = () => {
+  const state = useKeyVault();
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast.success(success);
+    } catch (error) {
+      console.error('Error changing key encryption:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not change key encryption');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleEnable = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase !== confirmation) {
+      toast.error('Passphrases do not match');
+      return;
+    }
+    run(async () => {
+      await enableKeyVault(passphrase);
+      setPassphrase('');
+      setConfirmation('');
+    }, 'API keys are now encrypted');
+  };
+
+  return (
+    <div className="key-vault-settings">
+      <h3>Key Encryption</h3>
+      <p className="key-vault-settings-description">
+        Encrypt the stored API keys with a passphrase, so they can't be read from the browser profile. You enter the
+        passphrase in each tab and again after a reload. If you forget it, clear the keys and enter them again.
+      </p>
+      {state === 'disabled' && (
+        <form onSubmit={handleEnable}>
+          <input
+            type="password"
+            placeholder="Passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            autoComplete="new-password"
+          />
+          <input
+            type="password"
+            placeholder="Repeat passphrase"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            autoComplete="new-password"
+          />
+          <button type="submit" disabled={busy || passphrase === ''}>
+            {busy ? 'Encrypting...' : 'Encrypt keys'}
+          </button>
+        </form>
+      )}
+      {state === 'locked' && <p>Keys are encrypted and locked. Unlock them with the form at the top of the page.</p>}
+      {state === 'unlocked' && (
+        <div>
+          <span>Keys are encrypted and unlocked in this tab. </span>
+          <button onClick={lockKeyVault} disabled={busy}>
+            Lock now
+          </button>
+          <button onClick={() => run(disableKeyVault, 'API keys are stored unencrypted again')} disabled={busy}>
+            Stop encrypting
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default KeyVaultSettings;
@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { toast } from 'react-toastify';
+import { useKeyVault } from '../hooks/useKeyVault';
+import { unlockKeyVault } from '../storage/keyVault';
+import './KeyVault.css';
+
+/**
+ * Passphrase prompt shown on every page while the stored API keys are
+ * encrypted and this tab has not unlocked them yet.
+ */
+const KeyVaultUnlock: React.FC = () => {
+  const state = useKeyVault();
+  const [passphrase, setPassphrase] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  if (state !== 'locked') return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    try {
+      if (await unlockKeyVault(passphrase)) {
+        setPassphrase('');
+      } else {
+        toast.error('Wrong passphrase');
+      }
+    } catch (error) {
+      console.error('Error unlocking the key vault:', error);
+      toast.error('Could not unlock your API keys');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <form className="key-vault-unlock" onSubmit={handleSubmit}>
+      <span>Your API keys are encrypted. Enter your passphrase to use them in this tab:</span>
+      <input
+        type="password"
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        autoComplete="current-password"
+        aria-label="Passphrase"
+      />
+      <button type="submit" disabled={busy || passphrase === ''}>
+        {busy ? 'Unlocking...' : 'Unlock'}
+      </button>
+    </form>
+  );
+};
+
+export default KeyVaultUnlock;
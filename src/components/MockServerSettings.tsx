@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+import { toast } from 'react-toastify';
+import { DEFAULT_MOCK_SERVER_URL, setMockServerUrl } from '../api/helpers/apiConfig';
+import { getCacheStore } from '../api/helpers/cacheStore';
+import { useMockServerUrl } from '../hooks/useMockServerUrl';
+import './MockServerSettings.css';
+
+/**
+ * Switch for pointing all API calls at the local mock server (npm run mock-server)
+ * instead of the live Torn and FFScouter APIs.
+ */
+const MockServerSettings: React.FC = () => {
+  const mockServerUrl = useMockServerUrl();
+  const [urlInput, setUrlInput] = useState(mockServerUrl ?? DEFAULT_MOCK_SERVER_URL);
+
+  const switchTo = async (url: string | null) => {
+    setMockServerUrl(url);
+    // Cached responses came from the other server; don't let live and mock data mix
+    try {
+      const store = await getCacheStore();
+      await store.clear();
+    } catch (error) {
+      console.error('Error clearing cache after switching API server:', error);
+    }
+    toast.info(url ? `API calls now go to ${url}` : 'API calls now go to the live APIs');
+  };
+
+  return (
+    <div className="mock-server-settings">
+      <h3>Local Mock Server</h3>
+      <p className="mock-server-settings-description">
+        For offline development: serve fixture data from <code>npm run mock-server</code> instead of
+        calling Torn and FFScouter. Any API key works; see mock-server/README.md for keys that simulate errors.
+      </p>
+      <label>
+        <input
+          type="checkbox"
+          checked={mockServerUrl !== null}
+          onChange={(e) => switchTo(e.target.checked ? urlInput.trim() || DEFAULT_MOCK_SERVER_URL : null)}
+        />
+        Use local mock server
+      </label>
+      <label>
+        URL
+        <input
+          type="text"
+          value={urlInput}
+          onChange={(e) => setUrlInput(e.target.value)}
+          onBlur={() => {
+            if (mockServerUrl !== null && urlInput.trim() && urlInput.trim() !== mockServerUrl) {
+              switchTo(urlInput.trim());
+            }
+          }}
+        />
+      </label>
+    </div>
+  );
+};
+
+export default MockServerSettings;
@@ -0,0 +1,63 @@
+import React, { useEffect, useState } from 'react';
+import { RefreshJobState, refreshNow } from '../api/helpers/refreshScheduler';
+import './RefreshIndicator.css';
+
+function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  if (seconds < 60) return `${seconds}s`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+function describe(job: RefreshJobState, now: number): string {
+  switch (job.status) {
+    case 'running':
+      return 'refreshing…';
+    case 'queued':
+      return 'refresh queued';
+    case 'postponed':
+      return 'waiting for API budget';
+    case 'scheduled':
+      return job.nextRefreshAt === null ? '' : `next in ${formatDuration(job.nextRefreshAt - now)}`;
+  }
+}
+
+interface RefreshIndicatorProps {
+  /** State from useRefreshJob; nothing is shown while the job isn't registered. */
+  job: RefreshJobState | null;
+}
+
+/** "Refreshed 2m ago · next in 45s" for a background refresh job, with a button to refresh now. */
+const RefreshIndicator: React.FC<RefreshIndicatorProps> = ({ job }) => {
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  if (!job) return null;
+
+  const busy = job.status === 'running' || job.status === 'queued';
+  return (
+    <div className="refresh-indicator" title={`Background refresh: ${job.label}`}>
+      <span>
+        {job.lastRefreshedAt === null
+          ? 'Not refreshed yet'
+          : `Refreshed ${formatDuration(now - job.lastRefreshedAt)} ago`}
+        {' · '}
+        {describe(job, now)}
+      </span>
+      {job.lastError && (
+        <span className="refresh-indicator-error">
+          {' '}· last refresh failed: {job.lastError.message}
+        </span>
+      )}
+      <button className="refresh-indicator-button" onClick={() => refreshNow(job.id)} disabled={busy}>
+        Refresh now
+      </button>
+    </div>
+  );
+};
+
+export default RefreshIndicator;
@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { toast } from 'react-toastify';
+import {
+  SettingsFile,
+  SettingsImportMode,
+  exportSettings,
+  importSettings,
+  parseSettingsFile,
+  previewSettingsImport,
+  settingsFileName,
+} from '../storage/settingsTransfer';
+import './SettingsTransfer.css';
+
+const CHANGE_LABELS = {
+  added: 'will be added',
+  changed: 'will be overwritten',
+  unchanged: 'unchanged',
+  removed: 'will be reset',
+};
+
+function download(file: SettingsFile): void {
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = settingsFileName(file);
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Settings section for saving filters, hidden company types and (optionally)
+ * API keys to a file and loading them in another browser; see settingsTransfer.ts.
+ */
+const SettingsTransfer: React.FC<{ locked: boolean }> = ({ locked }) => {
+  const [includeApiKeys, setIncludeApiKeys] = useState(false);
+  const [pending, setPending] = useState<SettingsFile | null>(null);
+  const [mode, setMode] = useState<SettingsImportMode>('merge');
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0];
+    e.target.value = '';
+    if (!selected) return;
+    const result = parseSettingsFile(await selected.text());
+    if (!result.data) {
+      toast.error(result.error?.message ?? 'Could not read the settings file');
+      return;
+    }
+    setPending(result.data);
+  };
+
+  const handleImport = () => {
+    if (!pending) return;
+    try {
+      importSettings(pending, mode);
+      setPending(null);
+      toast.success('Settings imported');
+    } catch (error) {
+      console.error('Error importing settings:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not import the settings');
+    }
+  };
+
+  const changes = pending ? previewSettingsImport(pending, mode) : [];
+
+  return (
+    <div className="settings-transfer">
+      <h3>Export / Import Settings</h3>
+      <p className="settings-transfer-description">
+        Save your filters, hidden company types and mock server choice to a file, to load them in another browser or
+        share your setup.
+      </p>
+      <div>
+        <label>
+          <input
+            type="checkbox"
+            checked={includeApiKeys}
+            onChange={(e) => setIncludeApiKeys(e.target.checked)}
+            disabled={locked}
+          />{' '}
+          Include API keys
+        </label>
+        <button onClick={() => download(exportSettings(includeApiKeys))}>Export</button>
+      </div>
+      {includeApiKeys && (
+        <p className="settings-transfer-warning">
+          The file will contain your API keys in plain text. Don't share it, and delete it once imported.
+        </p>
+      )}
+      <div>
+        <label>
+          Import from file: <input type="file" accept="application/json,.json" onChange={handleFile} />
+        </label>
+      </div>
+      {pending && (
+        <div className="settings-transfer-preview">
+          <p>
+            Exported {new Date(pending.exportedAt).toLocaleString()}
+            {pending.containsApiKeys && <strong className="settings-transfer-warning"> · contains API keys</strong>}
+          </p>
+          <div>
+            <label>
+              <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} /> Merge (keep
+              settings the file doesn't have)
+            </label>
+            <label>
+              <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} /> Replace
+            </label>
+          </div>
+          {changes.length === 0 ? (
+            <p>Nothing to import.</p>
+          ) : (
+            <table>
+              <tbody>
+                {changes.map((change) => (
+                  <tr key={change.label} className={`settings-transfer-change--${change.change}`}>
+                    <td>
+                      {change.label}
+                      {change.isApiKey && ' 🔑'}
+                    </td>
+                    <td>{CHANGE_LABELS[change.change]}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {pending.containsApiKeys && locked && (
+            <p className="settings-transfer-warning">Unlock your API keys to import this file.</p>
+          )}
+          <div>
+            <button onClick={handleImport} disabled={changes.length === 0 || (pending.containsApiKeys && locked)}>
+              Import
+            </button>
+            <button onClick={() => setPending(null)}>Cancel</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SettingsTransfer;
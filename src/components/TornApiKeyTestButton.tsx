@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { toast } from 'react-toastify';
+import { TORN_FEATURES, TornFeature, canUseFeature, missingSelections } from '../api/key/keyCapabilities';
+import { fetchTornKeyInfo } from '../api/key/keyInfo';
+import { useTornKeyInfo } from '../hooks/useTornKeyInfo';
+import './FfApiKeyTestButton.css';
+import './TornApiKeyTestButton.css';
+
+interface TornApiKeyTestButtonProps {
+  apiKey: string;
+}
+
+/**
+ * Checks the Torn API key: access level, owner, granted selections, and which
+ * features of the app it can serve.
+ */
+const TornApiKeyTestButton: React.FC<TornApiKeyTestButtonProps> = ({ apiKey }) => {
+  const [isLoading, setIsLoading] = useState(false);
+  const info = useTornKeyInfo(apiKey);
+
+  const handleTestApiKey = async () => {
+    if (!apiKey || apiKey.trim() === '') {
+      toast.error('Please enter an API key first');
+      return;
+    }
+
+    setIsLoading(true);
+    const result = await fetchTornKeyInfo(apiKey, { priority: 'interactive' });
+    setIsLoading(false);
+
+    if (result.data) {
+      toast.success(`✓ API Key is valid: ${result.data.accessType}, owned by ${result.data.owner.name}`, {
+        autoClose: 5000,
+      });
+    } else if (result.error) {
+      toast.error(`Failed to verify API key: ${result.error.message}`);
+    }
+  };
+
+  return (
+    <div className="ff-api-key-test-container">
+      <h3>Test Torn API Key</h3>
+      <p className="test-description">
+        Click the button below to check what your Torn API key can access.
+      </p>
+      <button className="test-button" onClick={handleTestApiKey} disabled={isLoading || !apiKey}>
+        {isLoading ? 'Testing...' : 'Test API Key'}
+      </button>
+      {info && (
+        <div className="torn-key-info">
+          <p>
+            <strong>{info.accessType}</strong> key of {info.owner.name} [{info.owner.id}]
+          </p>
+          <table className="torn-key-features">
+            <tbody>
+              {(Object.keys(TORN_FEATURES) as TornFeature[]).map((feature) => {
+                const allowed = canUseFeature(info, feature);
+                return (
+                  <tr key={feature} className={allowed ? 'torn-key-feature--ok' : 'torn-key-feature--missing'}>
+                    <td>{allowed ? '✓' : '✗'}</td>
+                    <td>{TORN_FEATURES[feature].label}</td>
+                    <td>{allowed ? '' : `needs ${missingSelections(info, feature).join(', ')}`}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <details>
+            <summary>Granted selections</summary>
+            {Object.entries(info.selections).map(([section, selections]) => (
+              <p key={section} className="torn-key-selections">
+                <strong>{section}:</strong> {selections.length > 0 ? selections.join(', ') : 'none'}
+              </p>
+            ))}
+          </details>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TornApiKeyTestButton;
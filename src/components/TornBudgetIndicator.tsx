@@ -0,0 +1,33 @@
+import React from 'react';
+import { usePassword } from '../hooks/usePassword';
+import { useTornBudget } from '../hooks/useTornBudget';
+import './TornBudgetIndicator.css';
+
+/**
+ * Shows how many Torn API calls are left this minute for the configured key,
+ * and when requests are paused waiting for the budget to refill.
+ */
+const TornBudgetIndicator: React.FC = () => {
+  const { password: apiKey } = usePassword('torn-api-key');
+  const budget = useTornBudget(apiKey);
+
+  if (!budget) return null;
+
+  const isPaused = budget.remaining === 0;
+  return (
+    <div
+      className={`torn-budget-indicator ${isPaused ? 'torn-budget-indicator--paused' : ''}`}
+      title="Torn API calls left in the last 60 seconds for your key"
+    >
+      {budget.remaining}/{budget.limit} calls left this minute
+      {isPaused && (
+        <span className="torn-budget-indicator-wait">
+          {' '}· paused {Math.ceil(budget.resetInMs / 1000)}s
+          {budget.waiting > 0 ? ` (${budget.waiting} queued)` : ''}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default TornBudgetIndicator;
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { toast } from 'react-toastify';
+import { clearApiKeyFlag } from '../api/helpers/apiKeyFlags';
+import { PooledTornKey, addPooledTornKey, removePooledTornKey } from '../api/key/keyPool';
+import { useApiKeyFlag } from '../hooks/useApiKeyFlag';
+import { useTornBudget } from '../hooks/useTornBudget';
+import { useTornKeyInfo } from '../hooks/useTornKeyInfo';
+import { useTornKeyPool } from '../hooks/useTornKeyPool';
+import './TornKeyPoolSettings.css';
+
+const PooledKeyRow: React.FC<{ entry: PooledTornKey }> = ({ entry }) => {
+  const budget = useTornBudget(entry.key);
+  const flag = useApiKeyFlag(entry.key);
+  const info = useTornKeyInfo(entry.key);
+
+  const handleRemove = () => {
+    removePooledTornKey(entry.id);
+    clearApiKeyFlag(entry.key);
+  };
+
+  return (
+    <tr>
+      <td>{entry.name}</td>
+      <td className="torn-key-pool-key">…{entry.key.slice(-4)}</td>
+      <td>
+        {flag ? (
+          <span className="torn-key-pool-status--rejected">Rejected ({flag.message})</span>
+        ) : info ? (
+          `${info.accessType}, ${info.owner.name}`
+        ) : (
+          'Checking...'
+        )}
+      </td>
+      <td>{budget ? `${budget.remaining}/${budget.limit}` : '-'}</td>
+      <td>
+        <button onClick={handleRemove}>Remove</button>
+      </td>
+    </tr>
+  );
+};
+
+/**
+ * Settings section for the shared Torn keys that heavy pulls (bounty lists,
+ * company sweeps, ...) are spread across; see api/key/keyPool.ts.
+ */
+const TornKeyPoolSettings: React.FC<{ locked: boolean }> = ({ locked }) => {
+  const pool = useTornKeyPool();
+  const [name, setName] = useState('');
+  const [key, setKey] = useState('');
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmedKey = key.trim();
+    if (pool.some((entry) => entry.key === trimmedKey)) {
+      toast.error('This key is already in the pool');
+      return;
+    }
+    try {
+      addPooledTornKey(name.trim() || `Key ${pool.length + 1}`, trimmedKey);
+      setName('');
+      setKey('');
+    } catch (error) {
+      console.error('Error adding pooled Torn key:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not add the key');
+    }
+  };
+
+  return (
+    <div className="torn-key-pool">
+      <h3>Shared Torn Keys</h3>
+      <p className="torn-key-pool-description">
+        Bounty lists, bounty target status and company pages spread their requests over these keys and your own,
+        using whichever has the most calls left this minute. Keys Torn rejects or that lack access are skipped. Your
+        own key is still used for personal data such as work stats.
+      </p>
+      {locked ? (
+        <p>Unlock your API keys to manage the shared keys.</p>
+      ) : (
+        <>
+          {pool.length > 0 && (
+            <table>
+              <thead>
+                <tr>
+                  <th>Name</th>
+                  <th>Key</th>
+                  <th>Status</th>
+                  <th>Calls left</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {pool.map((entry) => (
+                  <PooledKeyRow key={entry.id} entry={entry} />
+                ))}
+              </tbody>
+            </table>
+          )}
+          <form onSubmit={handleAdd}>
+            <input type="text" placeholder="Name" value={name} onChange={(e) => setName(e.target.value)} />
+            <input
+              type="password"
+              placeholder="Torn API key"
+              value={key}
+              onChange={(e) => setKey(e.target.value)}
+              autoComplete="off"
+            />
+            <button type="submit" disabled={key.trim() === ''}>
+              Add key
+            </button>
+          </form>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default TornKeyPoolSettings;
@@ -1,5 +1,6 @@
 import React from 'react';
 import Button from '../Button';
+import { BountyScanState } from '../../hooks/useBountiesData';
 import './BountiesActionBar.css';
 
 interface BountiesActionBarProps {
@@ -16,11 +17,39 @@ interface BountiesActionBarProps {
   userStatusTotalCount: number;
   userStatusAllLoaded: boolean;
   hasFfApiKey: boolean;
+  /** False when the Torn API key can't serve the request; see useTornFeature. */
+  canLoadBounties: boolean;
+  canLoadUserStatus: boolean;
   onLoadBounties: () => void;
   onLoadFairFight: () => void;
   onLoadUserStatus: () => void;
+  scan: BountyScanState;
+  /** Torn API calls the next scan may make. */
+  scanCallBudget: number;
+  onScanCallBudgetChange: (callBudget: number) => void;
+  onStartScan: () => void;
+  onPauseScan: () => void;
+  onResumeScan: () => void;
+  onStopScan: () => void;
 }
 
+type ScanStage = NonNullable<BountyScanState['stage']>;
+
+const SCAN_STAGES: ScanStage[] = ['bounties', 'fairFight', 'userStatus'];
+
+const SCAN_STAGE_LABELS: Record<ScanStage, string> = {
+  bounties: 'Bounties',
+  fairFight: 'FF scores',
+  userStatus: 'Status',
+};
+
+const SCAN_STATUS_LABELS: Record<BountyScanState['status'], string> = {
+  idle: '',
+  running: 'Scanning',
+  paused: 'Scan paused',
+  done: 'Scan finished',
+};
+
 const BountiesActionBar: React.FC<BountiesActionBarProps> = ({
   loading,
   loadingProgress,
@@ -35,44 +64,116 @@ const BountiesActionBar: React.FC<BountiesActionBarProps> = ({
   userStatusTotalCount,
   userStatusAllLoaded,
   hasFfApiKey,
+  canLoadBounties,
+  canLoadUserStatus,
   onLoadBounties,
   onLoadFairFight,
   onLoadUserStatus,
+  scan,
+  scanCallBudget,
+  onScanCallBudgetChange,
+  onStartScan,
+  onPauseScan,
+  onResumeScan,
+  onStopScan,
 }) => {
+  const scanning = scan.status === 'running';
+  const scanActive = scanning || scan.status === 'paused';
+
+  const stageProgress: Record<ScanStage, string> = {
+    bounties: loading ? `${loadingProgress} listings` : `${totalBounties} targets`,
+    fairFight: hasFfApiKey ? `${ffLoadedCount}/${ffTotalCount}` : 'no FFScouter key',
+    userStatus: `${userStatusLoadedCount}/${userStatusTotalCount}`,
+  };
+
   return (
-    <div className="bounties-action-bar">
-      <Button onClick={onLoadBounties} disabled={loading}>
-        {loading
-          ? `Loading bounties${loadingProgress > 0 ? ` (${loadingProgress}...)` : '...'}`
-          : 'Load Bounties'}
-      </Button>
+    <>
+      <div className="bounties-action-bar">
+        {scanActive ? (
+          <>
+            {scanning ? (
+              <Button onClick={onPauseScan}>Pause Scan</Button>
+            ) : (
+              <Button onClick={onResumeScan}>Resume Scan</Button>
+            )}
+            <Button onClick={onStopScan}>Stop Scan</Button>
+          </>
+        ) : (
+          <Button onClick={onStartScan} disabled={loading || !canLoadBounties}>
+            Scan
+          </Button>
+        )}
+        <label className="bounties-action-bar-budget">
+          <span>Call budget</span>
+          <input
+            type="number"
+            className="bounties-action-bar-budget-input"
+            value={scanCallBudget}
+            onChange={(e) => onScanCallBudgetChange(Math.max(1, Number(e.target.value) || 1))}
+            disabled={scanActive}
+            min="1"
+          />
+        </label>
+
+        <Button onClick={onLoadBounties} disabled={loading || scanning || !canLoadBounties}>
+          {loading
+            ? `Loading bounties${loadingProgress > 0 ? ` (${loadingProgress}...)` : '...'}`
+            : 'Load Bounties'}
+        </Button>
 
-      {totalBounties > 0 && (
-        <>
-          <span className="bounties-action-bar-count">
-            <strong>{filteredBounties}</strong> of <strong>{totalBounties}</strong> bounties shown
-          </span>
-          {hasFfApiKey && (
+        {totalBounties > 0 && (
+          <>
+            <span className="bounties-action-bar-count">
+              <strong>{filteredBounties}</strong> of <strong>{totalBounties}</strong> targets shown
+            </span>
+            {hasFfApiKey && (
+              <Button
+                onClick={onLoadFairFight}
+                disabled={loadingFairFight || scanning || ffAllLoaded || ffTotalCount === 0}
+              >
+                {loadingFairFight
+                  ? 'Loading FF...'
+                  : `Load FF Scores (${ffLoadedCount}/${ffTotalCount})`}
+              </Button>
+            )}
             <Button
-              onClick={onLoadFairFight}
-              disabled={loadingFairFight || ffAllLoaded || ffTotalCount === 0}
+              onClick={onLoadUserStatus}
+              disabled={
+                loadingUserStatus ||
+                scanning ||
+                !canLoadUserStatus ||
+                userStatusTotalCount === 0 ||
+                userStatusAllLoaded
+              }
             >
-              {loadingFairFight
-                ? 'Loading FF...'
-                : `Load FF Scores (${ffLoadedCount}/${ffTotalCount})`}
+              {loadingUserStatus
+                ? 'Loading Status...'
+                : `Load User Status (${userStatusLoadedCount}/${userStatusTotalCount})`}
             </Button>
+          </>
+        )}
+      </div>
+
+      {scan.status !== 'idle' && (
+        <div className="bounties-action-bar-scan">
+          <strong>{SCAN_STATUS_LABELS[scan.status]}</strong>
+          {SCAN_STAGES.map((stage) => (
+            <span
+              key={stage}
+              className={scan.stage === stage ? 'bounties-action-bar-scan-stage--active' : undefined}
+            >
+              {SCAN_STAGE_LABELS[stage]}: {stageProgress[stage]}
+            </span>
+          ))}
+          <span>API calls: {scan.callsUsed}/{scan.callBudget}</span>
+          {scan.budgetExhausted && (
+            <span className="bounties-action-bar-scan-warning">
+              Call budget used up before every status was loaded
+            </span>
           )}
-          <Button
-            onClick={onLoadUserStatus}
-            disabled={loadingUserStatus || userStatusTotalCount === 0 || userStatusAllLoaded}
-          >
-            {loadingUserStatus
-              ? 'Loading Status...'
-              : `Load User Status (${userStatusLoadedCount}/${userStatusTotalCount})`}
-          </Button>
-        </>
+        </div>
       )}
-    </div>
+    </>
   );
 };
 
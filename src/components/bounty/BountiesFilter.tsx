@@ -84,7 +84,7 @@ const BountiesFilter: React.FC<BountiesFilterProps> = ({ filters, onFilterChange
 
           {/* Reward Filter */}
           <div className="bounties-filter-group">
-            <strong>Reward</strong>
+            <strong>Total Reward</strong>
             <label className="bounties-filter-label">
               <span>Min ($)</span>
               <input
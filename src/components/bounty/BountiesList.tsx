@@ -1,12 +1,17 @@
 import React from 'react';
 import { useNavigate } from 'react-router-dom';
-import { usePassword } from '../../hooks';
-import { usePersistedFilters } from '../../hooks/usePersistedFilters';
+import { usePassword, useTornFeature } from '../../hooks';
+import { usePersistedState } from '../../hooks/usePersistedState';
 import { useBountiesData } from '../../hooks/useBountiesData';
 import BountiesFilter, { FilterCriteria } from './BountiesFilter';
 import BountiesActionBar from './BountiesActionBar';
 import BountyListTable from './BountyListTable';
+import BountyValuePanel, { BountyValueSettings } from './BountyValuePanel';
+import { DEFAULT_BOUNTY_VALUE_WEIGHTS } from './bountyValue';
 import Button from '../Button';
+import KeyFeatureNotice from '../KeyFeatureNotice';
+import RefreshIndicator from '../RefreshIndicator';
+import { definePersistedState } from '../../storage/persistedState';
 import './BountiesList.css';
 
 const DEFAULT_FILTERS: FilterCriteria = {
@@ -20,11 +25,36 @@ const DEFAULT_FILTERS: FilterCriteria = {
   maxTimeRemaining: null,
 };
 
+const bountiesFiltersState = definePersistedState<FilterCriteria>({
+  storageKey: 'bounties-filters',
+  label: 'Bounty filters',
+  version: 1,
+  defaults: DEFAULT_FILTERS,
+});
+
+const bountyValueState = definePersistedState<BountyValueSettings>({
+  storageKey: 'bounties-value',
+  label: 'Bounty value weights',
+  version: 1,
+  defaults: { ...DEFAULT_BOUNTY_VALUE_WEIGHTS, rankByValue: false },
+});
+
+const bountiesScanState = definePersistedState<{ callBudget: number }>({
+  storageKey: 'bounties-scan',
+  label: 'Bounty scan call budget',
+  version: 1,
+  defaults: { callBudget: 300 },
+});
+
 const BountiesList: React.FC = () => {
   const { password: apiKey } = usePassword('torn-api-key');
   const { password: ffApiKey } = usePassword('ff-api-key');
+  const bountiesAccess = useTornFeature(apiKey, 'bounties');
+  const statusAccess = useTornFeature(apiKey, 'bounty-status');
   const navigate = useNavigate();
-  const [filters, setFilters] = usePersistedFilters<FilterCriteria>('bounties-filters', DEFAULT_FILTERS);
+  const [filters, setFilters] = usePersistedState(bountiesFiltersState);
+  const [valueSettings, setValueSettings] = usePersistedState(bountyValueState);
+  const [scanSettings, setScanSettings] = usePersistedState(bountiesScanState);
   const {
     bounties,
     fairFightData,
@@ -43,6 +73,13 @@ const BountiesList: React.FC = () => {
     loadBounties,
     loadFairFightBatch,
     loadUserStatusBatch,
+    scan,
+    startScan,
+    pauseScan,
+    resumeScan,
+    stopScan,
+    bountiesRefreshJob,
+    userStatusRefreshJob,
   } = useBountiesData(apiKey, ffApiKey, filters);
 
   if (!apiKey) {
@@ -60,6 +97,10 @@ const BountiesList: React.FC = () => {
       <h2>Torn Bounties</h2>
 
       <BountiesFilter filters={filters} onFilterChange={setFilters} />
+      <BountyValuePanel settings={valueSettings} onChange={setValueSettings} />
+
+      <KeyFeatureNotice feature="bounties" access={bountiesAccess} />
+      <KeyFeatureNotice feature="bounty-status" access={statusAccess} />
 
       <BountiesActionBar
         loading={loading}
@@ -75,13 +116,25 @@ const BountiesList: React.FC = () => {
         userStatusTotalCount={ffFilteredBounties.length}
         userStatusAllLoaded={userStatusAllLoaded}
         hasFfApiKey={!!ffApiKey}
+        canLoadBounties={bountiesAccess.allowed}
+        canLoadUserStatus={statusAccess.allowed}
         onLoadBounties={loadBounties}
         onLoadFairFight={loadFairFightBatch}
         onLoadUserStatus={loadUserStatusBatch}
+        scan={scan}
+        scanCallBudget={scanSettings.callBudget}
+        onScanCallBudgetChange={(callBudget) => setScanSettings({ callBudget })}
+        onStartScan={() => startScan({ callBudget: scanSettings.callBudget, loadUserStatus: statusAccess.allowed })}
+        onPauseScan={pauseScan}
+        onResumeScan={resumeScan}
+        onStopScan={stopScan}
       />
 
+      <RefreshIndicator job={bountiesRefreshJob} />
+      <RefreshIndicator job={userStatusRefreshJob} />
+
       {!loading && bounties.length === 0 && (
-        <p>No bounties loaded. Set your filters and press Load Bounties.</p>
+        <p>No bounties loaded. Set your filters and press Scan or Load Bounties.</p>
       )}
 
       {bounties.length > 0 && (
@@ -92,6 +145,8 @@ const BountiesList: React.FC = () => {
           loadingFairFight={loadingFairFight}
           loadingUserStatus={loadingUserStatus}
           hasFfApiKey={!!ffApiKey}
+          valueWeights={valueSettings}
+          rankByValue={valueSettings.rankByValue}
         />
       )}
     </div>
@@ -1,17 +1,25 @@
 import React from 'react';
-import { Bounty, FFScouterStats, UserProfileV1 } from '../../api';
+import { BountyTarget, FFScouterStats, UserProfileV1 } from '../../api';
 import TimeRemaining from '../TimeRemaining';
+import { BountyColumnId } from './bountyColumns';
+import { BountyValueWeights, bountyValue } from './bountyValue';
 import { getTimeUntil } from '../timeUntil';
 import './BountyListRow.css';
 
 export interface BountyListRowProps {
-  bounty: Bounty;
+  bounty: BountyTarget;
   index: number;
+  /** Visible columns, in order. */
+  columns: BountyColumnId[];
+  /** Whether the individual listings are shown under the row. */
+  expanded: boolean;
+  onToggleExpanded: () => void;
   ffStats: FFScouterStats | undefined;
   userStatus: UserProfileV1 | undefined;
   loadingUserStatus: boolean;
   loadingFairFight: boolean;
   hasFfApiKey: boolean;
+  valueWeights: BountyValueWeights;
 }
 
 function formatCurrency(amount: number): string {
@@ -31,62 +39,158 @@ const STATUS_COLOR_CLASS: Record<string, string> = {
 const BountyListRow: React.FC<BountyListRowProps> = ({
   bounty,
   index,
+  columns,
+  expanded,
+  onToggleExpanded,
   ffStats,
   userStatus,
   loadingUserStatus,
   loadingFairFight,
   hasFfApiKey,
+  valueWeights,
 }) => {
+  const renderCell = (column: BountyColumnId) => {
+    switch (column) {
+      case 'target':
+        return (
+          <td key={column} className="bounty-list-row-td">
+            <button
+              className="bounty-list-row-toggle"
+              onClick={onToggleExpanded}
+              aria-expanded={expanded}
+              title={expanded ? 'Hide listings' : 'Show listings'}
+            >
+              {expanded ? '▾' : '▸'}
+            </button>
+            <a
+              href={`https://www.torn.com/profiles.php?XID=${bounty.targetId}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="bounty-list-row-link"
+            >
+              {bounty.targetName} ({bounty.targetId})
+            </a>
+          </td>
+        );
+      case 'level':
+        return <td key={column} className="bounty-list-row-td">{bounty.targetLevel}</td>;
+      case 'status':
+        return (
+          <td key={column} className="bounty-list-row-td bounty-list-row-td--center">
+            {loadingUserStatus ? (
+              <span className="bounty-list-row-loading">Loading...</span>
+            ) : userStatus ? (
+              <span className={`bounty-list-row-status ${STATUS_COLOR_CLASS[userStatus.status.color] ?? ''}`}>
+                {userStatus.status.state}
+              </span>
+            ) : (
+              <span className="bounty-list-row-empty">-</span>
+            )}
+          </td>
+        );
+      case 'timeRemaining':
+        return (
+          <td key={column} className="bounty-list-row-td bounty-list-row-td--center bounty-list-row-td--small">
+            {loadingUserStatus ? (
+              <span className="bounty-list-row-loading">Loading...</span>
+            ) : userStatus ? (
+              <TimeRemaining untilSeconds={getTimeUntil(userStatus)} />
+            ) : (
+              <span className="bounty-list-row-empty">-</span>
+            )}
+          </td>
+        );
+      case 'reward':
+        return (
+          <td key={column} className="bounty-list-row-td bounty-list-row-td--right bounty-list-row-td--bold">
+            {formatCurrency(bounty.totalReward)}
+            {bounty.listingCount > 1 && (
+              <span className="bounty-list-row-listings"> ({bounty.listingCount} listings)</span>
+            )}
+          </td>
+        );
+      case 'value': {
+        const value = bountyValue(bounty, ffStats, userStatus, valueWeights, Math.floor(Date.now() / 1000));
+        return (
+          <td key={column} className="bounty-list-row-td bounty-list-row-td--right">
+            {value !== null ? (
+              formatCurrency(value)
+            ) : (
+              <span className="bounty-list-row-empty" title="Needs the FF score and status">-</span>
+            )}
+          </td>
+        );
+      }
+      case 'fairFight':
+        return (
+          <td key={column} className="bounty-list-row-td bounty-list-row-td--center">
+            {loadingFairFight ? (
+              <span className="bounty-list-row-loading">Loading...</span>
+            ) : ffStats ? (
+              <span className="bounty-list-row-td--bold">{ffStats.fair_fight?.toFixed(2)}</span>
+            ) : (
+              <span className="bounty-list-row-empty">{hasFfApiKey ? 'N/A' : '-'}</span>
+            )}
+          </td>
+        );
+      case 'quantity':
+        return <td key={column} className="bounty-list-row-td bounty-list-row-td--center">{bounty.quantity}</td>;
+      case 'validUntil':
+        return (
+          <td key={column} className="bounty-list-row-td bounty-list-row-td--small">
+            {bounty.earliestValidUntil === bounty.latestValidUntil
+              ? formatDate(bounty.earliestValidUntil)
+              : `${formatDate(bounty.earliestValidUntil)} – ${formatDate(bounty.latestValidUntil)}`}
+          </td>
+        );
+    }
+  };
+
   return (
-    <tr className="bounty-list-row">
-      <td className="bounty-list-row-td">
-        <a
-          href={`https://www.torn.com/profiles.php?XID=${bounty.target_id}`}
-          target="_blank"
-          rel="noopener noreferrer"
-          className="bounty-list-row-link"
-        >
-          {bounty.target_name} ({bounty.target_id})
-        </a>
-      </td>
-      <td className="bounty-list-row-td">{bounty.target_level}</td>
-      <td className="bounty-list-row-td bounty-list-row-td--center">
-        {loadingUserStatus ? (
-          <span className="bounty-list-row-loading">Loading...</span>
-        ) : userStatus ? (
-          <span className={`bounty-list-row-status ${STATUS_COLOR_CLASS[userStatus.status.color] ?? ''}`}>
-            {userStatus.status.state}
-          </span>
-        ) : (
-          <span className="bounty-list-row-empty">-</span>
-        )}
-      </td>
-      <td className="bounty-list-row-td bounty-list-row-td--center bounty-list-row-td--small">
-        {loadingUserStatus ? (
-          <span className="bounty-list-row-loading">Loading...</span>
-        ) : userStatus ? (
-          <TimeRemaining untilSeconds={getTimeUntil(userStatus)} />
-        ) : (
-          <span className="bounty-list-row-empty">-</span>
-        )}
-      </td>
-      <td className="bounty-list-row-td bounty-list-row-td--right bounty-list-row-td--bold">
-        {formatCurrency(bounty.reward)}
-      </td>
-      <td className="bounty-list-row-td bounty-list-row-td--center">
-        {loadingFairFight ? (
-          <span className="bounty-list-row-loading">Loading...</span>
-        ) : ffStats ? (
-          <span className="bounty-list-row-td--bold">{ffStats.fair_fight?.toFixed(2)}</span>
-        ) : (
-          <span className="bounty-list-row-empty">{hasFfApiKey ? 'N/A' : '-'}</span>
-        )}
-      </td>
-      <td className="bounty-list-row-td bounty-list-row-td--center">{bounty.quantity}</td>
-      <td className="bounty-list-row-td bounty-list-row-td--small">
-        {formatDate(bounty.valid_until)}
-      </td>
-    </tr>
+    <>
+      <tr className="bounty-list-row">{columns.map(renderCell)}</tr>
+      {expanded && (
+        <tr className="bounty-list-row-detail">
+          <td className="bounty-list-row-td" colSpan={columns.length}>
+            <table className="bounty-list-row-listings-table">
+              <thead>
+                <tr>
+                  <th>Lister</th>
+                  <th>Reward</th>
+                  <th>Quantity</th>
+                  <th>Reason</th>
+                  <th>Valid Until</th>
+                </tr>
+              </thead>
+              <tbody>
+                {bounty.listings.map((listing, listingIndex) => (
+                  <tr key={listingIndex}>
+                    <td>
+                      {listing.lister_id === null ? (
+                        <span className="bounty-list-row-empty">Anonymous</span>
+                      ) : (
+                        <a
+                          href={`https://www.torn.com/profiles.php?XID=${listing.lister_id}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="bounty-list-row-link"
+                        >
+                          {listing.lister_name} ({listing.lister_id})
+                        </a>
+                      )}
+                    </td>
+                    <td>{formatCurrency(listing.reward)}</td>
+                    <td>{listing.quantity}</td>
+                    <td>{listing.reason ?? <span className="bounty-list-row-empty">-</span>}</td>
+                    <td>{formatDate(listing.valid_until)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </td>
+        </tr>
+      )}
+    </>
   );
 };
 
@@ -1,15 +1,49 @@
-import React from 'react';
-import { Bounty, FFScouterStats, UserProfileV1 } from '../../api';
+import React, { useMemo, useState } from 'react';
+import { BountyTarget, FFScouterStats, UserProfileV1 } from '../../api';
+import { usePersistedState } from '../../hooks/usePersistedState';
+import { definePersistedState } from '../../storage/persistedState';
 import BountyListRow from './BountyListRow';
+import {
+  BOUNTY_COLUMNS,
+  BountyColumnId,
+  BountySortKey,
+  isBountyColumnId,
+  sortBounties,
+  toggleSortKey,
+} from './bountyColumns';
+import { BountyValueWeights } from './bountyValue';
 import './BountyListTable.css';
 
+interface BountyTableSettings {
+  hiddenColumns: BountyColumnId[];
+  /** Sort keys, most significant first. */
+  sort: BountySortKey[];
+}
+
+const bountyTableState = definePersistedState<BountyTableSettings>({
+  storageKey: 'bounties-table',
+  label: 'Bounty table columns and sort',
+  version: 1,
+  defaults: {
+    hiddenColumns: [],
+    sort: [{ column: 'reward', direction: 'desc' }],
+  },
+});
+
+function isSortKey(value: BountySortKey): boolean {
+  return isBountyColumnId(value?.column) && (value.direction === 'asc' || value.direction === 'desc');
+}
+
 interface BountyListTableProps {
-  bounties: Bounty[];
+  bounties: BountyTarget[];
   fairFightData: Map<number, FFScouterStats>;
   userStatusData: Map<number, UserProfileV1>;
   loadingFairFight: boolean;
   loadingUserStatus: boolean;
   hasFfApiKey: boolean;
+  valueWeights: BountyValueWeights;
+  /** Rank by value first; the header sort then only breaks ties. */
+  rankByValue: boolean;
 }
 
 const BountyListTable: React.FC<BountyListTableProps> = ({
@@ -19,36 +53,118 @@ const BountyListTable: React.FC<BountyListTableProps> = ({
   loadingFairFight,
   loadingUserStatus,
   hasFfApiKey,
+  valueWeights,
+  rankByValue,
 }) => {
+  const [expandedTargets, setExpandedTargets] = useState<Set<number>>(new Set());
+  const [settings, setSettings] = usePersistedState(bountyTableState);
+  // The stored lists are only checked to be arrays of the right item type
+  const hiddenColumns = settings.hiddenColumns.filter(isBountyColumnId);
+  const sort = useMemo(() => {
+    const stored = settings.sort.filter(isSortKey);
+    if (!rankByValue) return stored;
+    return [{ column: 'value', direction: 'desc' } as BountySortKey, ...stored.filter(key => key.column !== 'value')];
+  }, [settings.sort, rankByValue]);
+  const columns = BOUNTY_COLUMNS.filter(
+    column =>
+      !column.hideable || !hiddenColumns.includes(column.id) || (rankByValue && column.id === 'value')
+  );
+
+  const sortedBounties = useMemo(
+    () =>
+      sortBounties(bounties, sort, {
+        fairFightData,
+        userStatusData,
+        now: Math.floor(Date.now() / 1000),
+        valueWeights,
+      }),
+    [bounties, sort, fairFightData, userStatusData, valueWeights]
+  );
+
+  const toggleExpanded = (targetId: number) => {
+    setExpandedTargets(prev => {
+      const next = new Set(prev);
+      if (next.has(targetId)) next.delete(targetId);
+      else next.add(targetId);
+      return next;
+    });
+  };
+
+  const toggleColumn = (column: BountyColumnId) => {
+    setSettings(prev => ({
+      ...prev,
+      hiddenColumns: prev.hiddenColumns.includes(column)
+        ? prev.hiddenColumns.filter(id => id !== column)
+        : [...prev.hiddenColumns, column],
+    }));
+  };
+
+  const handleSort = (column: BountyColumnId, additive: boolean) => {
+    setSettings(prev => ({ ...prev, sort: toggleSortKey(prev.sort.filter(isSortKey), column, additive) }));
+  };
+
+  const sortIndicator = (column: BountyColumnId) => {
+    const index = sort.findIndex(key => key.column === column);
+    if (index < 0) return null;
+    return (
+      <span className="bounty-list-table-sort">
+        {sort[index].direction === 'asc' ? '▲' : '▼'}
+        {sort.length > 1 && <sup>{index + 1}</sup>}
+      </span>
+    );
+  };
+
   return (
-    <table className="bounty-list-table">
-      <thead>
-        <tr className="bounty-list-table-header-row">
-          <th className="bounty-list-table-th bounty-list-table-th--left">Target</th>
-          <th className="bounty-list-table-th bounty-list-table-th--left">Level</th>
-          <th className="bounty-list-table-th bounty-list-table-th--center">Status</th>
-          <th className="bounty-list-table-th bounty-list-table-th--center">Time Remaining</th>
-          <th className="bounty-list-table-th bounty-list-table-th--right">Reward</th>
-          <th className="bounty-list-table-th bounty-list-table-th--center">Fair Fight</th>
-          <th className="bounty-list-table-th bounty-list-table-th--center">Quantity</th>
-          <th className="bounty-list-table-th bounty-list-table-th--left">Valid Until</th>
-        </tr>
-      </thead>
-      <tbody>
-        {bounties.map((bounty, index) => (
-          <BountyListRow
-            key={`${bounty.target_id}-${index}`}
-            bounty={bounty}
-            index={index}
-            ffStats={fairFightData.get(bounty.target_id)}
-            userStatus={userStatusData.get(bounty.target_id)}
-            loadingUserStatus={loadingUserStatus}
-            loadingFairFight={loadingFairFight}
-            hasFfApiKey={hasFfApiKey}
-          />
+    <>
+      <details className="bounty-list-table-columns">
+        <summary>Columns</summary>
+        {BOUNTY_COLUMNS.filter(column => column.hideable).map(column => (
+          <label key={column.id} className="bounty-list-table-column-option">
+            <input
+              type="checkbox"
+              checked={!hiddenColumns.includes(column.id)}
+              onChange={() => toggleColumn(column.id)}
+            />
+            {column.label}
+          </label>
         ))}
-      </tbody>
-    </table>
+      </details>
+      <table className="bounty-list-table">
+        <thead>
+          <tr className="bounty-list-table-header-row">
+            {columns.map(column => (
+              <th
+                key={column.id}
+                className={`bounty-list-table-th bounty-list-table-th--${column.align} bounty-list-table-th--sortable`}
+                onClick={(e) => handleSort(column.id, e.shiftKey)}
+                title="Click to sort, Shift+click to add as another sort key"
+              >
+                {column.label}
+                {sortIndicator(column.id)}
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {sortedBounties.map((bounty, index) => (
+            <BountyListRow
+              key={bounty.targetId}
+              bounty={bounty}
+              index={index}
+              columns={columns.map(column => column.id)}
+              expanded={expandedTargets.has(bounty.targetId)}
+              onToggleExpanded={() => toggleExpanded(bounty.targetId)}
+              ffStats={fairFightData.get(bounty.targetId)}
+              userStatus={userStatusData.get(bounty.targetId)}
+              loadingUserStatus={loadingUserStatus}
+              loadingFairFight={loadingFairFight}
+              hasFfApiKey={hasFfApiKey}
+              valueWeights={valueWeights}
+            />
+          ))}
+        </tbody>
+      </table>
+    </>
   );
 };
 
@@ -0,0 +1,93 @@
+import React from 'react';
+import Button from '../Button';
+import { BountyValueWeights, DEFAULT_BOUNTY_VALUE_WEIGHTS } from './bountyValue';
+import './BountyValuePanel.css';
+
+export interface BountyValueSettings extends BountyValueWeights {
+  rankByValue: boolean;
+}
+
+interface BountyValuePanelProps {
+  settings: BountyValueSettings;
+  onChange: (settings: BountyValueSettings) => void;
+}
+
+/** Weights for the Value column, and the switch that ranks the list by it. */
+const BountyValuePanel: React.FC<BountyValuePanelProps> = ({ settings, onChange }) => {
+  const handleNumberChange = (field: keyof BountyValueWeights, value: string, scale = 1) => {
+    if (value === '') {
+      onChange({ ...settings, [field]: field === 'maxBattleStats' ? null : DEFAULT_BOUNTY_VALUE_WEIGHTS[field] });
+      return;
+    }
+    onChange({ ...settings, [field]: Number(value) / scale });
+  };
+
+  return (
+    <div className="bounty-value-panel">
+      <div className="bounty-value-panel-header">
+        <label className="bounty-value-panel-rank">
+          <input
+            type="checkbox"
+            checked={settings.rankByValue}
+            onChange={(e) => onChange({ ...settings, rankByValue: e.target.checked })}
+          />
+          Rank by value
+        </label>
+        <Button onClick={() => onChange({ ...DEFAULT_BOUNTY_VALUE_WEIGHTS, rankByValue: settings.rankByValue })}>
+          Reset Weights
+        </Button>
+      </div>
+      <p className="bounty-value-panel-description">
+        Value is the total reward, less a share for harder fights and the cost of waiting until the target can
+        be attacked. Targets above the FF or battle stats limit are worth $0.
+      </p>
+      <div className="bounty-value-panel-fields">
+        <label className="bounty-value-panel-label">
+          <span>Max FF score</span>
+          <input
+            type="number"
+            className="bounty-value-panel-input"
+            value={settings.maxFairFight}
+            onChange={(e) => handleNumberChange('maxFairFight', e.target.value)}
+            min="1"
+            step="0.1"
+          />
+        </label>
+        <label className="bounty-value-panel-label">
+          <span>Reward lost at max FF (%)</span>
+          <input
+            type="number"
+            className="bounty-value-panel-input"
+            value={Math.round(settings.fairFightPenalty * 100)}
+            onChange={(e) => handleNumberChange('fairFightPenalty', e.target.value, 100)}
+            min="0"
+            max="100"
+          />
+        </label>
+        <label className="bounty-value-panel-label">
+          <span>Max battle stats</span>
+          <input
+            type="number"
+            className="bounty-value-panel-input"
+            value={settings.maxBattleStats ?? ''}
+            onChange={(e) => handleNumberChange('maxBattleStats', e.target.value)}
+            placeholder="No limit"
+            min="0"
+          />
+        </label>
+        <label className="bounty-value-panel-label">
+          <span>Value of an hour ($)</span>
+          <input
+            type="number"
+            className="bounty-value-panel-input"
+            value={settings.timeValuePerHour}
+            onChange={(e) => handleNumberChange('timeValuePerHour', e.target.value)}
+            min="0"
+          />
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default BountyValuePanel;
@@ -0,0 +1,92 @@
+import { BountyTarget, FFScouterStats, UserProfileV1 } from '../../api';
+import { BountySortData, sortBounties, toggleSortKey } from './bountyColumns';
+import { DEFAULT_BOUNTY_VALUE_WEIGHTS } from './bountyValue';
+
+function target(targetId: number, overrides: Partial<BountyTarget> = {}): BountyTarget {
+  return {
+    targetId,
+    targetName: `Target ${targetId}`,
+    targetLevel: 10,
+    totalReward: 100_000,
+    listingCount: 1,
+    quantity: 1,
+    earliestValidUntil: 1_700_000_000,
+    latestValidUntil: 1_700_000_000,
+    listings: [],
+    ...overrides,
+  };
+}
+
+function sortData(
+  fairFight: Record<number, number | null> = {},
+  statusUntil: Record<number, number> = {}
+): BountySortData {
+  return {
+    fairFightData: new Map(
+      Object.entries(fairFight).map(([id, ff]) => [Number(id), { player_id: Number(id), fair_fight: ff } as FFScouterStats])
+    ),
+    userStatusData: new Map(
+      Object.entries(statusUntil).map(([id, until]) => [
+        Number(id),
+        { player_id: Number(id), status: { color: 'red', until } } as UserProfileV1,
+      ])
+    ),
+    now: 1_000,
+    valueWeights: DEFAULT_BOUNTY_VALUE_WEIGHTS,
+  };
+}
+
+const ids = (bounties: BountyTarget[]) => bounties.map((bounty) => bounty.targetId);
+
+describe('sortBounties', () => {
+  it('should sort by later keys when earlier ones tie', () => {
+    const bounties = [
+      target(1, { targetLevel: 20, totalReward: 100 }),
+      target(2, { targetLevel: 10, totalReward: 100 }),
+      target(3, { targetLevel: 20, totalReward: 300 }),
+    ];
+
+    const sorted = sortBounties(
+      bounties,
+      [
+        { column: 'level', direction: 'desc' },
+        { column: 'reward', direction: 'desc' },
+      ],
+      sortData()
+    );
+
+    expect(ids(sorted)).toEqual([3, 1, 2]);
+  });
+
+  it('should put rows without FF scores or status last in either direction', () => {
+    const bounties = [target(1), target(2), target(3), target(4)];
+    const data = sortData({ 1: 2.5, 3: 1.5, 4: null }, { 2: 1_600, 3: 500 });
+
+    expect(ids(sortBounties(bounties, [{ column: 'fairFight', direction: 'asc' }], data))).toEqual([3, 1, 2, 4]);
+    expect(ids(sortBounties(bounties, [{ column: 'fairFight', direction: 'desc' }], data))).toEqual([1, 3, 2, 4]);
+    expect(ids(sortBounties(bounties, [{ column: 'timeRemaining', direction: 'desc' }], data))).toEqual([2, 3, 1, 4]);
+  });
+});
+
+describe('toggleSortKey', () => {
+  it('should replace the sort on a plain click and flip a column that is the only key', () => {
+    expect(toggleSortKey([{ column: 'level', direction: 'asc' }], 'reward', false)).toEqual([
+      { column: 'reward', direction: 'desc' },
+    ]);
+    expect(toggleSortKey([{ column: 'reward', direction: 'desc' }], 'reward', false)).toEqual([
+      { column: 'reward', direction: 'asc' },
+    ]);
+  });
+
+  it('should add or flip keys on a shift-click', () => {
+    const sort = toggleSortKey([{ column: 'reward', direction: 'desc' }], 'level', true);
+    expect(sort).toEqual([
+      { column: 'reward', direction: 'desc' },
+      { column: 'level', direction: 'asc' },
+    ]);
+    expect(toggleSortKey(sort, 'reward', true)).toEqual([
+      { column: 'reward', direction: 'asc' },
+      { column: 'level', direction: 'asc' },
+    ]);
+  });
+});
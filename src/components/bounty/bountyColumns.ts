@@ -0,0 +1,142 @@
+import { BountyTarget, FFScouterStats, UserProfileV1 } from '../../api';
+import { BountyValueWeights, bountyValue } from './bountyValue';
+
+export type BountyColumnId =
+  | 'target'
+  | 'level'
+  | 'status'
+  | 'timeRemaining'
+  | 'reward'
+  | 'value'
+  | 'fairFight'
+  | 'quantity'
+  | 'validUntil';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface BountySortKey {
+  column: BountyColumnId;
+  direction: SortDirection;
+}
+
+export interface BountyColumn {
+  id: BountyColumnId;
+  label: string;
+  align: 'left' | 'center' | 'right';
+  /** The target column holds the link and the listings toggle, so it can't be hidden. */
+  hideable: boolean;
+  /** Direction of the first click on the header. */
+  firstDirection: SortDirection;
+}
+
+export const BOUNTY_COLUMNS: BountyColumn[] = [
+  { id: 'target', label: 'Target', align: 'left', hideable: false, firstDirection: 'asc' },
+  { id: 'level', label: 'Level', align: 'left', hideable: true, firstDirection: 'asc' },
+  { id: 'status', label: 'Status', align: 'center', hideable: true, firstDirection: 'asc' },
+  { id: 'timeRemaining', label: 'Time Remaining', align: 'center', hideable: true, firstDirection: 'asc' },
+  { id: 'reward', label: 'Total Reward', align: 'right', hideable: true, firstDirection: 'desc' },
+  { id: 'value', label: 'Value', align: 'right', hideable: true, firstDirection: 'desc' },
+  { id: 'fairFight', label: 'Fair Fight', align: 'center', hideable: true, firstDirection: 'asc' },
+  { id: 'quantity', label: 'Quantity', align: 'center', hideable: true, firstDirection: 'desc' },
+  { id: 'validUntil', label: 'Valid Until', align: 'left', hideable: true, firstDirection: 'asc' },
+];
+
+export function isBountyColumnId(value: unknown): value is BountyColumnId {
+  return BOUNTY_COLUMNS.some((column) => column.id === value);
+}
+
+/** Data loaded next to the bounty list that some sort keys need. */
+export interface BountySortData {
+  fairFightData: Map<number, FFScouterStats>;
+  userStatusData: Map<number, UserProfileV1>;
+  /** Current time in seconds, for time remaining. */
+  now: number;
+  valueWeights: BountyValueWeights;
+}
+
+/** Order of the status column: who can be attacked first. */
+const STATUS_ORDER: Record<string, number> = { green: 0, blue: 1, red: 2 };
+
+/** The value a column sorts by, or null while the data it needs isn't loaded. */
+function sortValue(bounty: BountyTarget, column: BountyColumnId, data: BountySortData): number | string | null {
+  const userStatus = data.userStatusData.get(bounty.targetId);
+  switch (column) {
+    case 'target':
+      return bounty.targetName.toLowerCase();
+    case 'level':
+      return bounty.targetLevel;
+    case 'status':
+      return userStatus ? STATUS_ORDER[userStatus.status.color] ?? 3 : null;
+    case 'timeRemaining':
+      return userStatus ? Math.max(0, userStatus.status.until - data.now) : null;
+    case 'reward':
+      return bounty.totalReward;
+    case 'value':
+      return bountyValue(
+        bounty,
+        data.fairFightData.get(bounty.targetId),
+        userStatus,
+        data.valueWeights,
+        data.now
+      );
+    case 'fairFight':
+      return data.fairFightData.get(bounty.targetId)?.fair_fight ?? null;
+    case 'quantity':
+      return bounty.quantity;
+    case 'validUntil':
+      return bounty.earliestValidUntil;
+  }
+}
+
+/**
+ * Sorts by each key in turn. Rows without the data a key needs (FF score or
+ * status not loaded yet) go after the rest, whichever the direction.
+ * Ties keep their current order.
+ */
+export function sortBounties(
+  bounties: BountyTarget[],
+  sort: BountySortKey[],
+  data: BountySortData
+): BountyTarget[] {
+  if (sort.length === 0) return bounties;
+  // Work out each row's sort values once rather than on every comparison
+  const rows = bounties.map((bounty) => ({
+    bounty,
+    values: sort.map(({ column }) => sortValue(bounty, column, data)),
+  }));
+  rows.sort((a, b) => {
+    for (let i = 0; i < sort.length; i++) {
+      const valueA = a.values[i];
+      const valueB = b.values[i];
+      if (valueA === valueB) continue;
+      if (valueA === null) return 1;
+      if (valueB === null) return -1;
+      const order = valueA < valueB ? -1 : 1;
+      return sort[i].direction === 'asc' ? order : -order;
+    }
+    return 0;
+  });
+  return rows.map((row) => row.bounty);
+}
+
+/**
+ * The sort after clicking a header. A plain click sorts by that column alone,
+ * or flips its direction when it already is the only key. With additive
+ * (shift-click) the column is added as the last key, or flipped where it is.
+ */
+export function toggleSortKey(sort: BountySortKey[], column: BountyColumnId, additive: boolean): BountySortKey[] {
+  const existing = sort.find((key) => key.column === column);
+  const flipped: BountySortKey | undefined = existing && {
+    column,
+    direction: existing.direction === 'asc' ? 'desc' : 'asc',
+  };
+  const first: BountySortKey = {
+    column,
+    direction: BOUNTY_COLUMNS.find((c) => c.id === column)?.firstDirection ?? 'asc',
+  };
+  if (!additive) {
+    return [flipped && sort.length === 1 ? flipped : first];
+  }
+  if (flipped) return sort.map((key) => (key.column === column ? flipped : key));
+  return [...sort, first];
+}
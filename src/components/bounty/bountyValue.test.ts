@@ -0,0 +1,41 @@
+import { BountyTarget, FFScouterStats, UserProfileV1 } from '../../api';
+import { DEFAULT_BOUNTY_VALUE_WEIGHTS, bountyValue } from './bountyValue';
+
+const NOW = 1_700_000_000;
+
+const target = { targetId: 1, totalReward: 1_000_000 } as BountyTarget;
+
+function ff(fairFight: number | null, bsEstimate: number | null = null): FFScouterStats {
+  return { player_id: 1, fair_fight: fairFight, bs_estimate: bsEstimate, bs_estimate_human: null, last_updated: null };
+}
+
+function status(state: string, until = 0): UserProfileV1 {
+  return { player_id: 1, status: { state, until, description: '', color: 'green' } } as UserProfileV1;
+}
+
+describe('bountyValue', () => {
+  it('should write off a growing share of the reward as the FF score rises', () => {
+    const weights = { ...DEFAULT_BOUNTY_VALUE_WEIGHTS, maxFairFight: 3, fairFightPenalty: 0.5 };
+
+    expect(bountyValue(target, ff(1), status('Okay'), weights, NOW)).toBe(1_000_000);
+    expect(bountyValue(target, ff(2), status('Okay'), weights, NOW)).toBe(750_000);
+    expect(bountyValue(target, ff(3), status('Okay'), weights, NOW)).toBe(500_000);
+    expect(bountyValue(target, ff(3.1), status('Okay'), weights, NOW)).toBe(0);
+  });
+
+  it('should charge for the wait until the target can be attacked', () => {
+    const weights = { ...DEFAULT_BOUNTY_VALUE_WEIGHTS, timeValuePerHour: 200_000 };
+
+    expect(bountyValue(target, ff(1), status('Hospital', NOW + 1_800), weights, NOW)).toBe(900_000);
+    expect(bountyValue(target, ff(1), status('Hospital', NOW + 10 * 3_600), weights, NOW)).toBe(0);
+    expect(bountyValue(target, ff(1), status('Federal'), weights, NOW)).toBe(0);
+  });
+
+  it('should be worth nothing above the battle stats limit and unknown without FF or status', () => {
+    const weights = { ...DEFAULT_BOUNTY_VALUE_WEIGHTS, maxBattleStats: 1_000_000 };
+
+    expect(bountyValue(target, ff(1, 5_000_000), status('Okay'), weights, NOW)).toBe(0);
+    expect(bountyValue(target, ff(null), status('Okay'), weights, NOW)).toBeNull();
+    expect(bountyValue(target, ff(1), undefined, weights, NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+import { BountyTarget, FFScouterStats, UserProfileV1 } from '../../api';
+
+/** User-tunable weights for bountyValue. */
+export interface BountyValueWeights {
+  /** Targets with a higher FF score are too strong to be worth anything. */
+  maxFairFight: number;
+  /** Share of the reward written off as FF rises from 1 to maxFairFight (0–1). */
+  fairFightPenalty: number;
+  /** Targets whose estimated battle stats exceed this are too strong; null for no limit. */
+  maxBattleStats: number | null;
+  /** Dollars each hour of waiting for the target to become attackable costs. */
+  timeValuePerHour: number;
+}
+
+export const DEFAULT_BOUNTY_VALUE_WEIGHTS: BountyValueWeights = {
+  maxFairFight: 3,
+  fairFightPenalty: 0.5,
+  maxBattleStats: null,
+  timeValuePerHour: 100_000,
+};
+
+/** States a target can't be hit in, however long one waits. */
+const UNATTACKABLE_STATES = ['Federal', 'Fallen'];
+
+/**
+ * What hitting the target is worth: the total reward, less a share for a
+ * harder fight (higher FF score) and less the cost of the wait until the
+ * target leaves hospital, jail or the plane. Too strong or unattackable
+ * targets are worth 0. Null until both the FF score and the status are loaded.
+ *
+ * @param now current time in seconds
+ */
+export function bountyValue(
+  bounty: BountyTarget,
+  ffStats: FFScouterStats | undefined,
+  userStatus: UserProfileV1 | undefined,
+  weights: BountyValueWeights,
+  now: number
+): number | null {
+  const fairFight = ffStats?.fair_fight;
+  if (fairFight == null || !userStatus) return null;
+
+  if (fairFight > weights.maxFairFight) return 0;
+  const battleStats = ffStats?.bs_estimate;
+  if (weights.maxBattleStats !== null && battleStats != null && battleStats > weights.maxBattleStats) return 0;
+  if (UNATTACKABLE_STATES.includes(userStatus.status.state)) return 0;
+
+  const difficulty =
+    weights.maxFairFight > 1 ? Math.min(1, Math.max(0, (fairFight - 1) / (weights.maxFairFight - 1))) : 0;
+  const rewardShare = 1 - weights.fairFightPenalty * difficulty;
+
+  // readUserProfile already moved until to the landing time for travelling targets
+  const waitHours = userStatus.status.state === 'Okay' ? 0 : Math.max(0, userStatus.status.until - now) / 3600;
+
+  return Math.max(0, Math.round(bounty.totalReward * rewardShare - weights.timeValuePerHour * waitHours));
+}
@@ -0,0 +1,57 @@
+import React from 'react';
+import { RequestLogEntry } from '../../api/helpers/requestLog';
+import './RequestLog.css';
+
+interface RequestLogChartProps {
+  entries: RequestLogEntry[];
+  /** Number of minutes to show, ending with the current one. */
+  minutes?: number;
+  /** Calls per minute the API allows; drawn as a line across the chart. */
+  limitPerMinute?: number;
+}
+
+const MINUTE_MS = 60_000;
+
+/**
+ * Bar chart of requests per minute. Calls answered from cache are left out since
+ * they never reached the API; failed calls are shown in red on top.
+ */
+const RequestLogChart: React.FC<RequestLogChartProps> = ({ entries, minutes = 30, limitPerMinute = 100 }) => {
+  const currentMinute = Math.floor(Date.now() / MINUTE_MS);
+  const buckets = Array.from({ length: minutes }, (_, i) => ({
+    minute: currentMinute - minutes + 1 + i,
+    ok: 0,
+    failed: 0,
+  }));
+  for (const entry of entries) {
+    if (entry.cache === 'hit') continue;
+    const bucket = buckets[Math.floor(entry.startedAt / MINUTE_MS) - buckets[0].minute];
+    if (!bucket) continue;
+    if (entry.status === 'ok' || entry.status === 'pending') bucket.ok++;
+    else bucket.failed++;
+  }
+  const max = Math.max(limitPerMinute, ...buckets.map((b) => b.ok + b.failed));
+
+  return (
+    <div className="request-log-chart" aria-label="Requests per minute">
+      <div className="request-log-chart-limit" style={{ bottom: `${(limitPerMinute / max) * 100}%` }}>
+        <span>{limitPerMinute}/min</span>
+      </div>
+      {buckets.map((bucket) => {
+        const label = new Date(bucket.minute * MINUTE_MS).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+        return (
+          <div
+            key={bucket.minute}
+            className="request-log-chart-bar"
+            title={`${label}: ${bucket.ok + bucket.failed} requests, ${bucket.failed} failed`}
+          >
+            <div className="request-log-chart-failed" style={{ height: `${(bucket.failed / max) * 100}%` }} />
+            <div className="request-log-chart-ok" style={{ height: `${(bucket.ok / max) * 100}%` }} />
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default RequestLogChart;
@@ -0,0 +1,60 @@
+import React from 'react';
+import { RequestLogEntry } from '../../api/helpers/requestLog';
+import './RequestLog.css';
+
+interface RequestLogTableProps {
+  entries: RequestLogEntry[];
+}
+
+function formatMs(ms: number | null): string {
+  return ms === null ? '-' : `${ms} ms`;
+}
+
+/** One row per logged call, newest first. */
+const RequestLogTable: React.FC<RequestLogTableProps> = ({ entries }) => {
+  if (entries.length === 0) {
+    return <div className="request-log-empty">No requests match.</div>;
+  }
+
+  return (
+    <div className="request-log-table-wrapper">
+      <table className="request-log-table">
+        <thead>
+          <tr>
+            <th>Time</th>
+            <th>Endpoint</th>
+            <th>Source</th>
+            <th>Cache</th>
+            <th>Queue</th>
+            <th>Run</th>
+            <th>Retries</th>
+            <th>HTTP</th>
+            <th>Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {[...entries].reverse().map((entry) => (
+            <tr key={entry.id} className={`request-log-row request-log-row--${entry.status}`}>
+              <td>{new Date(entry.startedAt).toLocaleTimeString()}</td>
+              <td className="request-log-endpoint" title={entry.endpoint}>
+                {entry.endpoint}
+              </td>
+              <td>{entry.source}{entry.shared ? ' (shared)' : ''}</td>
+              <td>{entry.cache}</td>
+              <td>{formatMs(entry.queueWaitMs)}</td>
+              <td>{formatMs(entry.runMs)}</td>
+              <td>{entry.retries}</td>
+              <td>{entry.httpStatus ?? '-'}</td>
+              <td title={entry.error ?? undefined}>
+                {entry.status}
+                {entry.error ? `: ${entry.error}` : ''}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default RequestLogTable;
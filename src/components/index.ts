@@ -1,5 +1,6 @@
 export { default as PasswordInput } from './PasswordInput';
 export { default as FfApiKeyTestButton } from './FfApiKeyTestButton';
+export { default as TornApiKeyTestButton } from './TornApiKeyTestButton';
 export { default as BountiesList } from './bounty/BountiesList';
 export { default as BountiesFilter } from './bounty/BountiesFilter';
 export { default as CompanyFilter } from './company/CompanyFilter';
@@ -14,3 +15,13 @@ export type { CompanySpecialsFilterCriteria } from './company-specials/types';
 export { default as EmployeeTable } from './company-employees/EmployeeTable';
 export { default as EmployeeTableRow } from './company-employees/EmployeeTableRow';
 export type { EmployeeRowData } from './company-employees/EmployeeTableRow';
+export { default as TornBudgetIndicator } from './TornBudgetIndicator';
+export { default as RefreshIndicator } from './RefreshIndicator';
+export { default as ApiErrorNotice } from './ApiErrorNotice';
+export { default as KeyFeatureNotice } from './KeyFeatureNotice';
+export { default as MockServerSettings } from './MockServerSettings';
+export { default as CacheSettings } from './CacheSettings';
+export { default as KeyVaultSettings } from './KeyVaultSettings';
+export { default as KeyVaultUnlock } from './KeyVaultUnlock';
+export { default as TornKeyPoolSettings } from './TornKeyPoolSettings';
+export { default as SettingsTransfer } from './SettingsTransfer';
@@ -1,3 +1,12 @@
 export { usePassword } from './usePassword';
-export { usePersistedFilters } from './usePersistedFilters';
+export { usePersistedState } from './usePersistedState';
 export { useBountiesData } from './useBountiesData';
+export { useTornBudget } from './useTornBudget';
+export { useApiKeyFlag } from './useApiKeyFlag';
+export { useMockServerUrl } from './useMockServerUrl';
+export { useV1Fallbacks } from './useV1Fallbacks';
+export { useRequestLog } from './useRequestLog';
+export { useTornKeyInfo, useTornFeature } from './useTornKeyInfo';
+export { useKeyVault } from './useKeyVault';
+export { useTornKeyPool } from './useTornKeyPool';
+export { useRefreshJob } from './useRefreshJob';
@@ -0,0 +1,21 @@
+import { useState, useEffect } from 'react';
+import { ApiKeyFlag, getApiKeyFlag, subscribeApiKeyFlags } from '../api/helpers/apiKeyFlags';
+
+/**
+ * Returns the rejection flag for an API key, or null if the server has not
+ * rejected it during this session. Re-renders when the key is flagged or cleared.
+ */
+export function useApiKeyFlag(apiKey: string): ApiKeyFlag | null {
+  const [flag, setFlag] = useState<ApiKeyFlag | null>(() => (apiKey ? getApiKeyFlag(apiKey) : null));
+
+  useEffect(() => {
+    if (!apiKey) {
+      setFlag(null);
+      return;
+    }
+    setFlag(getApiKeyFlag(apiKey));
+    return subscribeApiKeyFlags(() => setFlag(getApiKeyFlag(apiKey)));
+  }, [apiKey]);
+
+  return flag;
+}
@@ -1,28 +1,67 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect, useRef } from 'react';
 import { toast } from 'react-toastify';
 import {
   fetchAllBounties,
-  Bounty,
+  BountyTarget,
+  groupBountiesByTarget,
   FFScouterStats,
-  fetchUserProfileV1Cached,
+  fetchUserData,
   UserProfileV1,
   fetchStats,
+  RefreshJobState,
+  TornError,
 } from '../api';
 import { FilterCriteria } from '../components/bounty/BountiesFilter';
+import { useRefreshJob } from './useRefreshJob';
 
 const BATCH_SIZE = 50;
+const BOUNTIES_REFRESH_MS = 5 * 60 * 1000;
+const USER_STATUS_REFRESH_MS = 2 * 60 * 1000;
+/** Most target statuses one background refresh fetches; the ones shown go first. */
+const USER_STATUS_REFRESH_LIMIT = 25;
+
+/**
+ * Scan mode: loads the bounty pages, then FF scores for the targets passing
+ * the level and reward filters, then statuses for those passing the FF filter,
+ * batch after batch until everything is loaded or the call budget is spent.
+ */
+export interface BountyScanState {
+  status: 'idle' | 'running' | 'paused' | 'done';
+  stage: 'bounties' | 'fairFight' | 'userStatus' | null;
+  /** Torn API calls the scan has spent: bounty pages and the status lookups that were not cached. */
+  callsUsed: number;
+  callBudget: number;
+  /** The scan ended because the budget ran out, not because everything was loaded. */
+  budgetExhausted: boolean;
+}
+
+export interface BountyScanOptions {
+  /** Most Torn API calls the scan may make. */
+  callBudget: number;
+  /** False to skip the status stage, e.g. when the key can't load statuses. */
+  loadUserStatus: boolean;
+}
+
+const IDLE_SCAN: BountyScanState = {
+  status: 'idle',
+  stage: null,
+  callsUsed: 0,
+  callBudget: 0,
+  budgetExhausted: false,
+};
 
 export interface BountiesData {
-  bounties: Bounty[];
+  /** One entry per target, with its listings added up; highest total reward first. */
+  bounties: BountyTarget[];
   fairFightData: Map<number, FFScouterStats>;
   userStatusData: Map<number, UserProfileV1>;
   loading: boolean;
   loadingProgress: number;
   loadingFairFight: boolean;
   loadingUserStatus: boolean;
-  baseFilteredBounties: Bounty[];
-  ffFilteredBounties: Bounty[];
-  filteredBounties: Bounty[];
+  baseFilteredBounties: BountyTarget[];
+  ffFilteredBounties: BountyTarget[];
+  filteredBounties: BountyTarget[];
   ffLoadedCount: number;
   ffAllLoaded: boolean;
   userStatusLoadedCount: number;
@@ -30,6 +69,15 @@ export interface BountiesData {
   loadBounties: () => Promise<void>;
   loadFairFightBatch: () => Promise<void>;
   loadUserStatusBatch: () => Promise<void>;
+  scan: BountyScanState;
+  startScan: (options: BountyScanOptions) => Promise<void>;
+  pauseScan: () => void;
+  resumeScan: () => void;
+  stopScan: () => void;
+  /** Background refresh of the bounty list, once it has been loaded. */
+  bountiesRefreshJob: RefreshJobState | null;
+  /** Background refresh of the loaded target statuses. */
+  userStatusRefreshJob: RefreshJobState | null;
 }
 
 export function useBountiesData(
@@ -37,7 +85,7 @@ export function useBountiesData(
   ffApiKey: string,
   filters: FilterCriteria
 ): BountiesData {
-  const [bounties, setBounties] = useState<Bounty[]>([]);
+  const [bounties, setBounties] = useState<BountyTarget[]>([]);
   const [fairFightData, setFairFightData] = useState<Map<number, FFScouterStats>>(new Map());
   const [userStatusData, setUserStatusData] = useState<Map<number, UserProfileV1>>(new Map());
   const [loading, setLoading] = useState(false);
@@ -46,14 +94,24 @@ export function useBountiesData(
   const [ffAttempted, setFfAttempted] = useState<Set<number>>(new Set());
   const [loadingUserStatus, setLoadingUserStatus] = useState(false);
   const [userStatusAttempted, setUserStatusAttempted] = useState<Set<number>>(new Set());
-
-  // Layer 1: apply level + reward filters — no external data needed
+  const [scan, setScan] = useState<BountyScanState>(IDLE_SCAN);
+  const [scanLoadsUserStatus, setScanLoadsUserStatus] = useState(true);
+
+  // Aborted on unmount so requests still queued for this page don't use up the API budget
+  const abortRef = useRef<AbortController>(new AbortController());
+  useEffect(() => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    return () => controller.abort();
+  }, []);
+
+  // Layer 1: apply level + reward filters (on the target's total reward) — no external data needed
   const baseFilteredBounties = useMemo(() => {
     return bounties.filter(bounty => {
-      if (filters.minLevel !== null && bounty.target_level < filters.minLevel) return false;
-      if (filters.maxLevel !== null && bounty.target_level > filters.maxLevel) return false;
-      if (filters.minReward !== null && bounty.reward < filters.minReward) return false;
-      if (filters.maxReward !== null && bounty.reward > filters.maxReward) return false;
+      if (filters.minLevel !== null && bounty.targetLevel < filters.minLevel) return false;
+      if (filters.maxLevel !== null && bounty.targetLevel > filters.maxLevel) return false;
+      if (filters.minReward !== null && bounty.totalReward < filters.minReward) return false;
+      if (filters.maxReward !== null && bounty.totalReward > filters.maxReward) return false;
       return true;
     });
   }, [bounties, filters]);
@@ -64,8 +122,8 @@ export function useBountiesData(
       return baseFilteredBounties;
     }
     return baseFilteredBounties.filter(bounty => {
-      const ffStats = fairFightData.get(bounty.target_id);
-      if (!ffStats) return true; // keep if no data loaded yet
+      const ffStats = fairFightData.get(bounty.targetId);
+      if (!ffStats || ffStats.fair_fight === null) return true; // keep if no data loaded yet or no estimate
       if (filters.minFairFight !== null && ffStats.fair_fight < filters.minFairFight) return false;
       if (filters.maxFairFight !== null && ffStats.fair_fight > filters.maxFairFight) return false;
       return true;
@@ -76,7 +134,7 @@ export function useBountiesData(
   const filteredBounties = useMemo(() => {
     const currentTime = Math.floor(Date.now() / 1000);
     return ffFilteredBounties.filter(bounty => {
-      const userStatus = userStatusData.get(bounty.target_id);
+      const userStatus = userStatusData.get(bounty.targetId);
 
       // Newbie filter (requires user status data)
       if (userStatus?.basicicons?.icon72 === 'Newbie') return false;
@@ -101,14 +159,22 @@ export function useBountiesData(
     });
   }, [ffFilteredBounties, userStatusData, filters]);
 
-  const ffLoadedCount = baseFilteredBounties.filter(b => ffAttempted.has(b.target_id)).length;
+  const ffLoadedCount = baseFilteredBounties.filter(b => ffAttempted.has(b.targetId)).length;
   const ffAllLoaded = baseFilteredBounties.length > 0 && ffLoadedCount >= baseFilteredBounties.length;
-  const userStatusLoadedCount = ffFilteredBounties.filter(b => userStatusAttempted.has(b.target_id)).length;
+  const userStatusLoadedCount = ffFilteredBounties.filter(b => userStatusAttempted.has(b.targetId)).length;
   const userStatusAllLoaded =
     ffFilteredBounties.length > 0 && userStatusLoadedCount >= ffFilteredBounties.length;
 
-  const loadBounties = async () => {
-    if (!apiKey || loading) return;
+  // Every page is fetched: listings below minReward can still add up to a total above it
+  const fetchBountyList = (
+    signal: AbortSignal,
+    onProgress?: (current: number) => void,
+    shouldStopAfterPage?: () => boolean
+  ) => fetchAllBounties(apiKey, 100, onProgress, shouldStopAfterPage, signal);
+
+  /** Loads the bounty list; with maxPages, stops after that many pages. Returns the pages fetched. */
+  const loadBountyPages = async (maxPages?: number): Promise<number> => {
+    if (!apiKey || loading) return 0;
 
     setLoading(true);
     setLoadingProgress(0);
@@ -117,32 +183,31 @@ export function useBountiesData(
     setUserStatusData(new Map());
     setUserStatusAttempted(new Set());
 
-    const minReward = filters.minReward;
-    const result = await fetchAllBounties(
-      apiKey,
-      100,
-      (current) => setLoadingProgress(current),
-      // Stop fetching pages once the minimum reward on a page falls below minReward
-      minReward !== null
-        ? (page) => Math.min(...page.map(b => b.reward)) < minReward
-        : undefined
+    const { signal } = abortRef.current;
+    let pages = 0;
+    const result = await fetchBountyList(
+      signal,
+      (current) => {
+        pages++;
+        setLoadingProgress(current);
+      },
+      maxPages !== undefined ? () => pages >= maxPages : undefined
     );
+    if (signal.aborted) return pages;
 
     if (result.error) {
-      toast.error(`Failed to load bounties: ${result.error}`);
+      toast.error(`Failed to load bounties: ${result.error.message}`);
       setBounties([]);
     } else if (result.data) {
-      // Deduplicate: keep only the first row per target_id
-      const seen = new Set<number>();
-      const unique = result.data.bounties.filter(bounty => {
-        if (seen.has(bounty.target_id)) return false;
-        seen.add(bounty.target_id);
-        return true;
-      });
-      setBounties(unique);
+      setBounties(groupBountiesByTarget(result.data.bounties));
     }
 
     setLoading(false);
+    return pages;
+  };
+
+  const loadBounties = async () => {
+    await loadBountyPages();
   };
 
   // Load next batch of FF scores from layer-1 filtered bounties
@@ -150,7 +215,7 @@ export function useBountiesData(
     if (!ffApiKey || baseFilteredBounties.length === 0 || loadingFairFight) return;
 
     const unloadedIds = baseFilteredBounties
-      .map(b => b.target_id)
+      .map(b => b.targetId)
       .filter(id => !ffAttempted.has(id));
 
     if (unloadedIds.length === 0) return;
@@ -165,9 +230,11 @@ export function useBountiesData(
       return next;
     });
 
-    const result = await fetchStats({ apiKey: ffApiKey, targetIds: batch });
+    const { signal } = abortRef.current;
+    const result = await fetchStats({ apiKey: ffApiKey, targetIds: batch, signal });
+    if (signal.aborted) return;
     if (result.error) {
-      toast.error(`Failed to load fair fight data: ${result.error}`);
+      toast.error(`Failed to load fair fight data: ${result.error.message}`);
     } else if (result.data) {
       setFairFightData(prevMap => {
         const newMap = new Map<number, FFScouterStats>(prevMap);
@@ -181,18 +248,23 @@ export function useBountiesData(
     setLoadingFairFight(false);
   };
 
-  // Load next batch of user statuses from layer-2 filtered bounties
-  const loadUserStatusBatch = async () => {
+  // Load next batch of user statuses from layer-2 filtered bounties; at most limit of them
+  const loadUserStatuses = async (limit: number) => {
     if (!apiKey || ffFilteredBounties.length === 0 || loadingUserStatus) return;
 
     const unloadedIds = ffFilteredBounties
-      .map(b => b.target_id)
+      .map(b => b.targetId)
       .filter(id => !userStatusAttempted.has(id));
 
     if (unloadedIds.length === 0) return;
 
     setLoadingUserStatus(true);
-    const batch = unloadedIds.slice(0, BATCH_SIZE);
+    const batch = unloadedIds.slice(0, Math.min(limit, BATCH_SIZE));
+    // Statuses still cached cost the scan nothing
+    const countScanCall =
+      scan.status === 'running'
+        ? () => setScan(prev => (prev.status === 'idle' ? prev : { ...prev, callsUsed: prev.callsUsed + 1 }))
+        : undefined;
 
     // Mark attempted upfront
     setUserStatusAttempted(prev => {
@@ -201,20 +273,26 @@ export function useBountiesData(
       return next;
     });
 
+    const { signal } = abortRef.current;
     const errors: string[] = [];
     for (const targetId of batch) {
-      const result = await fetchUserProfileV1Cached(
-        { apiKey, userId: targetId },
-        { maxAgeMs: 5 * 60 * 1000 }
-      );
+      const result = await fetchUserData(apiKey, targetId, ['profile'], {
+        signal,
+        priority: 'background',
+        maxAgeMs: 5 * 60 * 1000,
+        feature: 'bounty-status',
+        onCall: countScanCall,
+      });
+      if (signal.aborted) return;
 
+      const profile = result.data?.profile;
       if (result.error) {
-        errors.push(`User ${targetId}: ${result.error}`);
-      } else if (result.data) {
+        errors.push(`User ${targetId}: ${result.error.message}`);
+      } else if (profile) {
         // Update state immediately as each user's data arrives
         setUserStatusData(prevMap => {
           const newMap = new Map(prevMap);
-          newMap.set(result.data!.player_id, result.data!);
+          newMap.set(profile.player_id, profile);
           return newMap;
         });
       }
@@ -229,6 +307,117 @@ export function useBountiesData(
     setLoadingUserStatus(false);
   };
 
+  const loadUserStatusBatch = () => loadUserStatuses(BATCH_SIZE);
+
+  const startScan = async ({ callBudget, loadUserStatus }: BountyScanOptions) => {
+    if (!apiKey || loading || scan.status === 'running' || scan.status === 'paused') return;
+    setScanLoadsUserStatus(loadUserStatus);
+    setScan({ status: 'running', stage: 'bounties', callsUsed: 0, callBudget, budgetExhausted: false });
+    const pages = await loadBountyPages(callBudget);
+    if (abortRef.current.signal.aborted) return;
+    setScan(prev =>
+      prev.status === 'idle' ? prev : { ...prev, stage: 'fairFight', callsUsed: prev.callsUsed + pages }
+    );
+  };
+
+  const pauseScan = () => setScan(prev => (prev.status === 'running' ? { ...prev, status: 'paused' } : prev));
+  const resumeScan = () => setScan(prev => (prev.status === 'paused' ? { ...prev, status: 'running' } : prev));
+  const stopScan = () => setScan(IDLE_SCAN);
+
+  // Scan: start the next batch once the previous one has finished. A paused scan
+  // lets the batch in progress finish and starts no more. The step uses this
+  // render's loaders; the effect below runs it when the state it reads changes.
+  const scanStepRef = useRef<() => void>(() => undefined);
+  scanStepRef.current = () => {
+    if (scan.status !== 'running' || loading || loadingFairFight || loadingUserStatus) return;
+
+    if (scan.stage === 'fairFight') {
+      if (ffApiKey && !ffAllLoaded && baseFilteredBounties.length > 0) {
+        loadFairFightBatch();
+      } else {
+        setScan(prev => ({ ...prev, stage: 'userStatus' }));
+      }
+    } else if (scan.stage === 'userStatus') {
+      const remaining = scan.callBudget - scan.callsUsed;
+      const pending = scanLoadsUserStatus && !userStatusAllLoaded && ffFilteredBounties.length > 0;
+      if (pending && remaining > 0) {
+        loadUserStatuses(remaining);
+      } else {
+        setScan(prev => ({ ...prev, status: 'done', stage: null, budgetExhausted: pending }));
+      }
+    }
+  };
+  useEffect(() => scanStepRef.current(), [
+    scan,
+    scanLoadsUserStatus,
+    loading,
+    loadingFairFight,
+    loadingUserStatus,
+    ffApiKey,
+    ffAllLoaded,
+    userStatusAllLoaded,
+    baseFilteredBounties,
+    ffFilteredBounties,
+  ]);
+
+  // Background refresh: the list keeps the statuses already loaded; statuses are re-fetched once their cache expires
+  const bountiesRefreshJob = useRefreshJob('bounties', {
+    label: 'Bounty list',
+    intervalMs: BOUNTIES_REFRESH_MS,
+    apiKey,
+    enabled: !!apiKey && bounties.length > 0,
+    run: async (signal, callCap) => {
+      if (loading) return null;
+      let pages = 0;
+      const result = await fetchBountyList(
+        signal,
+        () => {
+          pages++;
+        },
+        () => pages >= callCap
+      );
+      if (signal.aborted || !result.data) return result.error;
+      // Stopping at the cap with pages left leaves a partial list; keep the current one until a run gets them all
+      if (result.data._metadata.links.next === null) setBounties(groupBountiesByTarget(result.data.bounties));
+      return null;
+    },
+  });
+
+  const userStatusRefreshJob = useRefreshJob('bounty-target-status', {
+    label: 'Bounty target status',
+    intervalMs: USER_STATUS_REFRESH_MS,
+    apiKey,
+    enabled: !!apiKey && userStatusData.size > 0,
+    run: async (signal, callCap) => {
+      const shown = filteredBounties.map(b => b.targetId).filter(id => userStatusData.has(id));
+      const others = Array.from(userStatusData.keys()).filter(id => !shown.includes(id));
+      let error: TornError | null = null;
+      // Statuses still cached don't count against the cap
+      let calls = 0;
+      const countCall = () => {
+        calls++;
+      };
+      for (const targetId of [...shown, ...others].slice(0, USER_STATUS_REFRESH_LIMIT)) {
+        if (calls >= callCap) break;
+        const result = await fetchUserData(apiKey, targetId, ['profile'], {
+          signal,
+          priority: 'background',
+          maxAgeMs: USER_STATUS_REFRESH_MS,
+          feature: 'bounty-status',
+          onCall: countCall,
+        });
+        if (signal.aborted) return null;
+        const profile = result.data?.profile;
+        if (profile) {
+          setUserStatusData(prevMap => new Map(prevMap).set(profile.player_id, profile));
+        } else {
+          error = result.error;
+        }
+      }
+      return error;
+    },
+  });
+
   return {
     bounties,
     fairFightData,
@@ -247,5 +436,12 @@ export function useBountiesData(
     loadBounties,
     loadFairFightBatch,
     loadUserStatusBatch,
+    scan,
+    startScan,
+    pauseScan,
+    resumeScan,
+    stopScan,
+    bountiesRefreshJob,
+    userStatusRefreshJob,
   };
 }
@@ -0,0 +1,14 @@
+import { useState, useEffect } from 'react';
+import { KeyVaultState, getKeyVaultState, subscribeKeyVault } from '../storage/keyVault';
+
+/** Whether stored API keys are encrypted, and if so whether this tab has unlocked them. */
+export function useKeyVault(): KeyVaultState {
+  const [state, setState] = useState<KeyVaultState>(getKeyVaultState);
+
+  useEffect(() => {
+    setState(getKeyVaultState());
+    return subscribeKeyVault(() => setState(getKeyVaultState()));
+  }, []);
+
+  return state;
+}
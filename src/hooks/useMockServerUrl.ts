@@ -0,0 +1,14 @@
+import { useState, useEffect } from 'react';
+import { getMockServerUrl, subscribeApiConfig } from '../api/helpers/apiConfig';
+
+/**
+ * Returns the mock server URL the API calls go to, or null when they go to the
+ * live APIs. Re-renders when the setting changes.
+ */
+export function useMockServerUrl(): string | null {
+  const [url, setUrl] = useState<string | null>(getMockServerUrl);
+
+  useEffect(() => subscribeApiConfig(() => setUrl(getMockServerUrl())), []);
+
+  return url;
+}
@@ -1,19 +1,25 @@
 import { useState, useEffect, useCallback } from 'react';
-
-const STORAGE_PREFIX = 'password_';
+import {
+  KEY_STORAGE_PREFIX,
+  readStoredKey,
+  removeStoredKey,
+  subscribeKeyVault,
+  writeStoredKey,
+} from '../storage/keyVault';
 
 /**
  * Custom hook for managing passwords in local storage
+ * When key encryption is enabled (see storage/keyVault.ts) the value is stored
+ * encrypted and reads as empty until the vault is unlocked.
  * @param name - The name/key for the password
  * @returns An object containing the password value and a setter function
  */
 export const usePassword = (name: string) => {
-  const storageKey = `${STORAGE_PREFIX}${name}`;
+  const storageKey = `${KEY_STORAGE_PREFIX}${name}`;
 
   const getStoredPassword = useCallback((): string => {
     try {
-      const stored = localStorage.getItem(storageKey);
-      return stored || '';
+      return readStoredKey(storageKey);
     } catch (error) {
       console.error(`Error reading password '${name}' from localStorage:`, error);
       return '';
@@ -24,7 +30,7 @@ export const usePassword = (name: string) => {
 
   const setPassword = useCallback((value: string) => {
     try {
-      localStorage.setItem(storageKey, value);
+      writeStoredKey(storageKey, value);
       setPasswordState(value);
     } catch (error) {
       console.error(`Error saving password '${name}' to localStorage:`, error);
@@ -33,26 +39,29 @@ export const usePassword = (name: string) => {
 
   const clearPassword = useCallback(() => {
     try {
-      localStorage.removeItem(storageKey);
+      removeStoredKey(storageKey);
       setPasswordState('');
     } catch (error) {
       console.error(`Error clearing password '${name}' from localStorage:`, error);
     }
   }, [storageKey, name]);
 
-  // Sync with localStorage changes from other tabs/windows
+  // Sync with localStorage changes from other tabs/windows, and with the vault
+  // being unlocked or locked (encrypted values are decrypted by the vault)
   useEffect(() => {
     const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === storageKey && e.newValue !== null) {
-        setPasswordState(e.newValue);
-      } else if (e.key === storageKey && e.newValue === null) {
-        setPasswordState('');
+      if (e.key === storageKey) {
+        setPasswordState(getStoredPassword());
       }
     };
 
     window.addEventListener('storage', handleStorageChange);
-    return () => window.removeEventListener('storage', handleStorageChange);
-  }, [storageKey]);
+    const unsubscribe = subscribeKeyVault(() => setPasswordState(getStoredPassword()));
+    return () => {
+      window.removeEventListener('storage', handleStorageChange);
+      unsubscribe();
+    };
+  }, [storageKey, getStoredPassword]);
 
   return {
     password,
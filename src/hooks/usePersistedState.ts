@@ -0,0 +1,17 @@
+import { useState, useEffect, Dispatch, SetStateAction } from 'react';
+import { PersistedState, loadPersistedState, savePersistedState } from '../storage/persistedState';
+
+/**
+ * State kept in localStorage (see storage/persistedState.ts). Reads the
+ * stored value on mount, migrated and checked against the defaults, and
+ * writes on every change.
+ */
+export function usePersistedState<T>(state: PersistedState<T>): [T, Dispatch<SetStateAction<T>>] {
+  const [value, setValue] = useState<T>(() => loadPersistedState(state));
+
+  useEffect(() => {
+    savePersistedState(state, value);
+  }, [state, value]);
+
+  return [value, setValue];
+}
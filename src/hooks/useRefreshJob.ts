@@ -0,0 +1,46 @@
+import { useEffect, useRef, useState } from 'react';
+import {
+  RefreshJobOptions,
+  RefreshJobState,
+  getRefreshJob,
+  registerRefreshJob,
+  subscribeRefreshJobs,
+} from '../api/helpers/refreshScheduler';
+
+export interface UseRefreshJobOptions extends Omit<RefreshJobOptions, 'id'> {
+  /** Register the job only while true, e.g. once there is data to keep fresh. Default true. */
+  enabled?: boolean;
+}
+
+/**
+ * Keeps a background refresh job registered while the component is mounted
+ * (see refreshScheduler.ts) and returns its state. run may change on every
+ * render; the job always calls the latest one.
+ */
+export function useRefreshJob(id: string, options: UseRefreshJobOptions): RefreshJobState | null {
+  const { enabled = true, label, intervalMs, priority, apiKey, budgetShare, runImmediately, run } = options;
+  const runRef = useRef(run);
+  runRef.current = run;
+  const [state, setState] = useState<RefreshJobState | null>(() => getRefreshJob(id));
+
+  useEffect(() => {
+    if (!enabled) return;
+    return registerRefreshJob({
+      id,
+      label,
+      intervalMs,
+      priority,
+      apiKey,
+      budgetShare,
+      runImmediately,
+      run: (signal, callCap) => runRef.current(signal, callCap),
+    });
+  }, [id, enabled, label, intervalMs, priority, apiKey, budgetShare, runImmediately]);
+
+  useEffect(() => {
+    setState(getRefreshJob(id));
+    return subscribeRefreshJobs(() => setState(getRefreshJob(id)));
+  }, [id]);
+
+  return state;
+}
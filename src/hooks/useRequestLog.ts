@@ -0,0 +1,27 @@
+import { useState, useEffect } from 'react';
+import { RequestLogEntry, getRequestLog, subscribeRequestLog } from '../api/helpers/requestLog';
+
+/** Minimum time between re-renders; a single call updates its log entry several times. */
+const THROTTLE_MS = 250;
+
+/** Returns the request log (oldest first), re-rendering at most every THROTTLE_MS while it changes. */
+export function useRequestLog(): RequestLogEntry[] {
+  const [entries, setEntries] = useState<RequestLogEntry[]>(getRequestLog);
+
+  useEffect(() => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    const unsubscribe = subscribeRequestLog(() => {
+      if (timer !== null) return;
+      timer = setTimeout(() => {
+        timer = null;
+        setEntries(getRequestLog());
+      }, THROTTLE_MS);
+    });
+    return () => {
+      unsubscribe();
+      if (timer !== null) clearTimeout(timer);
+    };
+  }, []);
+
+  return entries;
+}
@@ -0,0 +1,32 @@
+import { useState, useEffect } from 'react';
+import { getTornBudget, RequestBudgetState } from '../api/helpers/requestBudget';
+
+const REFRESH_INTERVAL_MS = 1000;
+
+/**
+ * Live view of the shared request budget for a Torn API key.
+ * Updates when calls are taken and once a second as old calls age out of the window.
+ * Returns null when no key is set.
+ */
+export function useTornBudget(apiKey: string): RequestBudgetState | null {
+  const [state, setState] = useState<RequestBudgetState | null>(() =>
+    apiKey ? getTornBudget(apiKey).getState() : null
+  );
+
+  useEffect(() => {
+    if (!apiKey) {
+      setState(null);
+      return;
+    }
+    const budget = getTornBudget(apiKey);
+    setState(budget.getState());
+    const unsubscribe = budget.subscribe(setState);
+    const interval = setInterval(() => setState(budget.getState()), REFRESH_INTERVAL_MS);
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, [apiKey]);
+
+  return state;
+}
@@ -0,0 +1,38 @@
+import { useState, useEffect } from 'react';
+import { TornFeature, canUseFeature, missingSelections } from '../api/key/keyCapabilities';
+import { TornKeyInfo, ensureTornKeyInfo, getTornKeyInfo, subscribeTornKeyInfo } from '../api/key/keyInfo';
+
+/**
+ * What the Torn API key may access, checking it in the background the first
+ * time it is used this session. Null until known, and when the check failed.
+ */
+export function useTornKeyInfo(apiKey: string): TornKeyInfo | null {
+  const [info, setInfo] = useState<TornKeyInfo | null>(() => (apiKey ? getTornKeyInfo(apiKey) : null));
+
+  useEffect(() => {
+    if (!apiKey) {
+      setInfo(null);
+      return;
+    }
+    setInfo(getTornKeyInfo(apiKey));
+    const unsubscribe = subscribeTornKeyInfo(() => setInfo(getTornKeyInfo(apiKey)));
+    ensureTornKeyInfo(apiKey);
+    return unsubscribe;
+  }, [apiKey]);
+
+  return info;
+}
+
+export interface TornFeatureAccess {
+  /** False only once the key is known not to serve the feature. */
+  allowed: boolean;
+  /** Selections the key lacks for the feature, as "section.selection". */
+  missing: string[];
+}
+
+/** Whether the Torn API key can serve a feature; see TORN_FEATURES. */
+export function useTornFeature(apiKey: string, feature: TornFeature): TornFeatureAccess {
+  const info = useTornKeyInfo(apiKey);
+  if (!info || canUseFeature(info, feature)) return { allowed: true, missing: [] };
+  return { allowed: false, missing: missingSelections(info, feature) };
+}
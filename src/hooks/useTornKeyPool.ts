@@ -0,0 +1,14 @@
+import { useState, useEffect } from 'react';
+import { PooledTornKey, getTornKeyPool, subscribeTornKeyPool } from '../api/key/keyPool';
+
+/** The shared Torn keys configured in Settings; empty while the key vault is locked. */
+export function useTornKeyPool(): PooledTornKey[] {
+  const [pool, setPool] = useState<PooledTornKey[]>(getTornKeyPool);
+
+  useEffect(() => {
+    setPool(getTornKeyPool());
+    return subscribeTornKeyPool(() => setPool(getTornKeyPool()));
+  }, []);
+
+  return pool;
+}
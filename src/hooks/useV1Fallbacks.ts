@@ -0,0 +1,11 @@
+import { useState, useEffect } from 'react';
+import { getV1FallbackFetchers, subscribeV1Fallbacks } from '../api/helpers/apiGeneration';
+
+/** Returns the fetchers that fell back to Torn API v1 this session. Re-renders when one does. */
+export function useV1Fallbacks(): string[] {
+  const [fetchers, setFetchers] = useState<string[]>(getV1FallbackFetchers);
+
+  useEffect(() => subscribeV1Fallbacks(() => setFetchers(getV1FallbackFetchers())), []);
+
+  return fetchers;
+}
@@ -1,14 +1,19 @@
 import React, { useEffect, useState, useMemo } from 'react';
 import { fetchAuctionHouse, AuctionHouseEntry, WeaponArmorDetails } from '../api/market/auctionHouse';
+import { TornError, networkError } from '../api/helpers/tornError';
 import { usePassword } from '../hooks/usePassword';
+import { useTornFeature } from '../hooks/useTornKeyInfo';
 import AuctionFilter, { FilterCriteria } from '../components/auction/AuctionFilter';
 import AuctionTable, { SortField, SortDirection } from '../components/auction/AuctionTable';
+import ApiErrorNotice from '../components/ApiErrorNotice';
+import KeyFeatureNotice from '../components/KeyFeatureNotice';
 
 const AuctionHouse: React.FC = () => {
   const { password: apiKey } = usePassword('torn-api-key');
+  const access = useTornFeature(apiKey, 'auction-house');
   const [entries, setEntries] = useState<AuctionHouseEntry[]>([]);
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<TornError | null>(null);
 
   const [filters, setFilters] = useState<FilterCriteria>({
     minPrice: null,
@@ -36,20 +41,23 @@ const AuctionHouse: React.FC = () => {
   const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
 
   useEffect(() => {
-    if (!apiKey) return;
+    if (!apiKey || !access.allowed) return;
 
+    const controller = new AbortController();
     setLoading(true);
-    fetchAuctionHouse(apiKey)
+    fetchAuctionHouse(apiKey, controller.signal)
       .then((res) => {
+        if (controller.signal.aborted) return;
         if (res.error) {
           setError(res.error);
         } else if (res.data) {
           setEntries(res.data);
         }
       })
-      .catch((err) => setError(err.message))
+      .catch((err) => setError(networkError('auction house', err)))
       .finally(() => setLoading(false));
-  }, [apiKey]);
+    return () => controller.abort();
+  }, [apiKey, access.allowed]);
 
   const options = useMemo(() => {
     const rarities = new Set<string>();
@@ -199,7 +207,8 @@ const AuctionHouse: React.FC = () => {
   return (
     <div style={{ padding: '20px' }}>
       <h2>Auction House Listings (ENDED)</h2>
-      {error && <div style={{ color: 'red', marginBottom: '10px' }}>{error}</div>}
+      <KeyFeatureNotice feature="auction-house" access={access} />
+      {error && <ApiErrorNotice error={error} apiKey={apiKey} />}
       {loading ? (
         <p>Loading listings...</p>
       ) : (
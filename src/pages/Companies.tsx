@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { toast } from 'react-toastify';
 import { usePassword } from '../hooks/usePassword';
+import { useTornFeature } from '../hooks/useTornKeyInfo';
 import { fetchCompanyTypes, CompanyTypesResponse } from '../api/company/companyTypes';
 import {
   fetchCompaniesByType,
@@ -8,34 +9,38 @@ import {
   CompanyBasic,
   CompanyDetail,
 } from '../api/company/companies';
+import { DataOrError } from '../api/helpers/httpWrapper';
+import { TornError, validationError } from '../api/helpers/tornError';
+import ApiErrorNotice from '../components/ApiErrorNotice';
+import KeyFeatureNotice from '../components/KeyFeatureNotice';
 import CompanyFilter from '../components/company/CompanyFilter';
 import CompanyTable from '../components/company/CompanyTable';
 import { CompanyFilterCriteria, defaultCompanyFilters } from '../components/company/types';
+import { definePersistedState, loadPersistedState, savePersistedState } from '../storage/persistedState';
 import './Companies.css';
 
-const STORAGE_KEY = 'companies-filters';
-
 type PersistedFilters = Omit<CompanyFilterCriteria, 'companyTypeId'>;
 
+const { companyTypeId: _companyTypeId, ...defaultPersistedFilters } = defaultCompanyFilters;
+
+const companyFiltersState = definePersistedState<PersistedFilters>({
+  storageKey: 'companies-filters',
+  label: 'Company filters',
+  version: 1,
+  defaults: defaultPersistedFilters,
+});
+
 function getInitialFilters(): CompanyFilterCriteria {
-  try {
-    const saved = localStorage.getItem(STORAGE_KEY);
-    if (saved) {
-      const parsed: PersistedFilters = JSON.parse(saved);
-      return { ...defaultCompanyFilters, ...parsed, companyTypeId: null };
-    }
-  } catch (error) {
-    console.error('Failed to load company filters from localStorage:', error);
-  }
-  return defaultCompanyFilters;
+  return { ...loadPersistedState(companyFiltersState), companyTypeId: null };
 }
 
 const Companies: React.FC = () => {
   const { password: apiKey } = usePassword('torn-api-key');
+  const access = useTornFeature(apiKey, 'companies');
 
   const [companyTypes, setCompanyTypes] = useState<CompanyTypesResponse['companies']>({});
   const [typesLoading, setTypesLoading] = useState(true);
-  const [typesError, setTypesError] = useState<string | null>(null);
+  const [typesError, setTypesError] = useState<TornError | null>(null);
 
   const [companies, setCompanies] = useState<CompanyBasic[]>([]);
   const [companiesLoading, setCompaniesLoading] = useState(false);
@@ -47,66 +52,78 @@ const Companies: React.FC = () => {
 
   // Persist filter preferences (excluding companyTypeId) to localStorage
   useEffect(() => {
-    try {
-      const { companyTypeId, ...persisted } = filters;
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(persisted));
-    } catch (error) {
-      console.error('Failed to save company filters to localStorage:', error);
-    }
+    const { companyTypeId, ...persisted } = filters;
+    savePersistedState(companyFiltersState, persisted);
   }, [filters]);
 
-  // Ref to track current type ID for stale-request detection in handleLoadDetails
-  const currentTypeIdRef = useRef<string | null>(filters.companyTypeId);
+  // Signal for handleLoadDetails; aborted when the type changes or the page unmounts,
+  // which drops detail requests still waiting in the rate limiter queue
+  const detailsAbortRef = useRef<AbortController>(new AbortController());
   useEffect(() => {
-    currentTypeIdRef.current = filters.companyTypeId;
+    const controller = new AbortController();
+    detailsAbortRef.current = controller;
+    return () => controller.abort();
   }, [filters.companyTypeId]);
 
   // Fetch company types on mount
   useEffect(() => {
     if (!apiKey) {
       setTypesLoading(false);
-      setTypesError('Please set your Torn API key in Settings.');
+      setTypesError(validationError('Please set your Torn API key in Settings.', 'apiKey'));
       return;
     }
-    let cancelled = false;
+    if (!access.allowed) return;
+    const controller = new AbortController();
     (async () => {
       setTypesLoading(true);
-      const result = await fetchCompanyTypes(apiKey);
-      if (cancelled) return;
+      const result = await fetchCompanyTypes(apiKey, {
+        signal: controller.signal,
+        staleWhileRevalidate: true,
+        onRevalidate: (fresh) => {
+          if (!controller.signal.aborted && fresh.data) setCompanyTypes(fresh.data.companies);
+        },
+      });
+      if (controller.signal.aborted) return;
       if (result.error) {
         setTypesError(result.error);
-        toast.error(result.error);
+        toast.error(result.error.message);
       } else if (result.data) {
         setCompanyTypes(result.data.companies);
         setTypesError(null);
       }
       setTypesLoading(false);
     })();
-    return () => { cancelled = true; };
-  }, [apiKey]);
+    return () => controller.abort();
+  }, [apiKey, access.allowed]);
 
   // Fetch companies when type changes
   useEffect(() => {
-    if (!filters.companyTypeId || !apiKey) {
+    if (!filters.companyTypeId || !apiKey || !access.allowed) {
       setCompanies([]);
       return;
     }
-    let cancelled = false;
+    const controller = new AbortController();
     (async () => {
       setCompaniesLoading(true);
       setCompanyDetails({}); // clear details when type changes
-      const result = await fetchCompaniesByType(apiKey, filters.companyTypeId!);
-      if (cancelled) return;
+      const result = await fetchCompaniesByType(apiKey, filters.companyTypeId!, {
+        signal: controller.signal,
+        staleWhileRevalidate: true,
+        onRevalidate: (fresh) => {
+          if (!controller.signal.aborted && fresh.data) setCompanies(fresh.data);
+        },
+      });
+      if (controller.signal.aborted) return;
       if (result.error) {
-        toast.error(result.error);
+        toast.error(result.error.message);
         setCompanies([]);
       } else if (result.data) {
         setCompanies(result.data);
       }
       setCompaniesLoading(false);
     })();
-    return () => { cancelled = true; };
-  }, [apiKey, filters.companyTypeId]);
+    return () => controller.abort();
+  }, [apiKey, access.allowed, filters.companyTypeId]);
 
   // Filter companies client-side
   const filteredCompanies = useMemo(() => {
@@ -148,22 +165,36 @@ const Companies: React.FC = () => {
 
   // Load details for all visible companies
   const handleLoadDetails = useCallback(async () => {
-    if (!apiKey || filteredCompanies.length === 0) return;
-    const typeIdAtStart = currentTypeIdRef.current;
+    if (!apiKey || !access.allowed || filteredCompanies.length === 0) return;
+    const { signal } = detailsAbortRef.current;
     setDetailsLoading(true);
 
     const promises = filteredCompanies.map(async (company) => {
-      const result = await fetchCompanyDetail(apiKey, company.ID);
       // Discard if type changed while loading (checked via ref, not stale closure)
-      if (currentTypeIdRef.current !== typeIdAtStart) return;
-      if (result.data) {
-        setCompanyDetails((prev) => ({ ...prev, [company.ID]: result.data! }));
-      }
+      const store = (detail: DataOrError<CompanyDetail>) => {
+        if (signal.aborted || !detail.data) return;
+        setCompanyDetails((prev) => ({ ...prev, [company.ID]: detail.data! }));
+      };
+      store(await fetchCompanyDetail(apiKey, company.ID, {
+        signal,
+        priority: 'background',
+        staleWhileRevalidate: true,
+        onRevalidate: store,
+      }));
     });
 
     await Promise.allSettled(promises);
     setDetailsLoading(false);
-  }, [apiKey, filteredCompanies]);
+  }, [apiKey, access.allowed, filteredCompanies]);
+
+  if (!access.allowed) {
+    return (
+      <div className="companies-page">
+        <h1>Companies</h1>
+        <KeyFeatureNotice className="companies-error" feature="companies" access={access} />
+      </div>
+    );
+  }
 
   if (typesLoading) {
     return (
@@ -178,7 +209,7 @@ const Companies: React.FC = () => {
     return (
       <div className="companies-page">
         <h1>Companies</h1>
-        <div className="companies-error">{typesError}</div>
+        <ApiErrorNotice className="companies-error" error={typesError} apiKey={apiKey} />
       </div>
     );
   }
@@ -2,9 +2,15 @@ import React, { useState, useEffect } from 'react';
 import { useParams } from 'react-router-dom';
 import { toast } from 'react-toastify';
 import { usePassword } from '../hooks/usePassword';
+import { useTornFeature } from '../hooks/useTornKeyInfo';
 import { fetchCompanyDetail, CompanyDetail } from '../api/company/companies';
-import { fetchUserProfileV1Cached, UserProfileV1 } from '../api/user/tornUserProfileV1';
-import { fetchUserPersonalStats, UserPersonalStats } from '../api/user/userPersonalStats';
+import { TornError, validationError } from '../api/helpers/tornError';
+import { TornFeature } from '../api/key/keyCapabilities';
+import { UserProfileV1 } from '../api/user/tornUserProfileV1';
+import { fetchUserData, UserSelection } from '../api/user/userData';
+import { UserPersonalStats } from '../api/user/userPersonalStats';
+import ApiErrorNotice from '../components/ApiErrorNotice';
+import KeyFeatureNotice from '../components/KeyFeatureNotice';
 import EmployeeTable from '../components/company-employees/EmployeeTable';
 import { EmployeeRowData } from '../components/company-employees/EmployeeTableRow';
 import './CompanyEmployees.css';
@@ -14,10 +20,12 @@ const PROFILE_CACHE_MS = 3_600_000; // 1 hour
 const CompanyEmployees: React.FC = () => {
   const { companyId } = useParams<{ companyId: string }>();
   const { password: apiKey } = usePassword('torn-api-key');
+  const access = useTornFeature(apiKey, 'company-employees');
+  const statsAccess = useTornFeature(apiKey, 'employee-stats');
 
   const [companyDetail, setCompanyDetail] = useState<CompanyDetail | null>(null);
   const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<TornError | null>(null);
 
   const [profiles, setProfiles] = useState<Record<string, UserProfileV1>>({});
   const [stats, setStats] = useState<Record<string, UserPersonalStats>>({});
@@ -25,59 +33,60 @@ const CompanyEmployees: React.FC = () => {
   // Fetch company detail
   useEffect(() => {
     if (!apiKey) {
-      setError('Please set your Torn API key in Settings.');
+      setError(validationError('Please set your Torn API key in Settings.', 'apiKey'));
       setLoading(false);
       return;
     }
-    if (!companyId) return;
+    if (!companyId || !access.allowed) return;
 
-    let cancelled = false;
+    const controller = new AbortController();
     setLoading(true);
     setError(null);
 
     (async () => {
-      const result = await fetchCompanyDetail(apiKey, Number(companyId));
-      if (cancelled) return;
+      const result = await fetchCompanyDetail(apiKey, Number(companyId), {
+        signal: controller.signal,
+        priority: 'interactive',
+      });
+      if (controller.signal.aborted) return;
       if (result.error) {
         setError(result.error);
-        toast.error(result.error);
+        toast.error(result.error.message);
       } else if (result.data) {
         setCompanyDetail(result.data);
       }
       setLoading(false);
     })();
 
-    return () => { cancelled = true; };
-  }, [apiKey, companyId]);
+    return () => controller.abort();
+  }, [apiKey, access.allowed, companyId]);
 
-  // Fetch profiles and stats for each employee
+  // Fetch profile and stats for each employee, one call per employee
   useEffect(() => {
     if (!companyDetail || !apiKey) return;
 
-    let cancelled = false;
-    const employeeIds = Object.keys(companyDetail.employees);
-
-    employeeIds.forEach((userId) => {
-      fetchUserProfileV1Cached(
-        { apiKey, userId },
-        { maxAgeMs: PROFILE_CACHE_MS }
-      ).then((result) => {
-        if (cancelled) return;
-        if (result.data) {
-          setProfiles((prev) => ({ ...prev, [userId]: result.data! }));
-        }
-      });
-
-      fetchUserPersonalStats(apiKey, userId).then((result) => {
-        if (cancelled) return;
-        if (result.data) {
-          setStats((prev) => ({ ...prev, [userId]: result.data! }));
-        }
+    const controller = new AbortController();
+    const selections: UserSelection[] = statsAccess.allowed ? ['profile', 'personalstats'] : ['profile'];
+    // With stats, only pooled keys that can serve both are used
+    const feature: TornFeature | TornFeature[] = statsAccess.allowed
+      ? ['company-employees', 'employee-stats']
+      : 'company-employees';
+    Object.keys(companyDetail.employees).forEach((userId) => {
+      fetchUserData(apiKey, userId, selections, {
+        signal: controller.signal,
+        priority: 'background',
+        maxAgeMs: PROFILE_CACHE_MS,
+        feature,
+      }).then((result) => {
+        if (controller.signal.aborted || !result.data) return;
+        const { profile, personalstats } = result.data;
+        if (profile) setProfiles((prev) => ({ ...prev, [userId]: profile }));
+        if (personalstats) setStats((prev) => ({ ...prev, [userId]: personalstats }));
       });
     });
 
-    return () => { cancelled = true; };
-  }, [companyDetail, apiKey]);
+    return () => controller.abort();
+  }, [companyDetail, apiKey, statsAccess.allowed]);
 
   const rows: EmployeeRowData[] = companyDetail
     ? Object.entries(companyDetail.employees).map(([userId, employee]) => ({
@@ -88,6 +97,14 @@ const CompanyEmployees: React.FC = () => {
       }))
     : [];
 
+  if (!access.allowed) {
+    return (
+      <div className="company-employees-page">
+        <KeyFeatureNotice className="company-employees-error" feature="company-employees" access={access} />
+      </div>
+    );
+  }
+
   if (loading) {
     return (
       <div className="company-employees-page">
@@ -99,7 +116,7 @@ const CompanyEmployees: React.FC = () => {
   if (error) {
     return (
       <div className="company-employees-page">
-        <div className="company-employees-error">{error}</div>
+        <ApiErrorNotice className="company-employees-error" error={error} apiKey={apiKey} />
       </div>
     );
   }
@@ -118,6 +135,7 @@ const CompanyEmployees: React.FC = () => {
           </a>
         </h1>
       )}
+      <KeyFeatureNotice className="company-employees-error" feature="employee-stats" access={statsAccess} />
       <EmployeeTable rows={rows} />
     </div>
   );
@@ -1,91 +1,87 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
 import { toast } from 'react-toastify';
 import { usePassword } from '../hooks/usePassword';
+import { usePersistedState } from '../hooks/usePersistedState';
+import { useTornFeature } from '../hooks/useTornKeyInfo';
 import { fetchCompanyTypes, CompanyTypesResponse, CompanyPosition } from '../api/company/companyTypes';
 import { fetchWorkStats, WorkStats } from '../api/user/workStats';
+import { TornError, validationError } from '../api/helpers/tornError';
+import ApiErrorNotice from '../components/ApiErrorNotice';
+import KeyFeatureNotice from '../components/KeyFeatureNotice';
 import CompanySpecialsFilter from '../components/company-specials/CompanySpecialsFilter';
 import CompanySpecialsTable, { CompanySpecialsEntry } from '../components/company-specials/CompanySpecialsTable';
 import { CompanySpecialsFilterCriteria, defaultSpecialsFilters, positionMatchesFilters, companyMatchesSearch } from '../components/company-specials/types';
+import { definePersistedState } from '../storage/persistedState';
 import './CompanySpecials.css';
 
-const FILTERS_STORAGE_KEY = 'company-specials-filters';
-const HIDDEN_STORAGE_KEY = 'company-specials-hidden';
-
-function getInitialFilters(): CompanySpecialsFilterCriteria {
-  try {
-    const saved = localStorage.getItem(FILTERS_STORAGE_KEY);
-    if (saved) {
-      return { ...defaultSpecialsFilters, ...JSON.parse(saved) };
-    }
-  } catch (error) {
-    console.error('Failed to load company specials filters from localStorage:', error);
-  }
-  return defaultSpecialsFilters;
-}
-
-function getInitialHidden(): string[] {
-  try {
-    const saved = localStorage.getItem(HIDDEN_STORAGE_KEY);
-    if (saved) return JSON.parse(saved);
-  } catch (error) {
-    console.error('Failed to load hidden companies from localStorage:', error);
-  }
-  return [];
-}
+const filtersState = definePersistedState<CompanySpecialsFilterCriteria>({
+  storageKey: 'company-specials-filters',
+  label: 'Company specials filters',
+  version: 1,
+  defaults: defaultSpecialsFilters,
+});
+
+/** Company type IDs hidden from the list. */
+const hiddenState = definePersistedState<string[]>({
+  storageKey: 'company-specials-hidden',
+  label: 'Hidden company types',
+  version: 1,
+  defaults: [],
+});
 
 const CompanySpecials: React.FC = () => {
   const { password: apiKey } = usePassword('torn-api-key');
+  const access = useTornFeature(apiKey, 'company-specials');
+  const workStatsAccess = useTornFeature(apiKey, 'work-stats');
 
   const [companyTypes, setCompanyTypes] = useState<CompanyTypesResponse['companies']>({});
   const [typesLoading, setTypesLoading] = useState(true);
-  const [typesError, setTypesError] = useState<string | null>(null);
+  const [typesError, setTypesError] = useState<TornError | null>(null);
 
   const [workStats, setWorkStats] = useState<WorkStats | null>(null);
-  const [workStatsError, setWorkStatsError] = useState<string | null>(null);
+  const [workStatsError, setWorkStatsError] = useState<TornError | null>(null);
 
-  const [filters, setFilters] = useState<CompanySpecialsFilterCriteria>(getInitialFilters);
-  const [hiddenCompanyTypes, setHiddenCompanyTypes] = useState<string[]>(getInitialHidden);
-
-  // Persist filters to localStorage
-  useEffect(() => {
-    try {
-      localStorage.setItem(FILTERS_STORAGE_KEY, JSON.stringify(filters));
-    } catch (error) {
-      console.error('Failed to save company specials filters to localStorage:', error);
-    }
-  }, [filters]);
-
-  // Persist hidden companies to localStorage
-  useEffect(() => {
-    try {
-      localStorage.setItem(HIDDEN_STORAGE_KEY, JSON.stringify(hiddenCompanyTypes));
-    } catch (error) {
-      console.error('Failed to save hidden companies to localStorage:', error);
-    }
-  }, [hiddenCompanyTypes]);
+  const [filters, setFilters] = usePersistedState(filtersState);
+  const [hiddenCompanyTypes, setHiddenCompanyTypes] = usePersistedState(hiddenState);
 
   // Fetch company types and work stats on mount (in parallel)
   useEffect(() => {
     if (!apiKey) {
       setTypesLoading(false);
-      setTypesError('Please set your Torn API key in Settings.');
+      setTypesError(validationError('Please set your Torn API key in Settings.', 'apiKey'));
       return;
     }
-    let cancelled = false;
+    if (!access.allowed) return;
+    const controller = new AbortController();
 
     (async () => {
       setTypesLoading(true);
 
       const [typesResult, statsResult] = await Promise.all([
-        fetchCompanyTypes(apiKey),
-        fetchWorkStats(apiKey),
+        fetchCompanyTypes(apiKey, {
+          signal: controller.signal,
+          staleWhileRevalidate: true,
+          onRevalidate: (fresh) => {
+            if (!controller.signal.aborted && fresh.data) setCompanyTypes(fresh.data.companies);
+          },
+        }),
+        // Without access to work stats the stat % filters are simply disabled
+        workStatsAccess.allowed
+          ? fetchWorkStats(apiKey, {
+              signal: controller.signal,
+              staleWhileRevalidate: true,
+              onRevalidate: (fresh) => {
+                if (!controller.signal.aborted && fresh.data) setWorkStats(fresh.data);
+              },
+            })
+          : Promise.resolve({ data: null, error: null }),
       ]);
 
-      if (cancelled) return;
+      if (controller.signal.aborted) return;
 
       if (typesResult.error) {
         setTypesError(typesResult.error);
-        toast.error(typesResult.error);
+        toast.error(typesResult.error.message);
       } else if (typesResult.data) {
         setCompanyTypes(typesResult.data.companies);
         setTypesError(null);
@@ -93,7 +89,7 @@ const CompanySpecials: React.FC = () => {
 
       if (statsResult.error) {
         setWorkStatsError(statsResult.error);
-        toast.error(`Work stats: ${statsResult.error}`);
+        toast.error(`Work stats: ${statsResult.error.message}`);
       } else if (statsResult.data) {
         setWorkStats(statsResult.data);
         setWorkStatsError(null);
@@ -102,8 +98,8 @@ const CompanySpecials: React.FC = () => {
       setTypesLoading(false);
     })();
 
-    return () => { cancelled = true; };
-  }, [apiKey]);
+    return () => controller.abort();
+  }, [apiKey, access.allowed, workStatsAccess.allowed]);
 
   // Filter company types and positions client-side
   const filteredEntries = useMemo<CompanySpecialsEntry[]>(() => {
@@ -127,7 +123,16 @@ const CompanySpecials: React.FC = () => {
     setHiddenCompanyTypes((prev) =>
       prev.includes(typeId) ? prev.filter((id) => id !== typeId) : [...prev, typeId]
     );
-  }, []);
+  }, [setHiddenCompanyTypes]);
+
+  if (!access.allowed) {
+    return (
+      <div className="company-specials-page">
+        <h1>Company Specials</h1>
+        <KeyFeatureNotice className="company-specials-error" feature="company-specials" access={access} />
+      </div>
+    );
+  }
 
   if (typesLoading) {
     return (
@@ -142,7 +147,7 @@ const CompanySpecials: React.FC = () => {
     return (
       <div className="company-specials-page">
         <h1>Company Specials</h1>
-        <div className="company-specials-error">{typesError}</div>
+        <ApiErrorNotice className="company-specials-error" error={typesError} apiKey={apiKey} />
       </div>
     );
   }
@@ -150,10 +155,14 @@ const CompanySpecials: React.FC = () => {
   return (
     <div className="company-specials-page">
       <h1>Company Specials</h1>
+      <KeyFeatureNotice className="company-specials-error" feature="work-stats" access={workStatsAccess} />
       {workStatsError && (
-        <div className="company-specials-error">
-          Work stats unavailable — stat % filters disabled. {workStatsError}
-        </div>
+        <ApiErrorNotice
+          className="company-specials-error"
+          error={workStatsError}
+          apiKey={apiKey}
+          prefix="Work stats unavailable — stat % filters disabled."
+        />
       )}
       <CompanySpecialsFilter
         filters={filters}
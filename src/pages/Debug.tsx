@@ -0,0 +1,93 @@
+import React, { useMemo, useState } from 'react';
+import { resetV1Fallbacks } from '../api/helpers/apiGeneration';
+import { RequestCacheResult, RequestLogEntry, clearRequestLog } from '../api/helpers/requestLog';
+import RequestLogChart from '../components/debug/RequestLogChart';
+import RequestLogTable from '../components/debug/RequestLogTable';
+import { useRequestLog } from '../hooks/useRequestLog';
+import { useV1Fallbacks } from '../hooks/useV1Fallbacks';
+import './Debug.css';
+
+type StatusFilter = 'all' | 'ok' | 'failed' | 'pending';
+
+function matchesStatus(entry: RequestLogEntry, filter: StatusFilter): boolean {
+  switch (filter) {
+    case 'all':
+      return true;
+    case 'ok':
+    case 'pending':
+      return entry.status === filter;
+    case 'failed':
+      return entry.status !== 'ok' && entry.status !== 'pending';
+  }
+}
+
+/**
+ * Request inspector: every API call made in this session (see requestLog.ts),
+ * with a per-minute chart, to see why a page is slow or the key got throttled.
+ */
+const Debug: React.FC = () => {
+  const entries = useRequestLog();
+  const v1Fetchers = useV1Fallbacks();
+  const [text, setText] = useState('');
+  const [status, setStatus] = useState<StatusFilter>('all');
+  const [cache, setCache] = useState<RequestCacheResult | 'all'>('all');
+
+  const filtered = useMemo(
+    () =>
+      entries.filter(
+        (entry) =>
+          entry.endpoint.toLowerCase().includes(text.trim().toLowerCase()) &&
+          matchesStatus(entry, status) &&
+          (cache === 'all' || entry.cache === cache)
+      ),
+    [entries, text, status, cache]
+  );
+
+  const oneMinuteAgo = Date.now() - 60_000;
+  const lastMinute = entries.filter((e) => e.startedAt > oneMinuteAgo && e.cache !== 'hit').length;
+  const failed = entries.filter((e) => matchesStatus(e, 'failed')).length;
+
+  return (
+    <div className="debug-page">
+      <h1>Request Inspector</h1>
+      <p className="debug-summary">
+        {entries.length} calls logged this session · {lastMinute} reached the API in the last minute · {failed} failed
+      </p>
+      {v1Fetchers.length > 0 && (
+        <p className="debug-summary">
+          Using Torn API v1 for: {v1Fetchers.join(', ')}{' '}
+          <button onClick={resetV1Fallbacks}>Retry v2</button>
+        </p>
+      )}
+
+      <RequestLogChart entries={entries} />
+
+      <div className="debug-filters">
+        <input
+          type="text"
+          placeholder="Filter by endpoint"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+        />
+        <select value={status} onChange={(e) => setStatus(e.target.value as StatusFilter)}>
+          <option value="all">All statuses</option>
+          <option value="ok">OK</option>
+          <option value="failed">Failed</option>
+          <option value="pending">Pending</option>
+        </select>
+        <select value={cache} onChange={(e) => setCache(e.target.value as RequestCacheResult | 'all')}>
+          <option value="all">Any cache result</option>
+          <option value="hit">Cache hit</option>
+          <option value="stale">Stale (revalidated)</option>
+          <option value="miss">Cache miss</option>
+          <option value="none">Not cached</option>
+        </select>
+        <button onClick={clearRequestLog}>Clear log</button>
+      </div>
+
+      <RequestLogTable entries={filtered} />
+    </div>
+  );
+};
+
+export default Debug;
@@ -1,5 +1,7 @@
-import React, { useEffect, useState, useCallback, useMemo } from 'react';
+import React, { useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import { usePassword } from '../hooks/usePassword';
+import { useTornFeature } from '../hooks/useTornKeyInfo';
+import { useRefreshJob } from '../hooks/useRefreshJob';
 import { useNavigate } from 'react-router-dom';
 import {
   fetchElimination,
@@ -7,14 +9,22 @@ import {
   EliminationTeam,
   EliminationTeamMember,
   fetchStats,
+  networkError,
+  TornError,
 } from '../api';
+import ApiErrorNotice from '../components/ApiErrorNotice';
+import KeyFeatureNotice from '../components/KeyFeatureNotice';
+import RefreshIndicator from '../components/RefreshIndicator';
 import { TeamPicker } from '../components/elimination/TeamPicker';
 import { PageSelector } from '../components/elimination/PageSelector';
 import { TeamMemberFilter, Filters } from '../components/elimination/TeamMemberFilter';
 import { TeamMemberTable } from '../components/elimination/TeamMemberTable';
 
+const SCORES_REFRESH_MS = 60 * 1000;
+
 export default function Elimination() {
   const { password: apiKey } = usePassword('torn-api-key');
+  const access = useTornFeature(apiKey, 'elimination');
   const navigate = useNavigate();
 
   const [teams, setTeams] = useState<EliminationTeam[]>([]);
@@ -30,29 +40,46 @@ export default function Elimination() {
 
   const [loadingTeams, setLoadingTeams] = useState(false);
   const [loadingMembers, setLoadingMembers] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<TornError | null>(null);
 
   const [allMembers, setAllMembers] = useState<EliminationTeamMember[]>([]);
   const [ffData, setFfData] = useState<Record<number, number>>({});
 
   // Fetch teams on mount
   useEffect(() => {
-    if (!apiKey) return;
+    if (!apiKey || !access.allowed) return;
+    const controller = new AbortController();
     setLoadingTeams(true);
-    fetchElimination({ apiKey })
+    fetchElimination({ apiKey, signal: controller.signal })
       .then((res) => {
+        if (controller.signal.aborted) return;
         if (res.error) {
           setError(res.error);
         } else if (res.data) {
           setTeams(res.data.elimination);
         }
       })
-      .catch((err) => setError(err.message))
+      .catch((err) => setError(networkError('elimination teams', err)))
       .finally(() => setLoadingTeams(false));
-  }, [apiKey]);
+    return () => controller.abort();
+  }, [apiKey, access.allowed]);
+
+  // Keep team scores current while the page is open
+  const scoresRefreshJob = useRefreshJob('elimination-scores', {
+    label: 'Elimination scores',
+    intervalMs: SCORES_REFRESH_MS,
+    apiKey,
+    enabled: !!apiKey && access.allowed && teams.length > 0,
+    run: async (signal) => {
+      const res = await fetchElimination({ apiKey, signal });
+      if (signal.aborted || !res.data) return res.error;
+      setTeams(res.data.elimination);
+      return null;
+    },
+  });
 
-  const loadData = useCallback(async () => {
-    if (!apiKey || !selectedTeamId || selectedPages.length === 0) return;
+  const loadData = useCallback(async (signal: AbortSignal) => {
+    if (!apiKey || !access.allowed || !selectedTeamId || selectedPages.length === 0) return;
 
     setLoadingMembers(true);
     setError(null);
@@ -63,10 +90,12 @@ export default function Elimination() {
           apiKey,
           teamId: selectedTeamId,
           offset: (page - 1) * 50,
+          signal,
         })
       );
 
       const results = await Promise.all(memberPromises);
+      if (signal.aborted) return;
       let combinedMembers: EliminationTeamMember[] = [];
       for (const res of results) {
         if (res.error) {
@@ -99,26 +128,38 @@ export default function Elimination() {
         const ffResult = await fetchStats({
           apiKey,
           targetIds: preFilteredMembers.map((m) => m.id),
+          signal,
         });
+        if (signal.aborted) return;
 
         if (ffResult.data) {
           const newFfData: Record<number, number> = {};
           ffResult.data.forEach((stat) => {
-            newFfData[stat.player_id] = stat.fair_fight;
+            if (stat.fair_fight !== null) newFfData[stat.player_id] = stat.fair_fight;
           });
           setFfData(newFfData);
         }
       }
-    } catch (err: any) {
-      setError(err.message || 'An error occurred while loading data');
+    } catch (err) {
+      setError(networkError('team members', err));
     } finally {
       setLoadingMembers(false);
     }
-  }, [apiKey, selectedTeamId, selectedPages, filters.minLevel, filters.maxLevel, filters.userStatus]);
+  }, [apiKey, access.allowed, selectedTeamId, selectedPages, filters.minLevel, filters.maxLevel, filters.userStatus]);
+
+  // Each (re)load cancels the one before it, and leaving the page cancels the last one
+  const loadAbortRef = useRef<AbortController | null>(null);
+  const reload = useCallback(() => {
+    loadAbortRef.current?.abort();
+    const controller = new AbortController();
+    loadAbortRef.current = controller;
+    loadData(controller.signal);
+  }, [loadData]);
 
   useEffect(() => {
-    loadData();
-  }, [loadData]);
+    reload();
+    return () => loadAbortRef.current?.abort();
+  }, [reload]);
 
   // Final filtering including Fair Fight
   const displayedMembers = useMemo(() => {
@@ -167,7 +208,9 @@ export default function Elimination() {
   return (
     <div style={{ padding: '20px' }}>
       <h1>Elimination</h1>
-      {error && <p style={{ color: 'red' }}>Error: {error}</p>}
+      <KeyFeatureNotice feature="elimination" access={access} />
+      <RefreshIndicator job={scoresRefreshJob} />
+      {error && <ApiErrorNotice error={error} apiKey={apiKey} prefix="Error:" />}
 
       <TeamPicker
         teams={teams}
@@ -180,7 +223,7 @@ export default function Elimination() {
         <TeamMemberFilter
           filters={filters}
           onFilterChange={setFilters}
-          onReload={loadData}
+          onReload={reload}
         />
 
         {selectedTeamId && <PageSelector
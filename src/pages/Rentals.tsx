@@ -1,16 +1,20 @@
 import {useEffect, useState} from "react";
-import {fetchProperties, fetchRentals, Properties, Rental} from "../api";
+import {fetchProperties, fetchRentals, Properties, Rental, TornError} from "../api";
 import {usePassword} from "../hooks/usePassword";
+import {useTornFeature} from "../hooks/useTornKeyInfo";
 import {PropertySelector} from "../components/property/propertySelector";
 import {RentalsTable, SortBy} from "../components/property/RentalsTable";
 import {PropertyRequirementsSelector} from "../components/property/PropertyRequirementsSelector";
 import {useNavigate} from "react-router-dom";
+import ApiErrorNotice from "../components/ApiErrorNotice";
+import KeyFeatureNotice from "../components/KeyFeatureNotice";
 
 export default function Rentals() {
     const {password: apiKey} = usePassword('torn-api-key');
+    const access = useTornFeature(apiKey, 'rentals');
     const navigate = useNavigate();
     const [loading, setLoading] = useState(false);
-    const [error, setError] = useState<string | null>(null);
+    const [error, setError] = useState<TornError | null>(null);
     const [rentals, setRentals] = useState<Rental[]>([]);
     const [properties, setProperties] = useState<Properties | null>(null);
     const [property, setProperty] = useState<number | null>(null);
@@ -25,25 +29,35 @@ export default function Rentals() {
     const [maxCostPerDay, setMaxCostPerDay] = useState<number | null>(null);
 
     useEffect(() => {
-        if (!apiKey) return;
+        if (!apiKey || !access.allowed) return;
+        const controller = new AbortController();
         setLoading(true);
-        fetchProperties(apiKey)
-            .then(setProperties)
-            .finally(() => setLoading(false))
-            .catch(setError);
-    }, [apiKey]);
+        fetchProperties(apiKey, controller.signal)
+            .then((res) => {
+                if (controller.signal.aborted) return;
+                setError(res.error);
+                if (res.data) setProperties(res.data);
+            })
+            .finally(() => setLoading(false));
+        return () => controller.abort();
+    }, [apiKey, access.allowed]);
 
     useEffect(() => {
-        if (!apiKey) return;
+        if (!apiKey || !access.allowed) return;
         if (!property) return;
         setLoading(true);
         setRequiredMods([]);
         setRentals([]);
-        fetchRentals(apiKey, property)
-            .then(setRentals)
-            .catch(setError)
+        const controller = new AbortController();
+        fetchRentals(apiKey, property, controller.signal)
+            .then((res) => {
+                if (controller.signal.aborted) return;
+                setError(res.error);
+                if (res.data) setRentals(res.data);
+            })
             .finally(() => setLoading(false));
-    }, [apiKey, property]);
+        return () => controller.abort();
+    }, [apiKey, access.allowed, property]);
 
     if (!apiKey) {
         return (
@@ -72,7 +86,8 @@ export default function Rentals() {
     return <div>
         <h1>Rentals</h1>
         <br/>
-        {error && <p>{error}</p>}
+        <KeyFeatureNotice feature="rentals" access={access}/>
+        {error && <ApiErrorNotice error={error} apiKey={apiKey}/>}
         {loading && <p>Loading...</p>}
         {properties &&
             <PropertySelector
@@ -1,7 +1,17 @@
 import React from 'react';
 import PasswordInput from '../components/PasswordInput';
-import { FfApiKeyTestButton } from '../components';
+import {
+  CacheSettings,
+  FfApiKeyTestButton,
+  KeyVaultSettings,
+  MockServerSettings,
+  SettingsTransfer,
+  TornApiKeyTestButton,
+  TornKeyPoolSettings,
+} from '../components';
 import { usePassword } from '../hooks/usePassword';
+import { useApiKeyFlag } from '../hooks/useApiKeyFlag';
+import { useKeyVault } from '../hooks/useKeyVault';
 
 const Settings: React.FC = () => {
   // Get the FF-scouter API key from localStorage
@@ -9,29 +19,39 @@ const Settings: React.FC = () => {
   
   // Get the Torn API key from localStorage
   const { password: tornApiKey, setPassword: setTornApiKey, clearPassword: clearTornApiKey } = usePassword('torn-api-key');
+  const tornKeyFlag = useApiKeyFlag(tornApiKey);
+  // While locked the keys read as empty and can't be changed
+  const keysLocked = useKeyVault() === 'locked';
 
   return (
     <div className="App-header">
       <h1>Settings</h1>
-      <p>Configure your passwords below. They are securely stored in local storage.</p>
+      <p>
+        {keysLocked
+          ? 'Your API keys are encrypted. Unlock them at the top of the page to view or change them.'
+          : 'Configure your passwords below. They are securely stored in local storage.'}
+      </p>
       
-      <div style={{ display: 'flex', flexDirection: 'column', gap: '1.5rem', marginTop: '2rem' }}>
-        <PasswordInput 
-          id="ff-api-key"
-          value={apiKey}
-          onChange={setApiKey}
-          onClear={clearApiKey}
-          label="FF-scouter API Key"
-          placeholder="Enter your FF-scouter API key"
-        />
-      </div>
+      {!keysLocked && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: '1.5rem', marginTop: '2rem' }}>
+          <PasswordInput 
+            id="ff-api-key"
+            value={apiKey}
+            onChange={setApiKey}
+            onClear={clearApiKey}
+            label="FF-scouter API Key"
+            placeholder="Enter your FF-scouter API key"
+          />
+        </div>
+      )}
 
       {/* Test FF-scouter API Key */}
       <div style={{ marginTop: '2rem', padding: '1rem', backgroundColor: '#f0f0f0', borderRadius: '8px' }}>
         <FfApiKeyTestButton apiKey={apiKey} />
       </div>
 
-      <PasswordInput 
+      {!keysLocked && (
+        <PasswordInput 
           id="torn-api-key"
           value={tornApiKey}
           onChange={setTornApiKey}
@@ -39,6 +59,37 @@ const Settings: React.FC = () => {
           label="Torn API Key"
           placeholder="Enter your Torn API key"
         />
+      )}
+      {tornKeyFlag && (
+        <p style={{ color: '#ff6b6b' }}>
+          Torn rejected this key (error {tornKeyFlag.code}: {tornKeyFlag.message}). Enter a new key to continue.
+        </p>
+      )}
+
+      {/* Test Torn API Key */}
+      <div style={{ marginTop: '2rem', padding: '1rem', backgroundColor: '#f0f0f0', borderRadius: '8px' }}>
+        <TornApiKeyTestButton apiKey={tornApiKey} />
+      </div>
+
+      <div style={{ marginTop: '2rem', padding: '1rem', backgroundColor: '#f0f0f0', borderRadius: '8px' }}>
+        <TornKeyPoolSettings locked={keysLocked} />
+      </div>
+
+      <div style={{ marginTop: '2rem', padding: '1rem', backgroundColor: '#f0f0f0', borderRadius: '8px' }}>
+        <KeyVaultSettings />
+      </div>
+
+      <div style={{ marginTop: '2rem', padding: '1rem', backgroundColor: '#f0f0f0', borderRadius: '8px' }}>
+        <SettingsTransfer locked={keysLocked} />
+      </div>
+
+      <div style={{ marginTop: '2rem', padding: '1rem', backgroundColor: '#f0f0f0', borderRadius: '8px' }}>
+        <MockServerSettings />
+      </div>
+
+      <div style={{ marginTop: '2rem', padding: '1rem', backgroundColor: '#f0f0f0', borderRadius: '8px' }}>
+        <CacheSettings />
+      </div>
     </div>
   );
 };
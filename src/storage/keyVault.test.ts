@@ -0,0 +1,84 @@
+import { webcrypto } from 'crypto';
+import { TextDecoder, TextEncoder } from 'util';
+import {
+  disableKeyVault,
+  enableKeyVault,
+  getKeyVaultState,
+  lockKeyVault,
+  readStoredKey,
+  unlockKeyVault,
+  writeStoredKey,
+} from './keyVault';
+
+// jsdom has neither Web Crypto nor TextEncoder; use Node's
+Object.assign(global, { TextEncoder, TextDecoder });
+Object.defineProperty(global, 'crypto', { value: webcrypto });
+
+describe('keyVault', () => {
+  beforeEach(async () => {
+    if (getKeyVaultState() === 'locked') await unlockKeyVault('secret');
+    await disableKeyVault();
+    localStorage.clear();
+    sessionStorage.clear();
+  });
+
+  it('should store keys as plain text while disabled', () => {
+    writeStoredKey('password_torn-api-key', 'abc');
+
+    expect(getKeyVaultState()).toBe('disabled');
+    expect(localStorage.getItem('password_torn-api-key')).toBe('abc');
+  });
+
+  it('should encrypt stored keys and read them only while unlocked', async () => {
+    localStorage.setItem('password_torn-api-key', 'torn-key');
+
+    await enableKeyVault('secret');
+
+    expect(localStorage.getItem('password_torn-api-key')).toMatch(/^enc:v1:/);
+    expect(readStoredKey('password_torn-api-key')).toBe('torn-key');
+
+    lockKeyVault();
+    expect(getKeyVaultState()).toBe('locked');
+    expect(readStoredKey('password_torn-api-key')).toBe('');
+
+    expect(await unlockKeyVault('wrong')).toBe(false);
+    expect(await unlockKeyVault('secret')).toBe(true);
+    expect(readStoredKey('password_torn-api-key')).toBe('torn-key');
+  });
+
+  it('should encrypt keys written while unlocked and decrypt them when disabled', async () => {
+    await enableKeyVault('secret');
+    writeStoredKey('password_ff-api-key', 'ff-key');
+    expect(readStoredKey('password_ff-api-key')).toBe('ff-key');
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(localStorage.getItem('password_ff-api-key')).toMatch(/^enc:v1:/);
+
+    await disableKeyVault();
+
+    expect(getKeyVaultState()).toBe('disabled');
+    expect(localStorage.getItem('password_ff-api-key')).toBe('ff-key');
+  });
+
+  it('should refuse writes while locked', async () => {
+    await enableKeyVault('secret');
+    lockKeyVault();
+
+    expect(() => writeStoredKey('password_torn-api-key', 'abc')).toThrow('Unlock the key vault first');
+  });
+
+  it('should keep the key in memory only', async () => {
+    await enableKeyVault('secret');
+
+    expect(sessionStorage.length).toBe(0);
+  });
+
+  it('should forget a key another tab removed', async () => {
+    await enableKeyVault('secret');
+    writeStoredKey('password_torn-api-key', 'abc');
+
+    localStorage.removeItem('password_torn-api-key');
+    window.dispatchEvent(new StorageEvent('storage', { key: 'password_torn-api-key', newValue: null }));
+
+    expect(readStoredKey('password_torn-api-key')).toBe('');
+  });
+});
@@ -0,0 +1,266 @@
+/**
+ * Optional passphrase protection for the API keys usePassword stores.
+ *
+ * Without a passphrase the keys are kept in localStorage as plain text, as
+ * before. Once enabled, every `password_*` entry is encrypted with AES-GCM
+ * using a key derived from the passphrase with PBKDF2 (Web Crypto), and the
+ * vault has to be unlocked before the keys can be read.
+ *
+ * The derived key is not extractable and lives only in memory, so scripts on
+ * the page can't read it out; the vault locks again on reload or when the tab
+ * is closed. Other tabs unlock on their own but pick up keys changed in any tab.
+ */
+
+export const KEY_STORAGE_PREFIX = 'password_';
+
+const VAULT_STORAGE_KEY = 'key-vault';
+/** Where earlier versions kept the raw key for reloads; removed on load. */
+const LEGACY_SESSION_STORAGE_KEY = 'key-vault-session';
+const ENCRYPTED_PREFIX = 'enc:v1:';
+const PBKDF2_ITERATIONS = 310_000;
+/** Encrypted into the vault metadata to tell a wrong passphrase from a right one. */
+const CHECK_VALUE = 'key-vault-check';
+
+export type KeyVaultState = 'disabled' | 'locked' | 'unlocked';
+
+interface VaultMeta {
+  salt: string;
+  iterations: number;
+  check: string;
+}
+
+let cryptoKey: CryptoKey | null = null;
+/** Plain text of the encrypted entries, by storage key, while unlocked. */
+const decrypted = new Map<string, string>();
+const listeners = new Set<() => void>();
+
+function notify(): void {
+  listeners.forEach((listener) => listener());
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+function readMeta(): VaultMeta | null {
+  try {
+    const raw = localStorage.getItem(VAULT_STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as VaultMeta) : null;
+  } catch {
+    return null;
+  }
+}
+
+function isEncrypted(raw: string): boolean {
+  return raw.startsWith(ENCRYPTED_PREFIX);
+}
+
+function storedKeyNames(): string[] {
+  const names: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key !== null && key.startsWith(KEY_STORAGE_PREFIX)) names.push(key);
+  }
+  return names;
+}
+
+async function deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, [
+    'deriveKey',
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function encrypt(key: CryptoKey, plaintext: string): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(plaintext));
+  return `${ENCRYPTED_PREFIX}${toBase64(iv)}:${toBase64(new Uint8Array(ciphertext))}`;
+}
+
+/** Throws when the value was encrypted with a different key or has been tampered with. */
+async function decrypt(key: CryptoKey, value: string): Promise<string> {
+  const [iv, ciphertext] = value.slice(ENCRYPTED_PREFIX.length).split(':');
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(ciphertext));
+  return new TextDecoder().decode(plaintext);
+}
+
+/** Returns true when the key opens the vault described by meta. */
+async function verifyKey(key: CryptoKey, meta: VaultMeta): Promise<boolean> {
+  try {
+    return (await decrypt(key, meta.check)) === CHECK_VALUE;
+  } catch {
+    return false;
+  }
+}
+
+async function decryptAll(key: CryptoKey): Promise<void> {
+  decrypted.clear();
+  for (const name of storedKeyNames()) {
+    const raw = localStorage.getItem(name) ?? '';
+    if (!isEncrypted(raw)) continue;
+    try {
+      decrypted.set(name, await decrypt(key, raw));
+    } catch (error) {
+      console.error(`Error decrypting '${name}':`, error);
+    }
+  }
+}
+
+async function startSession(key: CryptoKey): Promise<void> {
+  await decryptAll(key);
+  cryptoKey = key;
+  notify();
+}
+
+function endSession(): void {
+  cryptoKey = null;
+  decrypted.clear();
+  notify();
+}
+
+export function getKeyVaultState(): KeyVaultState {
+  if (readMeta() === null) return 'disabled';
+  return cryptoKey ? 'unlocked' : 'locked';
+}
+
+/** Listen for lock state and key changes. Returns an unsubscribe function. */
+export function subscribeKeyVault(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** Encrypts all stored keys with the passphrase and leaves the vault unlocked. */
+export async function enableKeyVault(passphrase: string): Promise<void> {
+  if (readMeta() !== null) throw new Error('Key encryption is already enabled');
+  if (passphrase === '') throw new Error('Passphrase is required');
+
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const meta: VaultMeta = { salt: toBase64(salt), iterations: PBKDF2_ITERATIONS, check: await encrypt(key, CHECK_VALUE) };
+  // Encrypt everything before writing anything, so a failure leaves the plain keys untouched
+  const entries: Array<[string, string]> = [];
+  for (const name of storedKeyNames()) {
+    entries.push([name, await encrypt(key, localStorage.getItem(name) ?? '')]);
+  }
+  localStorage.setItem(VAULT_STORAGE_KEY, JSON.stringify(meta));
+  entries.forEach(([name, value]) => localStorage.setItem(name, value));
+  await startSession(key);
+}
+
+/** Unlocks the vault for this tab. Returns false for a wrong passphrase. */
+export async function unlockKeyVault(passphrase: string): Promise<boolean> {
+  const meta = readMeta();
+  if (meta === null) return true;
+  const key = await deriveKey(passphrase, fromBase64(meta.salt), meta.iterations);
+  if (!(await verifyKey(key, meta))) return false;
+  await startSession(key);
+  return true;
+}
+
+/** Forgets the passphrase in this tab; keys read as empty until unlocked again. */
+export function lockKeyVault(): void {
+  endSession();
+}
+
+/** Stores every key as plain text again. The vault must be unlocked. */
+export async function disableKeyVault(): Promise<void> {
+  if (readMeta() === null) return;
+  if (!cryptoKey) throw new Error('Unlock the key vault first');
+  for (const name of storedKeyNames()) {
+    const raw = localStorage.getItem(name) ?? '';
+    if (isEncrypted(raw)) localStorage.setItem(name, decrypted.get(name) ?? (await decrypt(cryptoKey, raw)));
+  }
+  // Includes values written just now whose encrypted form hasn't been stored yet
+  decrypted.forEach((value, name) => localStorage.setItem(name, value));
+  localStorage.removeItem(VAULT_STORAGE_KEY);
+  endSession();
+}
+
+/** The stored key in plain text; empty when missing or while the vault is locked. */
+export function readStoredKey(storageKey: string): string {
+  // Checked first: a value written while unlocked may not be encrypted and stored yet
+  const value = decrypted.get(storageKey);
+  if (value !== undefined) return value;
+  const raw = localStorage.getItem(storageKey);
+  if (!raw || isEncrypted(raw)) return '';
+  return raw;
+}
+
+/**
+ * Stores a key, encrypted when the vault is enabled. readStoredKey returns the
+ * new value right away; the encrypted value is written once it is ready.
+ * Throws while the vault is locked.
+ */
+export function writeStoredKey(storageKey: string, value: string): void {
+  if (readMeta() === null) {
+    localStorage.setItem(storageKey, value);
+    notify();
+    return;
+  }
+  const key = cryptoKey;
+  if (!key) throw new Error('Unlock the key vault first');
+  decrypted.set(storageKey, value);
+  notify();
+  encrypt(key, value)
+    .then((encrypted) => {
+      // Skip if the value changed again while encrypting
+      if (cryptoKey === key && decrypted.get(storageKey) === value) localStorage.setItem(storageKey, encrypted);
+    })
+    .catch((error) => console.error(`Error encrypting '${storageKey}':`, error));
+}
+
+export function removeStoredKey(storageKey: string): void {
+  localStorage.removeItem(storageKey);
+  decrypted.delete(storageKey);
+  notify();
+}
+
+async function onStorageChange(event: StorageEvent): Promise<void> {
+  if (event.key === VAULT_STORAGE_KEY) {
+    // Encryption was enabled or disabled in another tab; that tab's passphrase may differ
+    if (cryptoKey) endSession();
+    else notify();
+    return;
+  }
+  if (event.key === null || !event.key.startsWith(KEY_STORAGE_PREFIX)) return;
+  if (event.newValue === null) {
+    // Removed in another tab
+    if (decrypted.delete(event.key)) notify();
+    return;
+  }
+  if (cryptoKey && isEncrypted(event.newValue)) {
+    try {
+      decrypted.set(event.key, await decrypt(cryptoKey, event.newValue));
+      notify();
+    } catch (error) {
+      console.error(`Error decrypting '${event.key}':`, error);
+    }
+  }
+}
+
+if (typeof window !== 'undefined') {
+  window.addEventListener('storage', (event) => {
+    onStorageChange(event);
+  });
+  try {
+    sessionStorage.removeItem(LEGACY_SESSION_STORAGE_KEY);
+  } catch {
+    // Nothing to clean up
+  }
+}
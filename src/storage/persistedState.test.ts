@@ -0,0 +1,72 @@
+import {
+  conformToDefaults,
+  definePersistedState,
+  getPersistedStates,
+  loadPersistedState,
+  savePersistedState,
+} from './persistedState';
+
+interface Filters {
+  minLevel: number | null;
+  status: string | null;
+  showHidden: boolean;
+  stats: string[];
+}
+
+const defaults: Filters = { minLevel: 10, status: null, showHidden: false, stats: ['man', 'int'] };
+
+describe('persistedState', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  it('should fill in missing fields and drop unknown or mistyped ones', () => {
+    expect(
+      conformToDefaults({ minLevel: null, status: 'okay', showHidden: 'yes', stats: ['end', 3], removed: 1 }, defaults)
+    ).toEqual({ minLevel: null, status: 'okay', showHidden: false, stats: ['end'] });
+    expect(conformToDefaults('not an object', defaults)).toBe(defaults);
+  });
+
+  it('should round-trip values and register the state', () => {
+    const state = definePersistedState({ storageKey: 'test-filters', label: 'Test', version: 1, defaults });
+
+    expect(loadPersistedState(state)).toBe(defaults);
+    savePersistedState(state, { ...defaults, minLevel: 20 });
+
+    expect(loadPersistedState(state)).toEqual({ ...defaults, minLevel: 20 });
+    expect(getPersistedStates()).toContain(state);
+  });
+
+  it('should migrate unversioned and older values step by step', () => {
+    const state = definePersistedState<Filters>({
+      storageKey: 'test-migrated',
+      label: 'Test',
+      version: 3,
+      defaults,
+      migrations: {
+        0: (value) => ({ ...(value as object), status: 'from-0' }),
+        2: (value) => {
+          const { level, ...rest } = value as { level?: number };
+          return { ...rest, minLevel: level };
+        },
+      },
+    });
+
+    // Saved before versioning
+    localStorage.setItem('test-migrated', JSON.stringify({ level: 5 }));
+    expect(loadPersistedState(state)).toEqual({ ...defaults, minLevel: 5, status: 'from-0' });
+
+    localStorage.setItem('test-migrated', JSON.stringify({ version: 2, data: { level: 7 } }));
+    expect(loadPersistedState(state)).toEqual({ ...defaults, minLevel: 7 });
+  });
+
+  it('should fall back to the defaults for unreadable or newer values', () => {
+    const state = definePersistedState({ storageKey: 'test-broken', label: 'Test', version: 1, defaults });
+
+    localStorage.setItem('test-broken', 'not json');
+    expect(loadPersistedState(state)).toBe(defaults);
+
+    localStorage.setItem('test-broken', JSON.stringify({ version: 2, data: { minLevel: 1 } }));
+    expect(loadPersistedState(state)).toBe(defaults);
+  });
+});
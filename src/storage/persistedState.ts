@@ -0,0 +1,134 @@
+/**
+ * Versioned page state in localStorage (filters, hidden rows, ...).
+ *
+ * Each piece of state is declared once with definePersistedState: its storage
+ * key, a schema version and the default value. Values are stored as
+ * { version, data }. On load, values saved by an older version go through the
+ * registered migrations one version at a time, and the result is checked
+ * against the shape of the defaults:
+ * - fields the defaults don't have are dropped, missing ones take the default
+ * - a field whose type differs from the default falls back to the default;
+ *   null is accepted for any primitive field, and a null default accepts any primitive
+ * - arrays keep the items that match the type of the default's first item
+ *
+ * Values saved before this existed (plain JSON without the envelope) count as
+ * version 0. The registry also tells the settings export what to include.
+ */
+
+export interface PersistedStateOptions<T> {
+  storageKey: string;
+  /** Name shown in the settings export preview. */
+  label: string;
+  /** Current schema version, starting at 1. Bump it when the shape changes incompatibly. */
+  version: number;
+  defaults: T;
+  /**
+   * migrations[n] turns a value saved at version n into version n + 1 (e.g. to
+   * rename a field). Steps without a migration pass the value on unchanged.
+   */
+  migrations?: Record<number, (value: unknown) => unknown>;
+}
+
+export type PersistedState<T> = Readonly<PersistedStateOptions<T>>;
+
+interface StoredEnvelope {
+  version: number;
+  data: unknown;
+}
+
+const registry = new Map<string, PersistedState<unknown>>();
+
+/** Declares a piece of persisted state. Call once at module level; returns the definition. */
+export function definePersistedState<T>(options: PersistedStateOptions<T>): PersistedState<T> {
+  registry.set(options.storageKey, options);
+  return options;
+}
+
+/** Every declared state, in declaration order. */
+export function getPersistedStates(): PersistedState<unknown>[] {
+  return Array.from(registry.values());
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isEnvelope(value: unknown): value is StoredEnvelope {
+  return (
+    isPlainObject(value) &&
+    Object.keys(value).length === 2 &&
+    typeof value.version === 'number' &&
+    'data' in value
+  );
+}
+
+function isPrimitive(value: unknown): boolean {
+  return value === null || ['string', 'number', 'boolean'].includes(typeof value);
+}
+
+/** Returns value reshaped to match defaults; see the rules at the top of this file. */
+export function conformToDefaults<T>(value: unknown, defaults: T): T {
+  if (Array.isArray(defaults)) {
+    if (!Array.isArray(value)) return defaults;
+    if (defaults.length === 0) return value as unknown as T;
+    return value.filter((item) => typeof item === typeof defaults[0]) as unknown as T;
+  }
+  if (isPlainObject(defaults)) {
+    if (!isPlainObject(value)) return defaults;
+    const result: Record<string, unknown> = {};
+    Object.keys(defaults).forEach((key) => {
+      result[key] = key in value ? conformToDefaults(value[key], defaults[key]) : defaults[key];
+    });
+    return result as T;
+  }
+  if (defaults === null) return (isPrimitive(value) ? value : defaults) as T;
+  if (value === null || typeof value === typeof defaults) return value as T;
+  return defaults;
+}
+
+/**
+ * Upgrades a value saved at fromVersion to the state's current version and
+ * checks it against the defaults. Values from a newer version are discarded.
+ */
+export function migratePersistedValue<T>(state: PersistedState<T>, value: unknown, fromVersion: number): T {
+  if (fromVersion > state.version) return state.defaults;
+  let migrated = value;
+  for (let version = fromVersion; version < state.version; version++) {
+    const migrate = state.migrations?.[version];
+    if (migrate) migrated = migrate(migrated);
+  }
+  return conformToDefaults(migrated, state.defaults);
+}
+
+/** The stored value, upgraded and checked; undefined when nothing (readable) is stored. */
+export function readPersistedState<T>(state: PersistedState<T>): T | undefined {
+  try {
+    const raw = localStorage.getItem(state.storageKey);
+    if (raw === null) return undefined;
+    const parsed: unknown = JSON.parse(raw);
+    return isEnvelope(parsed)
+      ? migratePersistedValue(state, parsed.data, parsed.version)
+      : migratePersistedValue(state, parsed, 0);
+  } catch (error) {
+    console.error(`Failed to load '${state.storageKey}' from localStorage:`, error);
+    return undefined;
+  }
+}
+
+/** The stored value, or the defaults. */
+export function loadPersistedState<T>(state: PersistedState<T>): T {
+  return readPersistedState(state) ?? state.defaults;
+}
+
+export function savePersistedState<T>(state: PersistedState<T>, value: T): void {
+  try {
+    const envelope: StoredEnvelope = { version: state.version, data: value };
+    localStorage.setItem(state.storageKey, JSON.stringify(envelope));
+  } catch (error) {
+    console.error(`Failed to save '${state.storageKey}' to localStorage:`, error);
+  }
+}
+
+export function clearPersistedState(state: PersistedState<unknown>): void {
+  localStorage.removeItem(state.storageKey);
+}
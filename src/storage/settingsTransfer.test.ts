@@ -0,0 +1,97 @@
+import {
+  SETTINGS_FILE_VERSION,
+  exportSettings,
+  importSettings,
+  parseSettingsFile,
+  previewSettingsImport,
+} from './settingsTransfer';
+import { definePersistedState, loadPersistedState } from './persistedState';
+
+const companyFilters = definePersistedState({
+  storageKey: 'companies-filters',
+  label: 'Company filters',
+  version: 2,
+  defaults: { minRating: 0 },
+  // Version 1 called it minStars
+  migrations: { 1: (value) => ({ minRating: (value as { minStars?: number }).minStars }) },
+});
+const hiddenTypes = definePersistedState<string[]>({
+  storageKey: 'company-specials-hidden',
+  label: 'Hidden company types',
+  version: 1,
+  defaults: [],
+});
+
+describe('settingsTransfer', () => {
+  beforeEach(() => {
+    localStorage.clear();
+    localStorage.setItem('companies-filters', JSON.stringify({ version: 2, data: { minRating: 5 } }));
+    localStorage.setItem('company-specials-hidden', JSON.stringify(['3']));
+    localStorage.setItem('password_torn-api-key', 'torn-key');
+  });
+
+  it('should export settings without API keys unless asked', () => {
+    const file = exportSettings(false);
+
+    expect(file.version).toBe(SETTINGS_FILE_VERSION);
+    expect(file.containsApiKeys).toBe(false);
+    expect(file.apiKeys).toBeUndefined();
+    expect(file.settings).toEqual({ 'companies-filters': { minRating: 5 }, 'company-specials-hidden': ['3'] });
+    expect(file.settingVersions).toEqual({ 'companies-filters': 2, 'company-specials-hidden': 1 });
+
+    expect(exportSettings(true).apiKeys).toEqual({ 'torn-api-key': 'torn-key' });
+  });
+
+  it('should reject files that are not settings exports or are too new', () => {
+    expect(parseSettingsFile('not json').error?.message).toBe('The file is not valid JSON');
+    expect(parseSettingsFile('{"format":"other"}').error?.kind).toBe('validation');
+
+    const newer = { ...exportSettings(false), version: SETTINGS_FILE_VERSION + 1 };
+    expect(parseSettingsFile(JSON.stringify(newer)).error?.message).toMatch(/newer version/);
+  });
+
+  it('should merge or replace settings as previewed', () => {
+    const file = parseSettingsFile(
+      JSON.stringify({ ...exportSettings(false), settings: { 'companies-filters': { minRating: 7 } } })
+    ).data!;
+
+    expect(previewSettingsImport(file, 'merge')).toEqual([
+      { label: 'Company filters', isApiKey: false, change: 'changed' },
+    ]);
+    expect(previewSettingsImport(file, 'replace')).toEqual([
+      { label: 'Company filters', isApiKey: false, change: 'changed' },
+      { label: 'Hidden company types', isApiKey: false, change: 'removed' },
+    ]);
+
+    importSettings(file, 'merge');
+    expect(loadPersistedState(hiddenTypes)).toEqual(['3']);
+
+    importSettings(file, 'replace');
+    expect(loadPersistedState(companyFilters)).toEqual({ minRating: 7 });
+    expect(localStorage.getItem('company-specials-hidden')).toBeNull();
+    expect(localStorage.getItem('password_torn-api-key')).toBe('torn-key');
+  });
+
+  it('should migrate values from the version they were exported at', () => {
+    const file = parseSettingsFile(
+      JSON.stringify({
+        ...exportSettings(false),
+        settings: { 'companies-filters': { minStars: 3 } },
+        settingVersions: { 'companies-filters': 1 },
+      })
+    ).data!;
+
+    importSettings(file, 'merge');
+
+    expect(loadPersistedState(companyFilters)).toEqual({ minRating: 3 });
+  });
+
+  it('should import API keys only from files that contain them', () => {
+    const file = { ...exportSettings(true), apiKeys: { 'ff-api-key': 'ff-key' } };
+
+    importSettings(file, 'replace');
+
+    expect(localStorage.getItem('password_ff-api-key')).toBe('ff-key');
+    expect(localStorage.getItem('password_torn-api-key')).toBeNull();
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Export and import of the app's settings (every persisted state declared with
+ * definePersistedState, the mock server switch and, optionally, the API keys)
+ * as a JSON file, for moving to another browser or sharing a setup. Imported
+ * values are migrated from the version they were exported at.
+ *
+ * API keys are only written when asked for, in their own `apiKeys` section,
+ * and the file says so in `containsApiKeys`. They are exported in plain text
+ * even when the key vault encrypts them here.
+ */
+
+import { getMockServerUrl, setMockServerUrl } from '../api/helpers/apiConfig';
+import { DataOrError } from '../api/helpers/httpWrapper';
+import { Schema, boolean, literal, number, object, optional, parseResponse, record, string } from '../api/helpers/schema';
+import { validationError } from '../api/helpers/tornError';
+import { KEY_STORAGE_PREFIX, getKeyVaultState, readStoredKey, removeStoredKey, writeStoredKey } from './keyVault';
+import {
+  clearPersistedState,
+  getPersistedStates,
+  migratePersistedValue,
+  readPersistedState,
+  savePersistedState,
+} from './persistedState';
+
+export const SETTINGS_FILE_FORMAT = 'jensim-torn-pages-settings';
+/**
+ * Bump when the file layout changes; older files must keep importing.
+ * 2: added settingVersions (version 1 files hold unversioned values).
+ */
+export const SETTINGS_FILE_VERSION = 2;
+
+export interface SettingsFile {
+  format: typeof SETTINGS_FILE_FORMAT;
+  version: number;
+  exportedAt: number;
+  containsApiKeys: boolean;
+  /** Setting values by storage key. */
+  settings: Record<string, unknown>;
+  /** Persisted state version of each setting; missing means version 0 (saved before versioning). */
+  settingVersions?: Record<string, number>;
+  /** Plain-text API keys by name (usePassword name), only when containsApiKeys. */
+  apiKeys?: Record<string, string>;
+}
+
+interface SettingEntry {
+  storageKey: string;
+  label: string;
+  version: number;
+  /** Current value; undefined when not set. */
+  read: () => unknown;
+  /** An imported value, upgraded from the version it was exported at. */
+  normalize: (value: unknown, fromVersion: number) => unknown;
+  /** Stores a normalized value, or resets the setting with undefined. */
+  write: (value: unknown) => void;
+}
+
+/** Settings included in an export, in the order they are listed in a preview. */
+function settingEntries(): SettingEntry[] {
+  const persisted = getPersistedStates().map(
+    (state): SettingEntry => ({
+      storageKey: state.storageKey,
+      label: state.label,
+      version: state.version,
+      read: () => readPersistedState(state),
+      normalize: (value, fromVersion) => migratePersistedValue(state, value, fromVersion),
+      write: (value) => (value === undefined ? clearPersistedState(state) : savePersistedState(state, value)),
+    })
+  );
+  const mockServer: SettingEntry = {
+    storageKey: 'api-mock-server-url',
+    label: 'Mock server',
+    version: 1,
+    read: () => getMockServerUrl() ?? undefined,
+    normalize: (value) => (typeof value === 'string' ? value : undefined),
+    // Through apiConfig so open pages switch servers right away
+    write: (value) => setMockServerUrl(typeof value === 'string' ? value : null),
+  };
+  return [...persisted, mockServer];
+}
+
+/** API keys (usePassword names) that can be exported. */
+const API_KEYS: Array<{ name: string; label: string }> = [
+  { name: 'torn-api-key', label: 'Torn API key' },
+  { name: 'ff-api-key', label: 'FF-scouter API key' },
+  { name: 'torn-key-pool', label: 'Shared Torn keys' },
+];
+
+/** Setting values are checked by the pages that read them, which fall back to defaults. */
+const anyValue: Schema<unknown> = { check: () => null };
+
+const settingsFileSchema = object<SettingsFile>({
+  format: literal(SETTINGS_FILE_FORMAT),
+  version: number(),
+  exportedAt: number(),
+  containsApiKeys: boolean(),
+  settings: record(anyValue),
+  settingVersions: optional(record(number())),
+  apiKeys: optional(record(string())),
+});
+
+/** Collects the current settings; API keys only with includeApiKeys (they read as empty while locked). */
+export function exportSettings(includeApiKeys: boolean): SettingsFile {
+  const settings: Record<string, unknown> = {};
+  const settingVersions: Record<string, number> = {};
+  settingEntries().forEach((entry) => {
+    const value = entry.read();
+    if (value === undefined) return;
+    settings[entry.storageKey] = value;
+    settingVersions[entry.storageKey] = entry.version;
+  });
+  const file: SettingsFile = {
+    format: SETTINGS_FILE_FORMAT,
+    version: SETTINGS_FILE_VERSION,
+    exportedAt: Date.now(),
+    containsApiKeys: includeApiKeys,
+    settings,
+    settingVersions,
+  };
+  if (includeApiKeys) {
+    const apiKeys: Record<string, string> = {};
+    API_KEYS.forEach(({ name }) => {
+      const value = readStoredKey(`${KEY_STORAGE_PREFIX}${name}`);
+      if (value !== '') apiKeys[name] = value;
+    });
+    file.apiKeys = apiKeys;
+  }
+  return file;
+}
+
+/** Suggested download name, e.g. torn-pages-settings-2024-05-01.json. */
+export function settingsFileName(file: SettingsFile): string {
+  const date = new Date(file.exportedAt).toISOString().slice(0, 10);
+  return `torn-pages-settings-${date}${file.containsApiKeys ? '-with-keys' : ''}.json`;
+}
+
+/** Reads an exported file; a 'validation' error explains what is wrong with it. */
+export function parseSettingsFile(text: string): DataOrError<SettingsFile> {
+  let body: unknown;
+  try {
+    body = JSON.parse(text);
+  } catch {
+    return { data: null, error: validationError('The file is not valid JSON') };
+  }
+  const parsed = parseResponse(body, settingsFileSchema, 'settings file');
+  if (parsed.data && parsed.data.version > SETTINGS_FILE_VERSION) {
+    return {
+      data: null,
+      error: validationError(`The file was made by a newer version of the app (format ${parsed.data.version})`),
+    };
+  }
+  return parsed;
+}
+
+/** 'merge' keeps settings the file doesn't mention; 'replace' resets them. */
+export type SettingsImportMode = 'merge' | 'replace';
+
+export interface SettingsImportChange {
+  label: string;
+  isApiKey: boolean;
+  change: 'added' | 'changed' | 'unchanged' | 'removed';
+}
+
+function importedValue(file: SettingsFile, entry: SettingEntry): unknown {
+  const value = file.settings[entry.storageKey];
+  if (value === undefined) return undefined;
+  return entry.normalize(value, file.settingVersions?.[entry.storageKey] ?? 0);
+}
+
+function compare(current: unknown, imported: unknown, mode: SettingsImportMode): SettingsImportChange['change'] | null {
+  if (imported === undefined) {
+    if (mode === 'merge' || current === undefined) return null;
+    return 'removed';
+  }
+  if (current === undefined) return 'added';
+  return JSON.stringify(current) === JSON.stringify(imported) ? 'unchanged' : 'changed';
+}
+
+/**
+ * What importing the file would do, per setting. API keys are only touched
+ * when the file contains them, whatever the mode.
+ */
+export function previewSettingsImport(file: SettingsFile, mode: SettingsImportMode): SettingsImportChange[] {
+  const changes: SettingsImportChange[] = [];
+  settingEntries().forEach((entry) => {
+    const change = compare(entry.read(), importedValue(file, entry), mode);
+    if (change) changes.push({ label: entry.label, isApiKey: false, change });
+  });
+  if (file.containsApiKeys && file.apiKeys) {
+    const apiKeys = file.apiKeys;
+    API_KEYS.forEach(({ name, label }) => {
+      const current = readStoredKey(`${KEY_STORAGE_PREFIX}${name}`) || undefined;
+      const change = compare(current, apiKeys[name], mode);
+      if (change) changes.push({ label, isApiKey: true, change });
+    });
+  }
+  return changes;
+}
+
+/** Applies the file as previewed. Throws when it contains API keys while the key vault is locked. */
+export function importSettings(file: SettingsFile, mode: SettingsImportMode): void {
+  if (file.containsApiKeys && getKeyVaultState() === 'locked') throw new Error('Unlock your API keys first');
+  settingEntries().forEach((entry) => {
+    const value = importedValue(file, entry);
+    if (value !== undefined || mode === 'replace') entry.write(value);
+  });
+  if (file.containsApiKeys && file.apiKeys) {
+    const apiKeys = file.apiKeys;
+    API_KEYS.forEach(({ name }) => {
+      const storageKey = `${KEY_STORAGE_PREFIX}${name}`;
+      const value = apiKeys[name];
+      if (value !== undefined) writeStoredKey(storageKey, value);
+      else if (mode === 'replace') removeStoredKey(storageKey);
+    });
+  }
+}